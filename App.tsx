@@ -1,18 +1,31 @@
 
 // Main App component for the Universal Academic Workflow
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 // import { GenerateContentResponse } from "@google/genai";
-import { Config, Message, WorkflowState, TaskType, WorkflowNode, WorkflowEdge, NodeExecutionState, SectionVersion, ChapterSection, AnalysisLevel, InputType, ContextProcessingInputType, TokenUsage, ProjectInputType } from './types';
-import { startGenerationPhase, executeReviewPhase, executeSynthesisPhase, continueWorkflow, extractRelevantContent } from './services/geminiService';
+import { Config, Message, WorkflowState, TaskType, WorkflowNode, WorkflowEdge, NodeExecutionState, SectionVersion, ChapterSection, AnalysisLevel, InputType, ContextProcessingInputType, TokenUsage, ProjectInputType, ProviderSettings, ExtractionCacheStats, ChunkReport, ProjectMeta, WorkflowTemplate, ProtocolDefinition } from './types';
+import { startGenerationPhase, executeReviewPhase, executeSynthesisPhase, continueWorkflow, extractRelevantContent, findChunkFailureViolations, retryFailedChunks, spliceRecoveredChunks, withRetrievedPassages, computeGenerationRequestKey } from './services/geminiService';
+import { LlmResponse, StreamOptions } from './services/llmProvider';
+import { runWorkflowGraph, getUpstreamIds, NodeRunOutcome, WorkflowErrorPolicy } from './utils/workflowGraph';
 import NodeCanvas from './components/NodeCanvas';
 import NodeConfigurator from './components/NodeConfigurator';
 import NodeOutputPanel from './components/NodeOutputPanel';
+import ExtractionCacheManager from './components/ExtractionCacheManager';
+import RateLimitSettings from './components/RateLimitSettings';
+import ProtocolEditor from './components/ProtocolEditor';
+import { getStopPhrases, resolveProtocol, findMissingInputs } from './services/protocolRegistry';
+import ProjectSwitcher from './components/ProjectSwitcher';
+import TemplateInsertDialog from './components/TemplateInsertDialog';
+import { listProjects, loadProject, saveProject, createProject, renameProject, duplicateProject, deleteProject, migrateLegacyProject, getLastOpenedProjectId, rememberOpenedProject, DEFAULT_PROJECT_NAME } from './services/projectStore';
+import { serializeWorkflowFile, parseWorkflowFile } from './utils/workflowFile';
+import { createTemplateFromNodes, findTemplatePlaceholders, instantiateTemplate } from './utils/workflowTemplates';
+import { listTemplates, saveTemplate, deleteTemplate } from './services/templateStore';
+import { DraftSection } from './utils/markdownUtils';
 import SaveIcon from './components/icons/SaveIcon';
 import UploadIcon from './components/icons/UploadIcon';
 import PlusCircleIcon from './components/icons/PlusCircleIcon';
-
-const LOCAL_STORAGE_KEY = 'universal_academic_workflow_nodes_v1';
+import SparklesIcon from './components/icons/SparklesIcon';
+import SpinnerIcon from './components/icons/SpinnerIcon';
 
 const getInitialConfig = (type: TaskType): Config => ({
     Task_Type: type,
@@ -35,7 +48,17 @@ const getInitialConfig = (type: TaskType): Config => ({
     Chapter_Outline: '',
     Draft_Chapter_Text: '',
     Red_Team_Review_Text: '',
-    Final_Draft_For_Review: ''
+    Final_Draft_For_Review: '',
+    Model_Id: '',
+    Extraction_Model_Id: '',
+    Chunk_Overlap: '',
+    Knowledge_Base_Budget: '',
+    Max_Chunk_Failure_Percent: '',
+    Temperature: '',
+    Top_P: '',
+    Max_Output_Tokens: '',
+    Thinking_Budget: '',
+    Token_Budget: ''
 });
 
 const getInitialExecutionState = (): NodeExecutionState => ({
@@ -58,22 +81,43 @@ const extractTitleFromMarkdown = (content: string): string => {
     return 'Untitled Section';
 };
 
+// Longer lists are truncated in the load error alert
+const MAX_REPORTED_FILE_ERRORS = 15;
+
+// Abort reasons for a node's run controller: a stop ends the stream but keeps the partial output as a version,
+// a cancel ends the whole run (extraction included) and leaves the node cancelled.
+const STOP_REASON = 'stopped';
+const CANCEL_REASON = 'cancelled';
+
+// Settles the pending section that received a stream: dropped on normal completion,
+// kept with its partial output when the user stopped the stream.
+const settleStreamedSection = (sections: ChapterSection[], messageId: string, keepPartial: boolean, finalText: string): ChapterSection[] => {
+    const isStreamed = (s: ChapterSection) => s.isPending && s.sourceMessageId === messageId;
+    if (!keepPartial || !finalText.trim()) return sections.filter(s => !isStreamed(s));
+    return sections.map(s => isStreamed(s)
+        ? { ...s, isPending: false, title: extractTitleFromMarkdown(finalText), versions: s.versions.map(v => ({ ...v, content: finalText, createdAt: new Date() })) }
+        : s);
+};
+
 // Helper to clean response text
-const processResponseText = (responseText: string): { cleanedText: string, isAwaitingAction: boolean } => {
+// `protocolStopPhrases` come from the node's protocol, so phrases added to an edited protocol also pause the run
+const processResponseText = (responseText: string, protocolStopPhrases: string[] = []): { cleanedText: string, isAwaitingAction: boolean } => {
     const triggerPhrases = [
       'awaiting command', 'please confirm', 'await explicit user approval',
       'ask the user the guiding question', 'which specific theory',
-      'awaiting your selection'
+      'awaiting your selection',
+      ...protocolStopPhrases.map(p => p.toLowerCase())
     ];
     const lowercased = responseText.toLowerCase();
     const isAwaitingAction = triggerPhrases.some(p => lowercased.includes(p));
 
     let cleanedText = responseText.replace(/^\s*[•*-]\s*$/gm, '').replace(/\n{3,}/g, '\n\n');
-    const stopPhrases = [
+    const stopPhrases = Array.from(new Set([
+        ...protocolStopPhrases,
         'Awaiting command for the next section.', 'Awaiting command for the first section.',
         'Awaiting command to generate a visual.', 'Please confirm.',
         'Awaiting your selection of topics to infuse.', 'Please confirm if this infusion plan is approved.'
-    ];
+    ]));
     for (const phrase of stopPhrases) {
         if (cleanedText.trim().endsWith(phrase)) {
             cleanedText = cleanedText.trim().slice(0, -phrase.length).trim();
@@ -84,12 +128,217 @@ const processResponseText = (responseText: string): { cleanedText: string, isAwa
 };
 
 
+// Extraction scopes feed the chunk cache keys, so a chunk retry must build them exactly as the run did
+const bibliographyScope = (config: Partial<Config>) => {
+    const fullContext = `${config.Chapter_Title || ''} ${config.Chapter_Subtitle || ''}`.trim();
+    return { contextText: fullContext || 'Academic Context', instructions: config.Additional_Instructions };
+};
+
+const sourceFileScope = (type: TaskType, config: Partial<Config>) => {
+    let contextInfo = config.Chapter_Title || 'Academic Content';
+
+    if (type === TaskType.CHAPTER_INFUSION && config.Source_A_File) {
+        contextInfo = `Primary Source Content Preview (for Infusion context): ${config.Source_A_File.slice(0, 500)}...`;
+    } else if (type === TaskType.ACADEMIC_NOTE_GENERATION) {
+        contextInfo = config.Chapter_Title || 'Academic Note Generation';
+    } else if (type === TaskType.CONTEXT_PROCESSING) {
+        // Smart Context Extraction Logic: Uses inherited Title (from Project Node) to filter files
+        const title = config.Chapter_Title || '';
+        const subtitle = config.Chapter_Subtitle || '';
+        const outline = config.Chapter_Outline || '';
+
+        if (title || subtitle) {
+            contextInfo = `Context: ${title} ${subtitle}\n${outline ? `Outline Scope:\n${outline}` : ''}`;
+        } else {
+            contextInfo = 'Knowledge Base Extraction (General)';
+        }
+    }
+    return { contextText: contextInfo, instructions: config.Additional_Instructions };
+};
+
+// Every node whose execution state resolveUpstreamContext reads for `node`: its direct upstream nodes,
+// plus the draft behind a Red Team review that feeds a Final Synthesis
+const upstreamStateIds = (node: WorkflowNode, nodes: WorkflowNode[], edges: WorkflowEdge[]): string[] => {
+    const ids = getUpstreamIds(node.id, edges);
+    if (node.type !== TaskType.FINAL_SYNTHESIS) return ids;
+    const draftIds = ids
+        .filter(id => nodes.find(n => n.id === id)?.type === TaskType.RED_TEAM_REVIEW)
+        .flatMap(id => edges.find(e => e.target === id)?.source ?? []);
+    return Array.from(new Set([...ids, ...draftIds]));
+};
+
+// Numbers each execution state object, so the states a memo reads can be compared by identity through one string
+const stateIdentities = new WeakMap<NodeExecutionState, number>();
+let nextStateIdentity = 0;
+const identityOf = (state?: NodeExecutionState): string => {
+    if (!state) return '-';
+    let identity = stateIdentities.get(state);
+    if (identity === undefined) {
+        identity = nextStateIdentity++;
+        stateIdentities.set(state, identity);
+    }
+    return String(identity);
+};
+
+// Resolves the effective config for a node by merging in artifacts and metadata from its upstream nodes.
+const resolveUpstreamContext = (node: WorkflowNode, nodes: WorkflowNode[], edges: WorkflowEdge[], executionStates: Record<string, NodeExecutionState>) => {
+    const incomingEdges = edges.filter(e => e.target === node.id);
+    const effectiveConfig = { ...node.config };
+    const upstreamSources: Record<string, string> = {};
+
+    // Accumulators for multi-source nodes
+    let combinedSourceB = effectiveConfig.Source_B_Content || '';
+    let combinedBibliography = effectiveConfig.Core_Bibliography || '';
+
+    incomingEdges.forEach(edge => {
+        const sourceNode = nodes.find(n => n.id === edge.source);
+        const sourceState = executionStates[edge.source];
+        if (!sourceNode || !sourceState) return;
+        
+        // Get text from artifacts (document sections)
+        const sourceText = sourceState.documentSections
+            .sort((a,b) => a.order - b.order)
+            .map(s => s.versions.find(v => v.id === s.activeVersionId)?.content || '')
+            .join('\n\n');
+        
+        // Get raw chat message content if no artifacts (fallback for Context Processing)
+        const sourceChatContent = sourceState.messages
+            .filter(m => m.role === 'assistant' && !m.isHidden)
+            .map(m => m.content)
+            .join('\n\n');
+
+        const contentToUse = sourceText || sourceChatContent;
+        const sType = sourceNode.type;
+        const tType = node.type;
+
+        // --- PROJECT DEFINITION INHERITANCE (METADATA) ---
+        if (sType === TaskType.PROJECT_DEFINITION) {
+            // All downstream nodes inherit metadata from Project Definition
+            if (sourceNode.config.Chapter_Title) {
+                effectiveConfig.Chapter_Title = sourceNode.config.Chapter_Title;
+                upstreamSources['Chapter_Title'] = "Project Definition";
+            }
+            if (sourceNode.config.Chapter_Subtitle) {
+                effectiveConfig.Chapter_Subtitle = sourceNode.config.Chapter_Subtitle;
+            }
+            if (sourceNode.config.Additional_Instructions) {
+                // Append instructions or set if empty
+                const existing = effectiveConfig.Additional_Instructions || '';
+                effectiveConfig.Additional_Instructions = existing 
+                    ? `${existing}\n\nGlobal Project Directives:\n${sourceNode.config.Additional_Instructions}`
+                    : sourceNode.config.Additional_Instructions;
+            }
+            if (sourceNode.config.Target_Word_Count) effectiveConfig.Target_Word_Count = sourceNode.config.Target_Word_Count;
+            if (sourceNode.config.Output_Language) effectiveConfig.Output_Language = sourceNode.config.Output_Language;
+        }
+
+        // --- CONTEXT PROCESSING INHERITANCE (DATA) ---
+        else if (sType === TaskType.CONTEXT_PROCESSING) {
+            // WE USE XML TAGS to help the model distinguish sources and prevent "overload confusion"
+            const label = sourceNode.label || "Context_Batch";
+            const safeLabel = label.replace(/\s+/g, '_');
+            
+            // Structured XML Block
+            const structuredBlock = `
+<context_source id="${safeLabel}" type="context_processing_output">
+${contentToUse}
+</context_source>
+`;
+            // Append to BOTH bibliography and Source B content
+            combinedBibliography += structuredBlock;
+            combinedSourceB += structuredBlock;
+            
+            upstreamSources['Core_Bibliography'] = "Context Library";
+            upstreamSources['Source_B_Content'] = "Context Library";
+            
+            // Note: We deliberately do NOT inherit title from Context Processing nodes anymore,
+            // as the Project Definition node is now the single source of truth for Titles.
+        }
+        
+        // --- STANDARD NODE INHERITANCE ---
+        else if (sourceNode.config.Core_Bibliography && !effectiveConfig.Core_Bibliography) {
+            if (!combinedBibliography.includes("context_source")) {
+                 effectiveConfig.Core_Bibliography = sourceNode.config.Core_Bibliography;
+                 upstreamSources['Core_Bibliography'] = sourceNode.label || sourceNode.type;
+            }
+        }
+        
+        // Reference libraries follow the draft downstream, e.g. into Citation Verification
+        if (!effectiveConfig.References?.length && sourceNode.config.References?.length) {
+            effectiveConfig.References = sourceNode.config.References;
+            upstreamSources['References'] = sourceNode.label || sourceNode.type;
+        }
+
+        // General fallback inheritance for non-Project nodes
+        if (sType !== TaskType.PROJECT_DEFINITION) {
+            if (!effectiveConfig.Chapter_Title && sourceNode.config.Chapter_Title) {
+                 effectiveConfig.Chapter_Title = sourceNode.config.Chapter_Title;
+                 upstreamSources['Chapter_Title'] = sourceNode.label || sourceNode.type;
+            }
+            if (!effectiveConfig.Chapter_Subtitle && sourceNode.config.Chapter_Subtitle) {
+                 effectiveConfig.Chapter_Subtitle = sourceNode.config.Chapter_Subtitle;
+            }
+        }
+
+        // Inherit Outline for Context Processing context-aware extraction
+        if (tType === TaskType.CONTEXT_PROCESSING && !effectiveConfig.Chapter_Outline && contentToUse && sType === TaskType.OUTLINE_GENERATION) {
+             effectiveConfig.Chapter_Outline = contentToUse;
+             upstreamSources['Chapter_Outline'] = sourceNode.label || sourceNode.type;
+        }
+
+        if (!contentToUse) return;
+
+        if (sType === TaskType.OUTLINE_GENERATION && tType === TaskType.CHAPTER_GENERATION) {
+            effectiveConfig.Chapter_Outline = contentToUse;
+            upstreamSources['Chapter_Outline'] = sourceNode.label || sourceNode.type;
+        } else if (tType === TaskType.RED_TEAM_REVIEW || tType === TaskType.CITATION_VERIFICATION) {
+            // Accepts text from any upstream node as the draft to be reviewed/verified
+            effectiveConfig.Draft_Chapter_Text = contentToUse;
+            upstreamSources['Draft_Chapter_Text'] = sourceNode.label || sourceNode.type;
+        } else if (sType === TaskType.RED_TEAM_REVIEW && tType === TaskType.FINAL_SYNTHESIS) {
+            effectiveConfig.Red_Team_Review_Text = contentToUse;
+            upstreamSources['Red_Team_Review_Text'] = sourceNode.label || sourceNode.type;
+            const draftEdge = edges.find(e => e.target === sourceNode.id);
+            if (draftEdge) {
+                 const draftNodeId = draftEdge.source;
+                 const draftState = executionStates[draftNodeId];
+                 const draftNode = nodes.find(n => n.id === draftNodeId);
+                 if (draftState) {
+                    const draftText = draftState.documentSections.map(s => s.versions.find(v => v.id === s.activeVersionId)?.content).join('\n\n');
+                    effectiveConfig.Draft_Chapter_Text = draftText;
+                    upstreamSources['Draft_Chapter_Text'] = draftNode?.label || draftNode?.type || 'Upstream Draft';
+                 }
+            }
+        } else if (tType === TaskType.ACADEMIC_NOTE_GENERATION && sType !== TaskType.PROJECT_DEFINITION) {
+             const separator = combinedSourceB ? '\n\n' : '';
+             combinedSourceB = `${combinedSourceB}${separator}--- Input from ${TaskType[sType]} ---\n${contentToUse}`;
+             upstreamSources['Source_B_Content'] = sourceNode.label || sourceNode.type;
+        }
+    });
+
+    // Apply accumulated values
+    if (combinedSourceB) effectiveConfig.Source_B_Content = combinedSourceB;
+    if (combinedBibliography) effectiveConfig.Core_Bibliography = combinedBibliography;
+
+    return { effectiveConfig, upstreamSources };
+};
+
 function App() {
     const [nodes, setNodes] = useState<WorkflowNode[]>([]);
     const [edges, setEdges] = useState<WorkflowEdge[]>([]);
     const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
     const [executionStates, setExecutionStates] = useState<Record<string, NodeExecutionState>>({});
-    const [showNewProjectDialog, setShowNewProjectDialog] = useState(false);
+    const [projects, setProjects] = useState<ProjectMeta[]>([]);
+    const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+    const [showCacheManager, setShowCacheManager] = useState(false);
+    const [showRateLimits, setShowRateLimits] = useState(false);
+    const [showProtocols, setShowProtocols] = useState(false);
+    const [protocolOverrides, setProtocolOverrides] = useState<ProtocolDefinition[]>([]);
+    const [templates, setTemplates] = useState<WorkflowTemplate[]>([]);
+    const [templateSelection, setTemplateSelection] = useState<string[]>([]);
+    const [pendingTemplateInsert, setPendingTemplateInsert] = useState<{ template: WorkflowTemplate, position: { x: number, y: number }, placeholders: string[] } | null>(null);
+    const [isWorkflowRunning, setIsWorkflowRunning] = useState(false);
+    const [workflowErrorPolicy, setWorkflowErrorPolicy] = useState<WorkflowErrorPolicy>('skip-downstream');
     
     // Panel Resizing State
     const [leftWidth, setLeftWidth] = useState(384); // Default 384px (w-96)
@@ -101,106 +350,83 @@ function App() {
     const timerRefs = useRef<Record<string, number | null>>({});
     const startTimesRef = useRef<Record<string, number | null>>({});
 
+    // Abort handles for in-flight runs, keyed by node
+    const runControllersRef = useRef<Record<string, AbortController>>({});
+
+    // Latest committed graph state, read by async runs that outlive the render they started in
+    const nodesRef = useRef<WorkflowNode[]>([]);
+    const edgesRef = useRef<WorkflowEdge[]>([]);
+    const executionStatesRef = useRef<Record<string, NodeExecutionState>>({});
+    const protocolOverridesRef = useRef<ProtocolDefinition[]>([]);
+
+    useEffect(() => { nodesRef.current = nodes; }, [nodes]);
+    useEffect(() => { edgesRef.current = edges; }, [edges]);
+    useEffect(() => { executionStatesRef.current = executionStates; }, [executionStates]);
+    useEffect(() => { protocolOverridesRef.current = protocolOverrides; }, [protocolOverrides]);
+
+    // Set when a project is opened so the autosave does not immediately write it back
+    const skipNextSaveRef = useRef(false);
+    const projectsInitStartedRef = useRef(false);
+
     // --- Persistence ---
+    const openProject = async (id: string) => {
+        const data = await loadProject(id);
+        clearWorkspace();
+        skipNextSaveRef.current = true;
+        setNodes(data?.nodes || []);
+        setEdges(data?.edges || []);
+        setExecutionStates(data?.executionStates || {});
+        setProtocolOverrides(data?.protocolOverrides || []);
+        setActiveProjectId(id);
+        rememberOpenedProject(id);
+    };
+
     useEffect(() => {
-        const saved = localStorage.getItem(LOCAL_STORAGE_KEY);
-        if (saved) {
+        // StrictMode runs effects twice in development; migration and first-project creation must happen once
+        if (projectsInitStartedRef.current) return;
+        projectsInitStartedRef.current = true;
+
+        const initProjects = async () => {
             try {
-                const parsed = JSON.parse(saved);
-                setNodes(parsed.nodes || []);
-                setEdges(parsed.edges || []);
-                
-                // Rehydrate dates in execution states
-                if (parsed.executionStates) {
-                    const states = parsed.executionStates;
-                    Object.keys(states).forEach(key => {
-                        if (states[key].documentSections) {
-                            states[key].documentSections.forEach((sec: ChapterSection) => {
-                                sec.versions.forEach((v: SectionVersion) => v.createdAt = new Date(v.createdAt));
-                            });
-                        }
-                        // Ensure tokenUsage exists for legacy saves
-                        if (!states[key].tokenUsage) {
-                            states[key].tokenUsage = { promptTokens: 0, responseTokens: 0, totalTokens: 0 };
-                        }
-                    });
-                    setExecutionStates(states);
+                await migrateLegacyProject();
+                let list = await listProjects();
+                if (list.length === 0) {
+                    list = [await createProject(DEFAULT_PROJECT_NAME)];
                 }
+                setProjects(list);
+                const lastOpenedId = getLastOpenedProjectId();
+                await openProject(list.some(p => p.id === lastOpenedId) ? lastOpenedId! : list[0].id);
             } catch (e) {
-                console.error("Failed to load state", e);
+                console.error("Failed to load projects", e);
+                alert(`Projects could not be loaded from browser storage. Changes in this session will not be saved.\n\n${(e as Error).message}`);
             }
-        }
+        };
+        initProjects();
     }, []);
 
-    // Debounced Save Effect
     useEffect(() => {
-        const saveState = () => {
-            try {
-                // Tier 1: Try saving everything
-                const fullState = { nodes, edges, executionStates };
-                try {
-                    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(fullState));
-                    return;
-                } catch (e) {
-                     // proceed to tier 2
-                }
-
-                console.warn("Quota exceeded. Attempting Tier 2 save (stripping execution history)...");
-                // Tier 2: Save topology + config, but strip heavy execution states (chat/artifacts)
-                // We keep keys but reset state
-                const reducedExecutionStates: Record<string, NodeExecutionState> = {};
-                Object.keys(executionStates).forEach(k => {
-                    reducedExecutionStates[k] = getInitialExecutionState(); // Reset history
-                });
-                
-                const tier2State = { nodes, edges, executionStates: reducedExecutionStates };
-                try {
-                    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(tier2State));
-                    return;
-                } catch(e) {
-                    // proceed to tier 3
-                }
+        listTemplates().then(setTemplates);
+    }, []);
 
-                console.warn("Quota exceeded. Attempting Tier 3 save (stripping heavy config content)...");
-                // Tier 3: Strip heavy content from Config files in nodes
-                const minimalNodes = nodes.map(node => {
-                    const minimalConfig = { ...node.config };
-                    // Remove large text blobs
-                    const heavyKeys: (keyof Config)[] = [
-                        'Source_A_File', 'Source_B_File', 'Book_File', 
-                        'Core_Bibliography', 'Source_B_Content', 
-                        'Draft_Chapter_Text', 'Red_Team_Review_Text', 
-                        'Final_Draft_For_Review', 'Chapter_Outline'
-                    ];
-                    
-                    heavyKeys.forEach(key => {
-                        if (typeof minimalConfig[key] === 'string' && (minimalConfig[key] as string).length > 500) {
-                            (minimalConfig as any)[key] = "[CONTENT_CLEARED_TO_SAVE_SPACE]";
-                        }
-                    });
-
-                    // Clear file arrays if they contain content (ours usually don't, but for safety)
-                    if (minimalConfig.Source_B_Files) minimalConfig.Source_B_Files = [];
-                    if (minimalConfig.Core_Bibliography_Files) minimalConfig.Core_Bibliography_Files = [];
-
-                    return { ...node, config: minimalConfig };
-                });
-
-                const tier3State = { nodes: minimalNodes, edges, executionStates: reducedExecutionStates };
-                try {
-                    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(tier3State));
-                } catch(e) {
-                    console.error("Critical: Failed to save state even with minimal data.", e);
-                }
+    // Debounced Save Effect
+    useEffect(() => {
+        if (!activeProjectId) return;
+        // The state that was just loaded is already what the store holds
+        if (skipNextSaveRef.current) {
+            skipNextSaveRef.current = false;
+            return;
+        }
 
+        const timeoutId = setTimeout(async () => {
+            try {
+                await saveProject(activeProjectId, { nodes, edges, executionStates, protocolOverrides });
+                setProjects(prev => prev.map(p => p.id === activeProjectId ? { ...p, updatedAt: Date.now() } : p));
             } catch (error) {
-                console.error("Unexpected error during save:", error);
+                console.error("Failed to save project:", error);
             }
-        };
-
-        const timeoutId = setTimeout(saveState, 2000); // Debounce save by 2s
+        }, 2000); // Debounce save by 2s
         return () => clearTimeout(timeoutId);
-    }, [nodes, edges, executionStates]);
+    }, [nodes, edges, executionStates, protocolOverrides]);
 
     // --- Resizing Logic ---
     const startResizingLeft = useCallback(() => setIsResizingLeft(true), []);
@@ -271,9 +497,68 @@ function App() {
             delete next[id];
             return next;
         });
+        setTemplateSelection(prev => prev.filter(nodeId => nodeId !== id));
         if (selectedNodeId === id) setSelectedNodeId(null);
     }, [selectedNodeId]);
 
+    // --- Templates ---
+    const handleToggleTemplateSelection = useCallback((id: string) => {
+        setTemplateSelection(prev => prev.includes(id) ? prev.filter(nodeId => nodeId !== id) : [...prev, id]);
+    }, []);
+
+    // Saves the shift-selected nodes, or the whole graph when nothing is selected
+    const handleSaveTemplate = async () => {
+        const sourceNodes = templateSelection.length > 0 ? nodes.filter(n => templateSelection.includes(n.id)) : nodes;
+        if (sourceNodes.length === 0) {
+            alert("Add some nodes to the canvas first. Shift-click nodes to save only part of the graph.");
+            return;
+        }
+        const name = prompt(`Template name (${sourceNodes.length} node${sourceNodes.length === 1 ? '' : 's'})`)?.trim();
+        if (!name) return;
+        const description = prompt("Short description (optional)")?.trim() || '';
+
+        const template = createTemplateFromNodes(name, description, sourceNodes, edges);
+        try {
+            await saveTemplate(template);
+            setTemplates(await listTemplates());
+            setTemplateSelection([]);
+        } catch (e) {
+            alert(`Could not save template: ${(e as Error).message}`);
+        }
+    };
+
+    const insertTemplateNodes = (template: WorkflowTemplate, position: { x: number, y: number }, values: Record<string, string>) => {
+        const created = instantiateTemplate(template, position, values, getInitialConfig);
+        setNodes(prev => [...prev, ...created.nodes]);
+        setEdges(prev => [...prev, ...created.edges]);
+        setExecutionStates(prev => {
+            const next = { ...prev };
+            created.nodes.forEach(n => { next[n.id] = getInitialExecutionState(); });
+            return next;
+        });
+        setSelectedNodeId(created.nodes[0]?.id || null);
+    };
+
+    const handleInsertTemplate = (template: WorkflowTemplate, position: { x: number, y: number }) => {
+        const placeholders = findTemplatePlaceholders(template);
+        if (placeholders.length > 0) {
+            setPendingTemplateInsert({ template, position, placeholders });
+        } else {
+            insertTemplateNodes(template, position, {});
+        }
+    };
+
+    const handleDeleteTemplate = async (id: string) => {
+        const template = templates.find(t => t.id === id);
+        if (!template || !confirm(`Delete the template "${template.name}"?`)) return;
+        try {
+            await deleteTemplate(id);
+            setTemplates(prev => prev.filter(t => t.id !== id));
+        } catch (e) {
+            alert(`Could not delete template: ${(e as Error).message}`);
+        }
+    };
+
     const handleMoveNode = useCallback((id: string, position: { x: number, y: number }) => {
         setNodes(prev => prev.map(n => n.id === id ? { ...n, position } : n));
     }, []);
@@ -296,6 +581,10 @@ function App() {
         ));
     }, []);
 
+    const handleUpdateProvider = useCallback((nodeId: string, provider: ProviderSettings) => {
+        setNodes(prev => prev.map(n => n.id === nodeId ? { ...n, provider } : n));
+    }, []);
+
     // --- Execution Logic ---
 
     const updateExecutionState = useCallback((nodeId: string, updates: Partial<NodeExecutionState> | ((prev: NodeExecutionState) => Partial<NodeExecutionState>)) => {
@@ -331,154 +620,215 @@ function App() {
         return duration;
     };
 
-    // --- Artifact/Context Integration ---
-    const getUpstreamContext = useCallback((node: WorkflowNode) => {
-        const incomingEdges = edges.filter(e => e.target === node.id);
-        const effectiveConfig = { ...node.config };
-        const upstreamSources: Record<string, string> = {};
-
-        // Accumulators for multi-source nodes
-        let combinedSourceB = effectiveConfig.Source_B_Content || '';
-        let combinedBibliography = effectiveConfig.Core_Bibliography || '';
-
-        incomingEdges.forEach(edge => {
-            const sourceNode = nodes.find(n => n.id === edge.source);
-            const sourceState = executionStates[edge.source];
-            if (!sourceNode || !sourceState) return;
-            
-            // Get text from artifacts (document sections)
-            const sourceText = sourceState.documentSections
-                .sort((a,b) => a.order - b.order)
-                .map(s => s.versions.find(v => v.id === s.activeVersionId)?.content || '')
-                .join('\n\n');
-            
-            // Get raw chat message content if no artifacts (fallback for Context Processing)
-            const sourceChatContent = sourceState.messages
-                .filter(m => m.role === 'assistant' && !m.isHidden)
-                .map(m => m.content)
-                .join('\n\n');
-
-            const contentToUse = sourceText || sourceChatContent;
-            const sType = sourceNode.type;
-            const tType = node.type;
-
-            // --- PROJECT DEFINITION INHERITANCE (METADATA) ---
-            if (sType === TaskType.PROJECT_DEFINITION) {
-                // All downstream nodes inherit metadata from Project Definition
-                if (sourceNode.config.Chapter_Title) {
-                    effectiveConfig.Chapter_Title = sourceNode.config.Chapter_Title;
-                    upstreamSources['Chapter_Title'] = "Project Definition";
-                }
-                if (sourceNode.config.Chapter_Subtitle) {
-                    effectiveConfig.Chapter_Subtitle = sourceNode.config.Chapter_Subtitle;
-                }
-                if (sourceNode.config.Additional_Instructions) {
-                    // Append instructions or set if empty
-                    const existing = effectiveConfig.Additional_Instructions || '';
-                    effectiveConfig.Additional_Instructions = existing 
-                        ? `${existing}\n\nGlobal Project Directives:\n${sourceNode.config.Additional_Instructions}`
-                        : sourceNode.config.Additional_Instructions;
-                }
-                if (sourceNode.config.Target_Word_Count) effectiveConfig.Target_Word_Count = sourceNode.config.Target_Word_Count;
-                if (sourceNode.config.Output_Language) effectiveConfig.Output_Language = sourceNode.config.Output_Language;
-            }
+    // --- Streaming ---
 
-            // --- CONTEXT PROCESSING INHERITANCE (DATA) ---
-            else if (sType === TaskType.CONTEXT_PROCESSING) {
-                // WE USE XML TAGS to help the model distinguish sources and prevent "overload confusion"
-                const label = sourceNode.label || "Context_Batch";
-                const safeLabel = label.replace(/\s+/g, '_');
-                
-                // Structured XML Block
-                const structuredBlock = `
-<context_source id="${safeLabel}" type="context_processing_output">
-${contentToUse}
-</context_source>
-`;
-                // Append to BOTH bibliography and Source B content
-                combinedBibliography += structuredBlock;
-                combinedSourceB += structuredBlock;
-                
-                upstreamSources['Core_Bibliography'] = "Context Library";
-                upstreamSources['Source_B_Content'] = "Context Library";
-                
-                // Note: We deliberately do NOT inherit title from Context Processing nodes anymore,
-                // as the Project Definition node is now the single source of truth for Titles.
-            }
-            
-            // --- STANDARD NODE INHERITANCE ---
-            else if (sourceNode.config.Core_Bibliography && !effectiveConfig.Core_Bibliography) {
-                if (!combinedBibliography.includes("context_source")) {
-                     effectiveConfig.Core_Bibliography = sourceNode.config.Core_Bibliography;
-                     upstreamSources['Core_Bibliography'] = sourceNode.label || sourceNode.type;
-                }
-            }
-            
-            // General fallback inheritance for non-Project nodes
-            if (sType !== TaskType.PROJECT_DEFINITION) {
-                if (!effectiveConfig.Chapter_Title && sourceNode.config.Chapter_Title) {
-                     effectiveConfig.Chapter_Title = sourceNode.config.Chapter_Title;
-                     upstreamSources['Chapter_Title'] = sourceNode.label || sourceNode.type;
-                }
-                if (!effectiveConfig.Chapter_Subtitle && sourceNode.config.Chapter_Subtitle) {
-                     effectiveConfig.Chapter_Subtitle = sourceNode.config.Chapter_Subtitle;
-                }
+    // Opens a placeholder assistant message and a pending artifact section that streamed tokens are written into
+    const beginStream = (nodeId: string, protocol: string | undefined, signal: AbortSignal): { messageId: string, stream: StreamOptions } => {
+        const messageId = uuidv4();
+        const versionId = uuidv4();
+
+        updateExecutionState(nodeId, prev => ({
+            streamingMessageId: messageId,
+            messages: [...prev.messages, { id: messageId, role: 'assistant', content: '', protocol }],
+            documentSections: [...prev.documentSections, {
+                id: uuidv4(),
+                order: prev.documentSections.length + 1,
+                title: 'Streaming...',
+                versions: [{ id: versionId, content: '', createdAt: new Date(), source: 'ai-generated' }],
+                activeVersionId: versionId,
+                sourceMessageId: messageId,
+                protocol,
+                isPending: true
+            }]
+        }));
+
+        return {
+            messageId,
+            stream: {
+                signal,
+                onLog: (message) => appendLog(nodeId, message),
+                onText: (text) => updateExecutionState(nodeId, prev => ({
+                    messages: prev.messages.map(m => m.id === messageId ? { ...m, content: text } : m),
+                    documentSections: prev.documentSections.map(s => s.isPending && s.sourceMessageId === messageId
+                        ? { ...s, versions: s.versions.map(v => ({ ...v, content: text })) }
+                        : s)
+                }))
             }
+        };
+    };
 
-            // Inherit Outline for Context Processing context-aware extraction
-            if (tType === TaskType.CONTEXT_PROCESSING && !effectiveConfig.Chapter_Outline && contentToUse && sType === TaskType.OUTLINE_GENERATION) {
-                 effectiveConfig.Chapter_Outline = contentToUse;
-                 upstreamSources['Chapter_Outline'] = sourceNode.label || sourceNode.type;
+    // Clears stream bookkeeping after a failure or cancel, dropping the placeholder if nothing arrived
+    const abandonStream = (nodeId: string, messageId: string) => {
+        updateExecutionState(nodeId, prev => ({
+            streamingMessageId: undefined,
+            messages: prev.messages.filter(m => m.id !== messageId || m.content),
+            documentSections: settleStreamedSection(prev.documentSections, messageId, false, '')
+        }));
+    };
+
+    // Registers the controller for a new run; `release` only clears it if no newer run has replaced it
+    const beginRun = (nodeId: string) => {
+        const controller = new AbortController();
+        runControllersRef.current[nodeId] = controller;
+        return {
+            controller,
+            isCancelled: () => controller.signal.aborted && controller.signal.reason === CANCEL_REASON,
+            release: () => {
+                if (runControllersRef.current[nodeId] === controller) delete runControllersRef.current[nodeId];
             }
+        };
+    };
+
+    const handleStopNode = useCallback((nodeId: string) => {
+        runControllersRef.current[nodeId]?.abort(STOP_REASON);
+    }, []);
 
-            if (!contentToUse) return;
-
-            if (sType === TaskType.OUTLINE_GENERATION && tType === TaskType.CHAPTER_GENERATION) {
-                effectiveConfig.Chapter_Outline = contentToUse;
-                upstreamSources['Chapter_Outline'] = sourceNode.label || sourceNode.type;
-            } else if (tType === TaskType.RED_TEAM_REVIEW || tType === TaskType.CITATION_VERIFICATION) {
-                // Accepts text from any upstream node as the draft to be reviewed/verified
-                effectiveConfig.Draft_Chapter_Text = contentToUse;
-                upstreamSources['Draft_Chapter_Text'] = sourceNode.label || sourceNode.type;
-            } else if (sType === TaskType.RED_TEAM_REVIEW && tType === TaskType.FINAL_SYNTHESIS) {
-                effectiveConfig.Red_Team_Review_Text = contentToUse;
-                upstreamSources['Red_Team_Review_Text'] = sourceNode.label || sourceNode.type;
-                const draftEdge = edges.find(e => e.target === sourceNode.id);
-                if (draftEdge) {
-                     const draftNodeId = draftEdge.source;
-                     const draftState = executionStates[draftNodeId];
-                     const draftNode = nodes.find(n => n.id === draftNodeId);
-                     if (draftState) {
-                        const draftText = draftState.documentSections.map(s => s.versions.find(v => v.id === s.activeVersionId)?.content).join('\n\n');
-                        effectiveConfig.Draft_Chapter_Text = draftText;
-                        upstreamSources['Draft_Chapter_Text'] = draftNode?.label || draftNode?.type || 'Upstream Draft';
-                     }
+    const handleCancelNode = useCallback((nodeId: string) => {
+        runControllersRef.current[nodeId]?.abort(CANCEL_REASON);
+    }, []);
+
+    const appendLog = (nodeId: string, message: string) => {
+        updateExecutionState(nodeId, prev => ({ logs: [...prev.logs, message] }));
+    };
+
+    const logCacheStats = (nodeId: string, label: string, stats: ExtractionCacheStats) => {
+        const total = stats.hits + stats.misses;
+        if (total === 0) return;
+        updateExecutionState(nodeId, prev => ({
+            logs: [...prev.logs, `${label} extraction cache: ${stats.hits}/${total} chunks served from cache, ${stats.misses} sent to the model.`]
+        }));
+    };
+
+    // Keeps the chunk outcomes for the status panel and logs every chunk that is missing from the notes
+    const recordChunkReports = (nodeId: string, reports: ChunkReport[]) => {
+        if (reports.length === 0) return;
+        const count = (status: ChunkReport['status']) => reports.filter(r => r.status === status).length;
+        const problems = reports.filter(r => r.status === 'failed' || r.status === 'blocked');
+        updateExecutionState(nodeId, prev => ({
+            chunkReports: [...(prev.chunkReports || []), ...reports],
+            logs: [
+                ...prev.logs,
+                `${reports[0].stage} chunks: ${count('ok')} ok, ${count('retried')} recovered after retries, ${count('failed')} failed, ${count('blocked')} blocked.`,
+                ...problems.map(r => `${r.status === 'blocked' ? 'Blocked' : 'Failed'}: ${r.label}${r.detail ? ` (${r.detail})` : ''}`)
+            ]
+        }));
+    };
+
+    // Leaves the node cancelled, keeping the tokens spent before the abort in its usage totals
+    const markCancelled = (nodeId: string, usage: TokenUsage) => {
+        stopTimer(nodeId);
+        updateExecutionState(nodeId, prev => ({
+            workflowState: WorkflowState.CANCELLED,
+            streamingMessageId: undefined,
+            tokenUsage: {
+                promptTokens: prev.tokenUsage.promptTokens + usage.promptTokens,
+                responseTokens: prev.tokenUsage.responseTokens + usage.responseTokens,
+                totalTokens: prev.tokenUsage.totalTokens + usage.totalTokens
+            },
+            logs: [...prev.logs, `Cancelled by user: ${usage.totalTokens.toLocaleString()} tokens used before cancellation.`]
+        }));
+        setNodes(prev => prev.map(n => n.id === nodeId ? { ...n, status: 'cancelled' } : n));
+    };
+
+    // Stops the run before notes with too many gaps reach the generation prompt
+    const throwOnChunkFailures = (reports: ChunkReport[], config: Partial<Config>) => {
+        const violations = findChunkFailureViolations(reports, config);
+        if (violations.length > 0) {
+            throw new Error(`Too many chunks failed to extract. ${violations.join('; ')}. Use "Retry failed chunks" to try them again.`);
+        }
+    };
+
+    /**
+     * Sends only the node's failed and blocked chunks again and leaves its conversation alone. Recovered
+     * bibliography notes are spliced into the saved Core_Bibliography; source-file notes are not kept on
+     * the node, so they reach the prompt from the extraction cache the next time the node runs.
+     */
+    const handleRetryFailedChunks = async (nodeId: string) => {
+        const node = nodesRef.current.find(n => n.id === nodeId);
+        const previousState = executionStatesRef.current[nodeId];
+        const reports = previousState?.chunkReports || [];
+        if (!node || !reports.some(r => r.status === 'failed' || r.status === 'blocked')) return;
+
+        updateExecutionState(nodeId, { workflowState: WorkflowState.PROCESSING });
+        const run = beginRun(nodeId);
+        const retryUsage: TokenUsage = { promptTokens: 0, responseTokens: 0, totalTokens: 0 };
+        let updatedReports = reports;
+        const recoveredByStage: Record<ChunkReport['stage'], number> = { 'Bibliography': 0, 'Source file': 0 };
+
+        try {
+            const { effectiveConfig: runConfig } = resolveUpstreamContext(node, nodesRef.current, edgesRef.current, executionStatesRef.current);
+            const stages = [
+                { stage: 'Bibliography' as const, files: runConfig.Core_Bibliography_Files || [], scope: bibliographyScope(runConfig) },
+                { stage: 'Source file' as const, files: runConfig.Source_B_Files || [], scope: sourceFileScope(node.type, runConfig) },
+            ];
+
+            for (const { stage, files, scope } of stages) {
+                const stageReports = updatedReports.filter(r => r.stage === stage);
+                if (!stageReports.some(r => r.status === 'failed' || r.status === 'blocked')) continue;
+                const result = await retryFailedChunks(files, stageReports, scope, runConfig.Analysis_Level, node.provider, runConfig, run.controller.signal, (message) => appendLog(nodeId, message));
+                retryUsage.promptTokens += result.usage.promptTokens;
+                retryUsage.responseTokens += result.usage.responseTokens;
+                retryUsage.totalTokens += result.usage.totalTokens;
+
+                const retried = new Map(result.reports.map(r => [`${r.fileName}\n${r.label}`, r]));
+                updatedReports = updatedReports.map(r => r.stage === stage ? { ...r, ...retried.get(`${r.fileName}\n${r.label}`) } : r);
+                recoveredByStage[stage] = result.recovered.length;
+
+                const savedBibliography = nodesRef.current.find(n => n.id === nodeId)?.config.Core_Bibliography;
+                if (stage === 'Bibliography' && savedBibliography && result.recovered.length > 0) {
+                    handleUpdateConfig(nodeId, { Core_Bibliography: spliceRecoveredChunks(savedBibliography, result.recovered) });
                 }
-            } else if (tType === TaskType.ACADEMIC_NOTE_GENERATION && sType !== TaskType.PROJECT_DEFINITION) {
-                 const separator = combinedSourceB ? '\n\n' : '';
-                 combinedSourceB = `${combinedSourceB}${separator}--- Input from ${TaskType[sType]} ---\n${contentToUse}`;
-                 upstreamSources['Source_B_Content'] = sourceNode.label || sourceNode.type;
             }
-        });
 
-        // Apply accumulated values
-        if (combinedSourceB) effectiveConfig.Source_B_Content = combinedSourceB;
-        if (combinedBibliography) effectiveConfig.Core_Bibliography = combinedBibliography;
+            const stillFailing = updatedReports.filter(r => r.status === 'failed' || r.status === 'blocked');
+            const hasSavedBibliography = !!nodesRef.current.find(n => n.id === nodeId)?.config.Core_Bibliography;
+            updateExecutionState(nodeId, prev => ({
+                workflowState: previousState.workflowState,
+                chunkReports: updatedReports,
+                tokenUsage: {
+                    promptTokens: prev.tokenUsage.promptTokens + retryUsage.promptTokens,
+                    responseTokens: prev.tokenUsage.responseTokens + retryUsage.responseTokens,
+                    totalTokens: prev.tokenUsage.totalTokens + retryUsage.totalTokens
+                },
+                logs: [
+                    ...prev.logs,
+                    ...(run.controller.signal.aborted ? ['Chunk retry stopped by user; chunks not yet retried keep their earlier status.'] : []),
+                    `Chunk retry: ${recoveredByStage['Bibliography'] + recoveredByStage['Source file']} recovered, ${stillFailing.length} still missing.`,
+                    ...stillFailing.map(r => `${r.status === 'blocked' ? 'Blocked' : 'Failed'}: ${r.label}${r.detail ? ` (${r.detail})` : ''}`),
+                    ...(recoveredByStage['Bibliography'] > 0 && hasSavedBibliography ? ['Recovered bibliography notes were added to the saved Core_Bibliography.'] : []),
+                    ...(recoveredByStage['Source file'] > 0 || (recoveredByStage['Bibliography'] > 0 && !hasSavedBibliography)
+                        ? ['Recovered notes are in the extraction cache and reach the prompt when the node runs again; the conversation was not regenerated.']
+                        : [])
+                ]
+            }));
+        } catch (error) {
+            console.error(error);
+            updateExecutionState(nodeId, prev => ({
+                workflowState: previousState.workflowState,
+                logs: [...prev.logs, `Chunk retry failed: ${(error as Error).message}`]
+            }));
+        } finally {
+            run.release();
+        }
+    };
 
-        return { effectiveConfig, upstreamSources };
-    }, [nodes, edges, executionStates]);
+    // --- Artifact/Context Integration ---
 
-    const handleRunNode = async (nodeId: string) => {
-        const node = nodes.find(n => n.id === nodeId);
-        if (!node) return;
+    const handleRunNode = async (nodeId: string): Promise<NodeRunOutcome> => {
+        const node = nodesRef.current.find(n => n.id === nodeId);
+        if (!node) return 'error';
+        const previousRun = executionStatesRef.current[nodeId];
+        const overrides = protocolOverridesRef.current;
 
         setNodes(prev => prev.map(n => n.id === nodeId ? { ...n, status: 'running' } : n));
-        updateExecutionState(nodeId, { workflowState: WorkflowState.PROCESSING });
+        updateExecutionState(nodeId, { workflowState: WorkflowState.PROCESSING, chunkReports: [] });
         startTimer(nodeId);
+        const run = beginRun(nodeId);
+        let streamedMessageId: string | null = null;
+        const accumulatedTokens: TokenUsage = { promptTokens: 0, responseTokens: 0, totalTokens: 0 };
 
         try {
-            const { effectiveConfig: runConfig } = getUpstreamContext(node);
-            let accumulatedTokens: TokenUsage = { promptTokens: 0, responseTokens: 0, totalTokens: 0 };
+            const { effectiveConfig: runConfig } = resolveUpstreamContext(node, nodesRef.current, edgesRef.current, executionStatesRef.current);
             
             // Special handling for CONTEXT_PROCESSING to ensure files are processed even if "Source_B_Files" is populated
             if (node.type === TaskType.CONTEXT_PROCESSING && runConfig.Source_B_Files && runConfig.Source_B_Files.length > 0) {
@@ -486,101 +836,136 @@ ${contentToUse}
             }
 
             if (runConfig.Core_Bibliography_Files && runConfig.Core_Bibliography_Files.length > 0 && !runConfig.Core_Bibliography) {
-                const contextTitle = runConfig.Chapter_Title || '';
-                const contextSubtitle = runConfig.Chapter_Subtitle || '';
-                const fullContext = `${contextTitle} ${contextSubtitle}`.trim();
-
-                const { text: bibContent, usage: bibUsage } = await extractRelevantContent(
-                    runConfig.Core_Bibliography_Files, 
-                    { 
-                        contextText: fullContext || 'Academic Context',
-                        instructions: runConfig.Additional_Instructions
-                    }, 
-                    runConfig.Analysis_Level
+                const { text: bibContent, usage: bibUsage, cancelled, cacheStats, chunkReports } = await extractRelevantContent(
+                    runConfig.Core_Bibliography_Files,
+                    bibliographyScope(runConfig),
+                    runConfig.Analysis_Level,
+                    node.provider,
+                    runConfig,
+                    run.controller.signal,
+                    (message) => appendLog(nodeId, message)
                 );
                 
-                runConfig.Core_Bibliography = bibContent;
-                handleUpdateConfig(nodeId, { Core_Bibliography: bibContent });
-                
                 accumulatedTokens.promptTokens += bibUsage.promptTokens;
                 accumulatedTokens.responseTokens += bibUsage.responseTokens;
                 accumulatedTokens.totalTokens += bibUsage.totalTokens;
+                logCacheStats(nodeId, 'Bibliography', cacheStats);
+                const bibReports = chunkReports.map(r => ({ ...r, stage: 'Bibliography' as const }));
+                recordChunkReports(nodeId, bibReports);
+
+                // Partial extractions are discarded rather than cached on the node
+                if (cancelled) {
+                    markCancelled(nodeId, accumulatedTokens);
+                    return 'cancelled';
+                }
+                throwOnChunkFailures(bibReports, runConfig);
+
+                runConfig.Core_Bibliography = bibContent;
+                handleUpdateConfig(nodeId, { Core_Bibliography: bibContent });
             } else if (runConfig.Core_Bibliography && !node.config.Core_Bibliography) {
                 handleUpdateConfig(nodeId, { Core_Bibliography: runConfig.Core_Bibliography });
             }
 
             if ((node.type === TaskType.ACADEMIC_NOTE_GENERATION || node.type === TaskType.CHAPTER_INFUSION || node.type === TaskType.CONTEXT_PROCESSING) && runConfig.Source_B_Files && runConfig.Source_B_Files.length > 0) {
-                 let contextInfo = runConfig.Chapter_Title || 'Academic Content';
-                 
-                 if (node.type === TaskType.CHAPTER_INFUSION && runConfig.Source_A_File) {
-                     contextInfo = `Primary Source Content Preview (for Infusion context): ${runConfig.Source_A_File.slice(0, 500)}...`;
-                 } else if (node.type === TaskType.ACADEMIC_NOTE_GENERATION) {
-                     contextInfo = runConfig.Chapter_Title || 'Academic Note Generation';
-                 } else if (node.type === TaskType.CONTEXT_PROCESSING) {
-                     // Smart Context Extraction Logic: Uses inherited Title (from Project Node) to filter files
-                     const title = runConfig.Chapter_Title || '';
-                     const subtitle = runConfig.Chapter_Subtitle || '';
-                     const outline = runConfig.Chapter_Outline || '';
-                     
-                     if (title || subtitle) {
-                        contextInfo = `Context: ${title} ${subtitle}\n${outline ? `Outline Scope:\n${outline}` : ''}`;
-                     } else {
-                        contextInfo = 'Knowledge Base Extraction (General)';
-                     }
-                 }
-
-                 const { text: fileContent, usage: fileUsage } = await extractRelevantContent(
+                 const { text: fileContent, usage: fileUsage, cancelled, cacheStats, chunkReports } = await extractRelevantContent(
                     runConfig.Source_B_Files,
-                    { 
-                        contextText: contextInfo,
-                        instructions: runConfig.Additional_Instructions
-                    },
-                    runConfig.Analysis_Level
+                    sourceFileScope(node.type, runConfig),
+                    runConfig.Analysis_Level,
+                    node.provider,
+                    runConfig,
+                    run.controller.signal,
+                    (message) => appendLog(nodeId, message)
                  );
                  
-                 const existing = runConfig.Source_B_Content || '';
-                 runConfig.Source_B_Content = existing ? `${existing}\n\n${fileContent}` : fileContent;
-                 
                  accumulatedTokens.promptTokens += fileUsage.promptTokens;
                  accumulatedTokens.responseTokens += fileUsage.responseTokens;
                  accumulatedTokens.totalTokens += fileUsage.totalTokens;
+                 logCacheStats(nodeId, 'Source file', cacheStats);
+                 const fileReports = chunkReports.map(r => ({ ...r, stage: 'Source file' as const }));
+                 recordChunkReports(nodeId, fileReports);
+
+                 if (cancelled) {
+                     markCancelled(nodeId, accumulatedTokens);
+                     return 'cancelled';
+                 }
+                 throwOnChunkFailures(fileReports, runConfig);
+
+                 const existing = runConfig.Source_B_Content || '';
+                 runConfig.Source_B_Content = existing ? `${existing}\n\n${fileContent}` : fileContent;
+            }
+
+            const protocol = resolveProtocol(node.type, overrides);
+            if (protocol && !protocol.builtIn) {
+                appendLog(nodeId, `Using this project's ${protocol.name} (version ${protocol.version}).`);
+            }
+            const missingInputs = protocol ? findMissingInputs(protocol, runConfig) : [];
+            if (missingInputs.length > 0) {
+                appendLog(nodeId, `Warning: ${protocol!.name} expects ${missingInputs.join(', ')}, but ${missingInputs.length === 1 ? 'it is' : 'they are'} empty.`);
+            }
+
+            // Context Processing output depends only on its request, so an unchanged rerun keeps the completed output
+            // rather than paying for the same answer again
+            const outputKey = node.type === TaskType.CONTEXT_PROCESSING ? await computeGenerationRequestKey(runConfig, overrides, node.provider) : undefined;
+            if (outputKey && previousRun?.outputKey === outputKey && previousRun.workflowState === WorkflowState.COMPLETED) {
+                stopTimer(nodeId);
+                updateExecutionState(nodeId, prev => ({
+                    workflowState: WorkflowState.COMPLETED,
+                    tokenUsage: {
+                        promptTokens: prev.tokenUsage.promptTokens + accumulatedTokens.promptTokens,
+                        responseTokens: prev.tokenUsage.responseTokens + accumulatedTokens.responseTokens,
+                        totalTokens: prev.tokenUsage.totalTokens + accumulatedTokens.totalTokens
+                    },
+                    logs: [...prev.logs, `Library, settings and protocol are unchanged since the last run; kept its output (${accumulatedTokens.totalTokens.toLocaleString()} tokens used).`]
+                }));
+                setNodes(prev => prev.map(n => n.id === nodeId ? { ...n, status: 'completed' } : n));
+                return 'completed';
             }
 
-            let responsePayload: { userPrompt: string, response: any };
+            let responsePayload: { userPrompt: string, response: LlmResponse };
+            const { messageId, stream } = beginStream(nodeId, node.type, run.controller.signal);
+            streamedMessageId = messageId;
 
             if (node.type === TaskType.RED_TEAM_REVIEW) {
                 runConfig.Final_Draft_For_Review = runConfig.Draft_Chapter_Text; 
-                responsePayload = await executeReviewPhase(runConfig, nodeId);
+                responsePayload = await executeReviewPhase(runConfig, overrides, nodeId, node.provider, stream);
             } else if (node.type === TaskType.FINAL_SYNTHESIS) {
                 runConfig.Final_Draft_For_Review = runConfig.Draft_Chapter_Text; 
-                responsePayload = await executeSynthesisPhase(runConfig, nodeId);
+                responsePayload = await executeSynthesisPhase(runConfig, overrides, nodeId, node.provider, stream);
             } else {
-                responsePayload = await startGenerationPhase(runConfig, nodeId);
+                responsePayload = await startGenerationPhase(runConfig, overrides, nodeId, node.provider, stream);
             }
 
-            const duration = stopTimer(nodeId);
-            const responseText = (responsePayload.response.text as string | undefined) ?? '';
-            const { cleanedText, isAwaitingAction } = processResponseText(responseText);
-            const groundingMetadata = (responsePayload.response.candidates?.[0] as any)?.groundingMetadata;
-            
             // Add usage from the main call
-            const usageMeta = responsePayload.response.usageMetadata;
-            if (usageMeta) {
-                accumulatedTokens.promptTokens += usageMeta.promptTokenCount || 0;
-                accumulatedTokens.responseTokens += usageMeta.candidatesTokenCount || 0;
-                accumulatedTokens.totalTokens += usageMeta.totalTokenCount || 0;
+            const usage = responsePayload.response.usage;
+            accumulatedTokens.promptTokens += usage.promptTokens;
+            accumulatedTokens.responseTokens += usage.responseTokens;
+            accumulatedTokens.totalTokens += usage.totalTokens;
+
+            if (run.isCancelled()) {
+                abandonStream(nodeId, messageId);
+                markCancelled(nodeId, accumulatedTokens);
+                return 'cancelled';
             }
 
+            const duration = stopTimer(nodeId);
+            const wasStopped = !!responsePayload.response.stopped;
+            const processed = processResponseText(responsePayload.response.text, getStopPhrases(node.type, overrides));
+            const cleanedText = processed.cleanedText;
+            // A stopped stream waits for the user to decide how to continue from the partial output
+            const isAwaitingAction = processed.isAwaitingAction || wasStopped;
+
             updateExecutionState(nodeId, prev => {
-                 const newMessages = [...prev.messages];
+                 // Replace the streaming placeholder so the hidden prompt still precedes the answer
+                 const newMessages = prev.messages.filter(m => m.id !== messageId);
                  if (responsePayload.userPrompt) {
                      newMessages.push({ id: uuidv4(), role: 'user', content: responsePayload.userPrompt, isHidden: true });
                  }
                  newMessages.push({ 
-                     id: uuidv4(), 
+                     id: messageId, 
                      role: 'assistant', 
                      content: cleanedText, 
-                     groundingChunks: groundingMetadata?.groundingChunks,
+                     groundingChunks: responsePayload.response.groundingChunks,
+                     searchQueries: responsePayload.response.searchQueries,
                      duration,
                      protocol: node.type
                  });
@@ -593,8 +978,8 @@ ${contentToUse}
                  };
 
                  // --- AUTO-POPULATE ARTIFACTS FOR CITATION VERIFICATION ---
-                 let updatedSections = prev.documentSections;
-                 if (node.type === TaskType.CITATION_VERIFICATION && runConfig.Draft_Chapter_Text && prev.documentSections.length === 0) {
+                 let updatedSections = settleStreamedSection(prev.documentSections, messageId, wasStopped, cleanedText);
+                 if (node.type === TaskType.CITATION_VERIFICATION && runConfig.Draft_Chapter_Text && updatedSections.length === 0) {
                      const sectionId = uuidv4();
                      const versionId = uuidv4();
                      updatedSections = [{
@@ -617,14 +1002,24 @@ ${contentToUse}
                  return { 
                      messages: newMessages, 
                      workflowState: isAwaitingAction ? WorkflowState.AWAITING_USER_ACTION : WorkflowState.COMPLETED,
+                     outputKey: isAwaitingAction ? undefined : outputKey,
                      tokenUsage: updatedTokens,
-                     documentSections: updatedSections
+                     documentSections: updatedSections,
+                     streamingMessageId: undefined,
+                     logs: wasStopped ? [...prev.logs, 'Stopped by user: partial output kept as a version.'] : prev.logs
                  };
             });
             
             setNodes(prev => prev.map(n => n.id === nodeId ? { ...n, status: isAwaitingAction ? 'running' : 'completed' } : n));
+            return isAwaitingAction ? 'awaiting' : 'completed';
 
         } catch (error) {
+            if (streamedMessageId) abandonStream(nodeId, streamedMessageId);
+            // Aborted retries and extraction calls surface as AbortErrors
+            if (run.controller.signal.aborted) {
+                markCancelled(nodeId, accumulatedTokens);
+                return 'cancelled';
+            }
             stopTimer(nodeId);
             console.error(error);
             updateExecutionState(nodeId, prev => ({ 
@@ -632,6 +1027,70 @@ ${contentToUse}
                 logs: [...prev.logs, `Error: ${(error as Error).message}`]
             }));
             setNodes(prev => prev.map(n => n.id === nodeId ? { ...n, status: 'error' } : n));
+            return 'error';
+        } finally {
+            run.release();
+        }
+    };
+
+    // Resolves once the node's final execution state has been committed and is visible through the refs;
+    // rejects if it is still processing after the timeout, rather than letting a downstream node read stale state
+    const waitForCommittedState = (nodeId: string, timeoutMs = 10000): Promise<void> => {
+        return new Promise((resolve, reject) => {
+            const startedAt = Date.now();
+            const check = () => {
+                const state = executionStatesRef.current[nodeId];
+                const isSettled = !state || (state.workflowState !== WorkflowState.PROCESSING && state.workflowState !== WorkflowState.PRE_PROCESSING);
+                if (isSettled) {
+                    resolve();
+                } else if (Date.now() - startedAt > timeoutMs) {
+                    const node = nodesRef.current.find(n => n.id === nodeId);
+                    reject(new Error(`Upstream node "${node?.label || node?.type || nodeId}" did not finish saving its output within ${timeoutMs / 1000}s.`));
+                } else {
+                    setTimeout(check, 50);
+                }
+            };
+            check();
+        });
+    };
+
+    const handleRunWorkflow = async () => {
+        if (isWorkflowRunning || nodes.length === 0) return;
+        setIsWorkflowRunning(true);
+
+        // Connections between two deleted nodes have no node log to go to
+        const orphanedEdges: string[] = [];
+        try {
+            await runWorkflowGraph(nodes, edges, {
+                runNode: async (nodeId) => {
+                    // Upstream documentSections must be committed before resolveUpstreamContext reads them
+                    try {
+                        await Promise.all(getUpstreamIds(nodeId, edgesRef.current).map(id => waitForCommittedState(id)));
+                    } catch (error) {
+                        updateExecutionState(nodeId, prev => ({
+                            workflowState: WorkflowState.ERROR,
+                            logs: [...prev.logs, `Error: ${(error as Error).message}`]
+                        }));
+                        setNodes(prev => prev.map(n => n.id === nodeId ? { ...n, status: 'error' } : n));
+                        return 'error';
+                    }
+                    return handleRunNode(nodeId);
+                },
+                onSkip: (nodeId, reason) => {
+                    updateExecutionState(nodeId, prev => ({ logs: [...prev.logs, `Skipped: ${reason}`] }));
+                    setNodes(prev => prev.map(n => n.id === nodeId ? { ...n, status: 'skipped' } : n));
+                },
+                onDanglingEdge: (edge, description) => {
+                    const endpoints = [edge.source, edge.target].filter(id => nodes.some(n => n.id === id));
+                    endpoints.forEach(id => appendLog(id, `${description}.`));
+                    if (endpoints.length === 0) orphanedEdges.push(description);
+                }
+            }, workflowErrorPolicy);
+            if (orphanedEdges.length > 0) alert(`${orphanedEdges.join('.\n')}.`);
+        } catch (error) {
+            alert((error as Error).message);
+        } finally {
+            setIsWorkflowRunning(false);
         }
     };
 
@@ -642,38 +1101,62 @@ ${contentToUse}
         
         updateExecutionState(nodeId, prev => ({ 
             workflowState: WorkflowState.PROCESSING,
+            outputKey: undefined, // The conversation moves past the output the key describes
             messages: [...prev.messages, { id: uuidv4(), role: 'user', content: message }]
         }));
         setNodes(prev => prev.map(n => n.id === nodeId ? { ...n, status: 'running' } : n));
         startTimer(nodeId);
 
+        const run = beginRun(nodeId);
+        const { messageId, stream } = beginStream(nodeId, node?.type, run.controller.signal);
+
         try {
-            const response = await continueWorkflow(message, nodeId);
+            // The chat shows the command as typed; the model also receives the passages retrieved for it
+            const retrieval = node
+                ? withRetrievedPassages(resolveUpstreamContext(node, nodesRef.current, edgesRef.current, executionStatesRef.current).effectiveConfig, message)
+                : { message, passageCount: 0 };
+            if (retrieval.passageCount > 0) {
+                appendLog(nodeId, `Retrieved ${retrieval.passageCount} library passage${retrieval.passageCount === 1 ? '' : 's'} for "${retrieval.query!.split('\n')[0].slice(0, 80)}".`);
+            }
+            const response = await continueWorkflow(retrieval.message, nodeId, stream);
+            if (run.isCancelled()) {
+                abandonStream(nodeId, messageId);
+                markCancelled(nodeId, response.usage);
+                return;
+            }
             const duration = stopTimer(nodeId);
-            const responseText = response.text ?? '';
-            const { cleanedText, isAwaitingAction } = processResponseText(responseText);
-            
-            const usageMeta = response.usageMetadata;
-            const newTokens: TokenUsage = {
-                promptTokens: usageMeta?.promptTokenCount || 0,
-                responseTokens: usageMeta?.candidatesTokenCount || 0,
-                totalTokens: usageMeta?.totalTokenCount || 0
-            };
+            const wasStopped = !!response.stopped;
+            const processed = processResponseText(response.text, node ? getStopPhrases(node.type, protocolOverridesRef.current) : []);
+            const cleanedText = processed.cleanedText;
+            const isAwaitingAction = processed.isAwaitingAction || wasStopped;
+            const newTokens: TokenUsage = response.usage;
 
             updateExecutionState(nodeId, prev => ({
-                messages: [...prev.messages, { id: uuidv4(), role: 'assistant', content: cleanedText, duration, protocol: node?.type }],
+                messages: prev.messages.map(m => m.id === messageId
+                    ? { id: messageId, role: 'assistant', content: cleanedText, groundingChunks: response.groundingChunks, searchQueries: response.searchQueries, duration, protocol: node?.type }
+                    : m),
+                documentSections: settleStreamedSection(prev.documentSections, messageId, wasStopped, cleanedText),
+                streamingMessageId: undefined,
                 workflowState: isAwaitingAction ? WorkflowState.AWAITING_USER_ACTION : WorkflowState.COMPLETED,
                 tokenUsage: {
                     promptTokens: prev.tokenUsage.promptTokens + newTokens.promptTokens,
                     responseTokens: prev.tokenUsage.responseTokens + newTokens.responseTokens,
                     totalTokens: prev.tokenUsage.totalTokens + newTokens.totalTokens
-                }
+                },
+                logs: wasStopped ? [...prev.logs, 'Stopped by user: partial output kept as a version.'] : prev.logs
             }));
              setNodes(prev => prev.map(n => n.id === nodeId ? { ...n, status: isAwaitingAction ? 'running' : 'completed' } : n));
         } catch (error) {
+            abandonStream(nodeId, messageId);
+            if (run.controller.signal.aborted) {
+                markCancelled(nodeId, { promptTokens: 0, responseTokens: 0, totalTokens: 0 });
+                return;
+            }
             stopTimer(nodeId);
             updateExecutionState(nodeId, { workflowState: WorkflowState.ERROR });
             setNodes(prev => prev.map(n => n.id === nodeId ? { ...n, status: 'error' } : n));
+        } finally {
+            run.release();
         }
     };
 
@@ -694,6 +1177,26 @@ ${contentToUse}
         });
     }, [selectedNodeId]);
 
+    // Imported drafts become user-added sections, appended after anything already on the node
+    const handleImportDraft = useCallback((imported: DraftSection[]) => {
+        if (!selectedNodeId) return;
+        updateExecutionState(selectedNodeId, prev => ({
+            documentSections: [
+                ...prev.documentSections,
+                ...imported.map((section, i): ChapterSection => {
+                    const versionId = uuidv4();
+                    return {
+                        id: uuidv4(),
+                        order: prev.documentSections.length + i + 1,
+                        title: section.title,
+                        versions: [{ id: versionId, content: section.content, createdAt: new Date(), source: 'user-added' }],
+                        activeVersionId: versionId,
+                    };
+                }),
+            ]
+        }));
+    }, [selectedNodeId]);
+
     const handleUpdateSection = useCallback((sectionId: string, content: string) => {
         if (!selectedNodeId) return;
         updateExecutionState(selectedNodeId, prev => ({
@@ -723,30 +1226,103 @@ ${contentToUse}
     
     // --- Global Actions ---
     
-    const resetProject = useCallback(() => {
+    // Stops timers and clears selection before another project's state is swapped in
+    const clearWorkspace = () => {
         Object.keys(timerRefs.current).forEach(key => {
             if (timerRefs.current[key]) clearInterval(timerRefs.current[key]!);
         });
         timerRefs.current = {};
         startTimesRef.current = {};
-
-        setNodes([]);
-        setEdges([]);
-        setExecutionStates({});
         setSelectedNodeId(null);
-        localStorage.removeItem(LOCAL_STORAGE_KEY);
-    }, []);
+        setTemplateSelection([]);
+    };
 
-    const handleNewProject = () => {
-        if (nodes.length > 0) {
-            setShowNewProjectDialog(true);
-        } else {
-            resetProject();
+    // Runs hold refs into the current project's state, so the workspace cannot change under them
+    // Nodes paused for a user command keep status 'running' but hold no controller, so they do not count
+    const hasActiveRuns = () => isWorkflowRunning || Object.keys(runControllersRef.current).length > 0;
+
+    const ensureIdle = (): boolean => {
+        if (hasActiveRuns()) {
+            alert("Wait for running nodes to finish (or cancel them) before changing projects.");
+            return false;
+        }
+        return true;
+    };
+
+    // Writes the open project now rather than waiting for the debounced autosave
+    const flushActiveProject = async () => {
+        if (activeProjectId) await saveProject(activeProjectId, { nodes, edges, executionStates, protocolOverrides });
+    };
+
+    const handleSwitchProject = async (id: string) => {
+        if (!ensureIdle()) return;
+        try {
+            await flushActiveProject();
+            await openProject(id);
+        } catch (e) {
+            console.error(e);
+            alert(`Could not open project: ${(e as Error).message}`);
+        }
+    };
+
+    const handleNewProject = async () => {
+        if (!ensureIdle()) return;
+        try {
+            await flushActiveProject();
+            const meta = await createProject(DEFAULT_PROJECT_NAME);
+            setProjects(prev => [meta, ...prev]);
+            await openProject(meta.id);
+        } catch (e) {
+            console.error(e);
+            alert(`Could not create project: ${(e as Error).message}`);
+        }
+    };
+
+    const handleRenameProject = async (id: string) => {
+        const project = projects.find(p => p.id === id);
+        if (!project) return;
+        const name = prompt("Project name", project.name)?.trim();
+        if (!name || name === project.name) return;
+        try {
+            const updated = await renameProject(project, name);
+            setProjects(prev => prev.map(p => p.id === id ? updated : p));
+        } catch (e) {
+            alert(`Could not rename project: ${(e as Error).message}`);
+        }
+    };
+
+    const handleDuplicateProject = async (id: string) => {
+        const project = projects.find(p => p.id === id);
+        if (!project || !ensureIdle()) return;
+        try {
+            if (id === activeProjectId) await flushActiveProject();
+            const copy = await duplicateProject(project);
+            setProjects(prev => [copy, ...prev]);
+        } catch (e) {
+            alert(`Could not duplicate project: ${(e as Error).message}`);
+        }
+    };
+
+    const handleDeleteProject = async (id: string) => {
+        const project = projects.find(p => p.id === id);
+        if (!project || !ensureIdle()) return;
+        if (!confirm(`Delete "${project.name}"? Its nodes, chats and artifacts will be permanently removed.`)) return;
+        try {
+            await deleteProject(id);
+            let remaining = projects.filter(p => p.id !== id);
+            if (id === activeProjectId) {
+                if (remaining.length === 0) remaining = [await createProject(DEFAULT_PROJECT_NAME)];
+                await openProject(remaining[0].id);
+            }
+            setProjects(remaining);
+        } catch (e) {
+            alert(`Could not delete project: ${(e as Error).message}`);
         }
     };
 
     const handleSaveWorkflow = () => {
-        const data = JSON.stringify({ nodes, edges, executionStates }, null, 2);
+        const projectName = projects.find(p => p.id === activeProjectId)?.name;
+        const data = serializeWorkflowFile({ nodes, edges, executionStates, protocolOverrides }, projectName);
         const blob = new Blob([data], { type: 'application/json' });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
@@ -757,7 +1333,9 @@ ${contentToUse}
         document.body.removeChild(a);
     };
 
+    // Loaded files open as a new project so the current one is never overwritten
     const handleLoadWorkflow = () => {
+        if (!ensureIdle()) return;
         const input = document.createElement('input');
         input.type = 'file';
         input.accept = 'application/json';
@@ -765,20 +1343,26 @@ ${contentToUse}
             const file = (e.target as HTMLInputElement).files?.[0];
             if (!file) return;
             const reader = new FileReader();
-            reader.onload = (re) => {
+            reader.onload = async (re) => {
+                const result = parseWorkflowFile(re.target?.result as string);
+                if ('errors' in result) {
+                    const shown = result.errors.slice(0, MAX_REPORTED_FILE_ERRORS);
+                    const more = result.errors.length - shown.length;
+                    alert(`"${file.name}" could not be loaded:\n\n- ${shown.join('\n- ')}${more > 0 ? `\n...and ${more} more problem(s).` : ''}`);
+                    return;
+                }
                 try {
-                    const parsed = JSON.parse(re.target?.result as string);
-                    if (parsed.nodes) setNodes(parsed.nodes);
-                    if (parsed.edges) setEdges(parsed.edges);
-                    if (parsed.executionStates) {
-                        // Ensure TokenUsage compatibility for old saves
-                        Object.values(parsed.executionStates).forEach((state: any) => {
-                            if (!state.tokenUsage) state.tokenUsage = { promptTokens: 0, responseTokens: 0, totalTokens: 0 };
-                        });
-                        setExecutionStates(parsed.executionStates);
+                    const { header, ...content } = result.file;
+                    await flushActiveProject();
+                    const meta = await createProject(header.projectName || file.name.replace(/\.json$/i, ''), content);
+                    setProjects(prev => [meta, ...prev]);
+                    await openProject(meta.id);
+                    if (result.warnings.length > 0) {
+                        alert(`"${file.name}" was loaded with notes:\n\n- ${result.warnings.join('\n- ')}`);
                     }
                 } catch (err) {
-                    alert("Invalid workflow file");
+                    console.error(err);
+                    alert(`Could not import "${file.name}": ${(err as Error).message}`);
                 }
             };
             reader.readAsText(file);
@@ -789,7 +1373,16 @@ ${contentToUse}
     const selectedNode = nodes.find(n => n.id === selectedNodeId);
     const selectedExecutionState = selectedNodeId ? executionStates[selectedNodeId] : null;
     
-    const upstreamContext = selectedNode ? getUpstreamContext(selectedNode) : { effectiveConfig: {}, upstreamSources: {} };
+    // The configurator's estimate and library index key off this object, so it is rebuilt only when the
+    // selected node or a state it reads changes, not on every token another node streams
+    const readStatesKey = selectedNode
+        ? upstreamStateIds(selectedNode, nodes, edges).map(id => `${id}:${identityOf(executionStates[id])}`).join('|')
+        : '';
+    const upstreamContext = useMemo(
+        () => selectedNode ? resolveUpstreamContext(selectedNode, nodes, edges, executionStates) : { effectiveConfig: {}, upstreamSources: {} },
+        // executionStates is read only for the states named in readStatesKey
+        [selectedNode, nodes, edges, readStatesKey]
+    );
 
     // Dynamic classes based on resizing state to prevent lag
     const leftTransitionClass = isResizingLeft ? '' : 'transition-[width,opacity] duration-300 ease-in-out';
@@ -799,11 +1392,53 @@ ${contentToUse}
         <div className="flex flex-col h-screen w-screen bg-white dark:bg-slate-950 text-slate-900 dark:text-slate-100 overflow-hidden relative">
             {/* Top Menu Bar */}
             <div className="h-12 flex-shrink-0 border-b border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 flex items-center justify-between px-4 z-20 relative">
-                <div className="font-bold text-lg flex items-center gap-2">
-                    <span className="bg-indigo-600 text-white p-1 rounded">UA</span>
-                    <span>Universal Academic Workflow</span>
+                <div className="flex items-center gap-4">
+                    <div className="font-bold text-lg flex items-center gap-2">
+                        <span className="bg-indigo-600 text-white p-1 rounded">UA</span>
+                        <span>Universal Academic Workflow</span>
+                    </div>
+                    <span className="w-px h-5 bg-slate-200 dark:bg-slate-700"></span>
+                    <ProjectSwitcher
+                        projects={projects}
+                        activeProjectId={activeProjectId}
+                        disabled={hasActiveRuns()}
+                        onSwitch={handleSwitchProject}
+                        onCreate={handleNewProject}
+                        onRename={handleRenameProject}
+                        onDuplicate={handleDuplicateProject}
+                        onDelete={handleDeleteProject}
+                    />
                 </div>
                 <div className="flex items-center gap-3">
+                    <select
+                        value={workflowErrorPolicy}
+                        onChange={(e) => setWorkflowErrorPolicy(e.target.value as WorkflowErrorPolicy)}
+                        disabled={isWorkflowRunning}
+                        className="text-xs rounded border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 px-2 py-1"
+                        title="What happens to the rest of the graph when a node fails"
+                    >
+                        <option value="skip-downstream">On error: skip downstream</option>
+                        <option value="stop">On error: stop workflow</option>
+                    </select>
+                    <button
+                        onClick={handleRunWorkflow}
+                        disabled={isWorkflowRunning || nodes.length === 0}
+                        className="text-sm font-medium text-indigo-600 hover:text-indigo-500 disabled:text-slate-400 disabled:cursor-not-allowed flex items-center gap-1"
+                    >
+                        {isWorkflowRunning ? <SpinnerIcon className="w-4 h-4"/> : <SparklesIcon className="w-4 h-4"/>}
+                        {isWorkflowRunning ? 'Running Workflow...' : 'Run Workflow'}
+                    </button>
+                    <button
+                        onClick={handleSaveTemplate}
+                        className="text-sm font-medium hover:text-indigo-600"
+                        title="Save the shift-selected nodes (or the whole graph) as a reusable template"
+                    >
+                        {templateSelection.length > 0 ? `Save ${templateSelection.length} as Template` : 'Save as Template'}
+                    </button>
+                    <button onClick={() => setShowCacheManager(true)} className="text-sm font-medium hover:text-indigo-600" title="Inspect and purge cached extractions">Cache</button>
+                    <button onClick={() => setShowRateLimits(true)} className="text-sm font-medium hover:text-indigo-600" title="Requests and tokens per minute for each model">Rate Limits</button>
+                    <button onClick={() => setShowProtocols(true)} className="text-sm font-medium hover:text-indigo-600" title="View, fork and edit the protocol each task type runs in this project">Protocols</button>
+                    <span className="w-px h-5 bg-slate-200 dark:bg-slate-700"></span>
                     <button onClick={handleNewProject} className="text-sm font-medium hover:text-indigo-600">New</button>
                     <button onClick={handleSaveWorkflow} className="text-sm font-medium hover:text-indigo-600 flex items-center gap-1"><SaveIcon className="w-4 h-4"/> Save</button>
                     <button onClick={handleLoadWorkflow} className="text-sm font-medium hover:text-indigo-600 flex items-center gap-1"><UploadIcon className="w-4 h-4"/> Load</button>
@@ -825,6 +1460,12 @@ ${contentToUse}
                         onDeleteNode={handleDeleteNode}
                         onConnect={handleConnect}
                         onDeleteEdge={handleDeleteEdge}
+                        onCancelNode={handleCancelNode}
+                        templates={templates}
+                        templateSelection={templateSelection}
+                        onToggleTemplateSelection={handleToggleTemplateSelection}
+                        onInsertTemplate={handleInsertTemplate}
+                        onDeleteTemplate={handleDeleteTemplate}
                     />
                     {!selectedNode && nodes.length === 0 && (
                         <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
@@ -848,7 +1489,9 @@ ${contentToUse}
                                 node={selectedNode}
                                 upstreamSources={upstreamContext.upstreamSources}
                                 inheritedConfig={upstreamContext.effectiveConfig}
+                                protocolOverrides={protocolOverrides}
                                 onUpdateConfig={handleUpdateConfig}
+                                onUpdateProvider={handleUpdateProvider}
                                 onRunNode={handleRunNode}
                                 isNodeRunning={selectedNode.status === 'running'}
                             />
@@ -881,48 +1524,34 @@ ${contentToUse}
                                 nodeId={selectedNode.id}
                                 executionState={selectedExecutionState}
                                 onContinue={handleContinueNode}
+                                onStop={() => handleStopNode(selectedNode.id)}
+                                onCancel={() => handleCancelNode(selectedNode.id)}
+                                onRetryFailedChunks={() => handleRetryFailedChunks(selectedNode.id)}
                                 onAddSection={handleAddSection}
                                 onUpdateSection={handleUpdateSection}
                                 onDeleteSection={handleDeleteSection}
                                 onRevertVersion={handleRevertVersion}
+                                onImportDraft={handleImportDraft}
                             />
                         )}
                     </div>
                 </div>
             </div>
 
-            {/* New Project Confirmation Dialog */}
-            {showNewProjectDialog && (
-                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
-                    <div className="bg-white dark:bg-slate-900 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700 p-6 max-w-md w-full mx-4 transform transition-all animate-fadeIn">
-                        <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2">Start New Project?</h3>
-                        <p className="text-slate-600 dark:text-slate-400 mb-6">
-                            You have an active workflow. Do you want to save your current project before starting a new one?
-                            <br/><span className="text-xs text-red-500 mt-2 block font-medium">Unsaved changes will be lost if you choose "Don't Save".</span>
-                        </p>
-                        
-                        <div className="flex flex-col gap-3">
-                            <button 
-                                onClick={() => { handleSaveWorkflow(); resetProject(); setShowNewProjectDialog(false); }}
-                                className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg font-medium transition-colors focus:ring-2 focus:ring-indigo-500 focus:outline-none"
-                            >
-                                <SaveIcon className="w-4 h-4" /> Save Project & Start New
-                            </button>
-                            <button 
-                                onClick={() => { resetProject(); setShowNewProjectDialog(false); }}
-                                className="w-full px-4 py-2 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-700 text-red-600 dark:text-red-400 rounded-lg font-medium transition-colors focus:ring-2 focus:ring-red-500 focus:outline-none"
-                            >
-                                Don't Save (Clear Everything)
-                            </button>
-                             <button 
-                                onClick={() => setShowNewProjectDialog(false)}
-                                className="w-full px-4 py-2 text-slate-500 hover:text-slate-700 dark:hover:text-slate-300 text-sm font-medium transition-colors focus:outline-none"
-                            >
-                                Cancel
-                            </button>
-                        </div>
-                    </div>
-                </div>
+            {showCacheManager && <ExtractionCacheManager onClose={() => setShowCacheManager(false)} />}
+            {showRateLimits && <RateLimitSettings onClose={() => setShowRateLimits(false)} />}
+            {showProtocols && <ProtocolEditor overrides={protocolOverrides} onChange={setProtocolOverrides} onClose={() => setShowProtocols(false)} />}
+
+            {pendingTemplateInsert && (
+                <TemplateInsertDialog
+                    template={pendingTemplateInsert.template}
+                    placeholders={pendingTemplateInsert.placeholders}
+                    onConfirm={(values) => {
+                        insertTemplateNodes(pendingTemplateInsert.template, pendingTemplateInsert.position, values);
+                        setPendingTemplateInsert(null);
+                    }}
+                    onCancel={() => setPendingTemplateInsert(null)}
+                />
             )}
         </div>
     );
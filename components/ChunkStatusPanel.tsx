@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { ChunkReport } from '../types';
+
+interface ChunkStatusPanelProps {
+    reports: ChunkReport[];
+    isRunning: boolean;
+    onRetryFailedChunks: () => void;
+}
+
+const STATUS_STYLES: Record<ChunkReport['status'], string> = {
+    ok: 'text-green-600 dark:text-green-400',
+    retried: 'text-amber-600 dark:text-amber-400',
+    failed: 'text-red-600 dark:text-red-400',
+    blocked: 'text-red-600 dark:text-red-400',
+};
+
+const ChunkStatusPanel: React.FC<ChunkStatusPanelProps> = ({ reports, isRunning, onRetryFailedChunks }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const count = (status: ChunkReport['status']) => reports.filter(r => r.status === status).length;
+    const problems = reports.filter(r => r.status !== 'ok');
+    const hasFailures = problems.some(r => r.status === 'failed' || r.status === 'blocked');
+
+    return (
+        <div className="bg-slate-50 dark:bg-slate-900/50 border-b border-slate-200 dark:border-slate-800 px-4 py-2 text-xs text-slate-500 dark:text-slate-400">
+            <div className="flex items-center justify-between gap-2">
+                <button
+                    type="button"
+                    onClick={() => setIsOpen(prev => !prev)}
+                    disabled={problems.length === 0}
+                    className="flex gap-3 disabled:cursor-default"
+                    title={problems.length > 0 ? 'Show chunks that needed retries or are missing' : undefined}
+                >
+                    <span>Chunks: <span className="font-semibold text-slate-700 dark:text-slate-200">{reports.length}</span></span>
+                    {(['ok', 'retried', 'failed', 'blocked'] as const).map(status => (
+                        <span key={status} className={count(status) > 0 ? STATUS_STYLES[status] : ''}>{status} {count(status)}</span>
+                    ))}
+                </button>
+                {hasFailures && !isRunning && (
+                    <button
+                        type="button"
+                        onClick={onRetryFailedChunks}
+                        className="font-medium text-indigo-600 dark:text-indigo-400 hover:text-indigo-500"
+                    >
+                        Retry failed chunks
+                    </button>
+                )}
+            </div>
+            {isOpen && problems.length > 0 && (
+                <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+                    {problems.map((report, i) => (
+                        <li key={i} className="flex gap-2">
+                            <span className={`font-semibold uppercase flex-shrink-0 ${STATUS_STYLES[report.status]}`}>{report.status}</span>
+                            <span className="text-slate-600 dark:text-slate-300">
+                                {report.stage}: {report.label}{report.detail && <span className="text-slate-400"> ({report.detail})</span>}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default ChunkStatusPanel;
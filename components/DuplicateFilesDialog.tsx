@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { FileData } from '../types';
+import { DuplicateMatch, DuplicateResolution, suggestUniqueName } from '../utils/fileDeduplication';
+
+interface DuplicateFilesDialogProps {
+    matches: DuplicateMatch[];
+    takenNames: Set<string>; // Attached files plus incoming files without a match
+    onConfirm: (resolutions: Map<FileData, DuplicateResolution>) => void;
+    onCancel: () => void;
+}
+
+type Choice = DuplicateResolution['action'];
+
+const KIND_LABELS: Record<DuplicateMatch['kind'], string> = {
+    exact: 'Same content as',
+    near: 'Very similar to',
+    name: 'Same name as',
+};
+
+const DuplicateFilesDialog: React.FC<DuplicateFilesDialogProps> = ({ matches, takenNames, onConfirm, onCancel }) => {
+    // Exact copies are dropped by default; anything that differs is kept unless the user says otherwise
+    const [choices, setChoices] = useState<Choice[]>(() => matches.map(m => m.kind === 'exact' ? 'keep-existing' : 'keep-both'));
+    const [names, setNames] = useState<string[]>(() => {
+        const used = new Set<string>(takenNames);
+        return matches.map(m => {
+            const name = used.has(m.file.name) ? suggestUniqueName(m.file.name, used) : m.file.name;
+            used.add(name);
+            return name;
+        });
+    });
+
+    // A kept copy needs a name no attached file or other kept copy already uses
+    const isNameInvalid = (index: number) => {
+        if (choices[index] !== 'keep-both') return false;
+        const name = names[index].trim();
+        return !name || takenNames.has(name) || names.some((n, i) => i !== index && choices[i] === 'keep-both' && n.trim() === name);
+    };
+    const hasInvalidName = matches.some((_, i) => isNameInvalid(i));
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const resolutions = new Map<FileData, DuplicateResolution>();
+        matches.forEach((match, i) => {
+            const choice = choices[i];
+            resolutions.set(match.file, choice === 'keep-both' ? { action: 'keep-both', name: names[i].trim() } : { action: choice });
+        });
+        onConfirm(resolutions);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <form onSubmit={handleSubmit} className="bg-white dark:bg-slate-900 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700 p-6 max-w-2xl w-full mx-4 max-h-[85vh] flex flex-col animate-fadeIn">
+                <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-1">Possible Duplicates</h3>
+                <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+                    {matches.length === 1 ? 'One file matches' : `${matches.length} files match`} a file that is already attached. Duplicates are extracted and paid for twice.
+                </p>
+                <ul className="flex-1 overflow-y-auto space-y-3 mb-6">
+                    {matches.map((match, i) => (
+                        <li key={i} className="rounded-lg border border-slate-200 dark:border-slate-700 p-3 text-sm">
+                            <p className="font-medium text-slate-900 dark:text-slate-100 truncate">{match.file.name}</p>
+                            <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+                                {KIND_LABELS[match.kind]} <span className="font-medium">{match.existing.name}</span>
+                                {match.kind === 'near' && ` (~${Math.round(match.similarity * 100)}% shared text)`}
+                            </p>
+                            <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-slate-700 dark:text-slate-300">
+                                {(['keep-existing', 'replace', 'keep-both'] as Choice[]).map(choice => (
+                                    <label key={choice} className="flex items-center gap-1.5 cursor-pointer">
+                                        <input
+                                            type="radio"
+                                            name={`duplicate-${i}`}
+                                            checked={choices[i] === choice}
+                                            onChange={() => setChoices(prev => prev.map((c, j) => j === i ? choice : c))}
+                                            className="text-indigo-600 focus:ring-indigo-500"
+                                        />
+                                        {choice === 'keep-existing' ? 'Keep existing' : choice === 'replace' ? 'Use new file' : 'Keep both as'}
+                                    </label>
+                                ))}
+                                {choices[i] === 'keep-both' && (
+                                    <input
+                                        type="text"
+                                        value={names[i]}
+                                        onChange={(e) => setNames(prev => prev.map((n, j) => j === i ? e.target.value : n))}
+                                        className={`flex-1 min-w-[180px] rounded-md border-0 bg-slate-100 dark:bg-slate-800 py-1 px-2 text-slate-900 dark:text-white ring-1 ring-inset focus:ring-2 focus:ring-inset focus:ring-indigo-500 ${isNameInvalid(i) ? 'ring-red-500' : 'ring-slate-300 dark:ring-slate-700'}`}
+                                    />
+                                )}
+                            </div>
+                            {isNameInvalid(i) && <p className="mt-1 text-xs text-red-600 dark:text-red-500">Choose a name no other file uses.</p>}
+                        </li>
+                    ))}
+                </ul>
+                <div className="flex justify-end gap-3">
+                    <button type="button" onClick={onCancel} className="px-4 py-2 text-sm font-medium text-slate-500 hover:text-slate-700 dark:hover:text-slate-300">
+                        Discard Upload
+                    </button>
+                    <button type="submit" disabled={hasInvalidName} className="px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed">
+                        Add Files
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default DuplicateFilesDialog;
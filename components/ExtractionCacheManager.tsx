@@ -0,0 +1,134 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ExtractionCacheEntry } from '../types';
+import { listCachedExtractions, deleteCachedExtraction, clearExtractionCache } from '../services/extractionCache';
+import TrashIcon from './icons/TrashIcon';
+import XCircleIcon from './icons/XCircleIcon';
+import SpinnerIcon from './icons/SpinnerIcon';
+
+interface ExtractionCacheManagerProps {
+    onClose: () => void;
+}
+
+const formatChars = (count: number): string => {
+    if (count >= 1000) return `${(count / 1000).toFixed(1)}k`;
+    return count.toString();
+};
+
+const ExtractionCacheManager: React.FC<ExtractionCacheManagerProps> = ({ onClose }) => {
+    const [entries, setEntries] = useState<ExtractionCacheEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+    const loadEntries = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setEntries(await listCachedExtractions());
+        } catch (error) {
+            console.error(error);
+            alert(`Could not read the extraction cache: ${(error as Error).message}`);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadEntries();
+    }, [loadEntries]);
+
+    const handleDelete = async (key: string) => {
+        try {
+            await deleteCachedExtraction(key);
+            setEntries(prev => prev.filter(e => e.key !== key));
+        } catch (error) {
+            alert(`Could not delete cache entry: ${(error as Error).message}`);
+        }
+    };
+
+    const handlePurge = async () => {
+        if (!confirm('Delete every cached extraction? Future runs will call the model again for all chunks.')) return;
+        try {
+            await clearExtractionCache();
+            setEntries([]);
+        } catch (error) {
+            alert(`Could not purge the extraction cache: ${(error as Error).message}`);
+        }
+    };
+
+    const tokensSaved = entries.reduce((sum, e) => sum + e.usage.totalTokens * e.hits, 0);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="bg-white dark:bg-slate-900 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700 max-w-3xl w-full mx-4 max-h-[80vh] flex flex-col animate-fadeIn">
+                <div className="p-4 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center">
+                    <div>
+                        <h3 className="text-lg font-bold text-slate-900 dark:text-white">Extraction Cache</h3>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                            {entries.length} cached chunk{entries.length === 1 ? '' : 's'} · {tokensSaved.toLocaleString()} tokens saved by cache hits
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200" title="Close">
+                        <XCircleIcon className="w-6 h-6" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4">
+                    {isLoading ? (
+                        <div className="flex justify-center py-8 text-slate-400"><SpinnerIcon className="w-6 h-6" /></div>
+                    ) : entries.length === 0 ? (
+                        <p className="text-sm text-center text-slate-500 dark:text-slate-400 py-8">
+                            The cache is empty. Extracted chunks are stored here the first time a node processes a file.
+                        </p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {entries.map(entry => (
+                                <li key={entry.key} className="border border-slate-200 dark:border-slate-700 rounded-md">
+                                    <div className="flex items-center justify-between gap-3 p-2 text-xs">
+                                        <button
+                                            onClick={() => setExpandedKey(prev => prev === entry.key ? null : entry.key)}
+                                            className="flex-1 text-left min-w-0"
+                                        >
+                                            <p className="font-semibold text-sm text-slate-800 dark:text-slate-200 truncate">{entry.fileName}</p>
+                                            <p className="text-slate-500 dark:text-slate-400">
+                                                {entry.analysisLevel} · {entry.model} · {formatChars(entry.chunkLength)} chars · {entry.usage.totalTokens.toLocaleString()} tokens · {entry.hits} hit{entry.hits === 1 ? '' : 's'} · {new Date(entry.createdAt).toLocaleString()}
+                                            </p>
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(entry.key)}
+                                            className="p-1 text-slate-400 hover:text-red-500 flex-shrink-0"
+                                            title="Delete this entry"
+                                        >
+                                            <TrashIcon className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                    {expandedKey === entry.key && (
+                                        <pre className="border-t border-slate-200 dark:border-slate-700 p-2 text-xs whitespace-pre-wrap max-h-60 overflow-y-auto text-slate-700 dark:text-slate-300 bg-slate-50 dark:bg-slate-800/50">
+                                            {entry.text}
+                                        </pre>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                <div className="p-4 border-t border-slate-200 dark:border-slate-800 flex justify-between">
+                    <button
+                        onClick={loadEntries}
+                        className="px-3 py-1.5 text-sm font-medium text-slate-600 dark:text-slate-300 hover:text-indigo-600"
+                    >
+                        Refresh
+                    </button>
+                    <button
+                        onClick={handlePurge}
+                        disabled={entries.length === 0}
+                        className="px-3 py-1.5 text-sm font-semibold text-red-600 dark:text-red-400 border border-red-300 dark:border-red-800 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Purge All
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ExtractionCacheManager;
@@ -3,7 +3,18 @@ import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react'
 import { Config, FileData } from '../types';
 import UploadIcon from './icons/UploadIcon';
 import XCircleIcon from './icons/XCircleIcon';
-import { parseUploadedFiles } from '../utils/fileParsing';
+import PencilIcon from './icons/PencilIcon';
+import ParsedFileInspector from './ParsedFileInspector';
+import DuplicateFilesDialog from './DuplicateFilesDialog';
+import { parseUploadedFiles, ACCEPTED_FILE_EXTENSIONS, ACCEPTED_FILE_LABEL, ParseProgress, ParseLimits, getParseLimits, saveParseLimits } from '../utils/fileParsing';
+import { findDuplicateFiles, applyDuplicateResolutions, DuplicateMatch, DuplicateResolution } from '../utils/fileDeduplication';
+
+// An upload held back until the user decides what to do with its duplicates
+interface PendingUpload {
+    currentFiles: FileData[];
+    incoming: FileData[];
+    matches: DuplicateMatch[];
+}
 
 interface FileUploadProps {
     id: keyof Config;
@@ -22,6 +33,12 @@ const labelClass = "block text-sm font-medium leading-6 text-slate-800 dark:text
 const FileUpload: React.FC<FileUploadProps> = ({ id, label, onFileUploaded, onFilesUploaded, disabled, multiple = false, initialContent = '', virtualFileName, initialFiles }) => {
     const [userManagedFiles, setUserManagedFiles] = useState<FileData[]>([]);
     const [isParsing, setIsParsing] = useState(false);
+    const [parseProgress, setParseProgress] = useState<Record<string, ParseProgress>>({});
+    const [limits, setLimits] = useState<ParseLimits>(getParseLimits);
+    const [isEditingLimits, setIsEditingLimits] = useState(false);
+    const parseControllerRef = useRef<AbortController | null>(null);
+    const [inspectedFileName, setInspectedFileName] = useState<string | null>(null);
+    const [pendingUpload, setPendingUpload] = useState<PendingUpload | null>(null);
     const [isDragging, setIsDragging] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
@@ -69,6 +86,20 @@ const FileUpload: React.FC<FileUploadProps> = ({ id, label, onFileUploaded, onFi
         }
     };
 
+    const commitFiles = (updatedFiles: FileData[]) => {
+        if (!isControlled) {
+            setUserManagedFiles(updatedFiles);
+        }
+        callUploadCallbacks(updatedFiles);
+    };
+
+    const handleResolveDuplicates = (resolutions: Map<FileData, DuplicateResolution>) => {
+        if (!pendingUpload) return;
+        const { currentFiles, incoming, matches } = pendingUpload;
+        commitFiles(applyDuplicateResolutions(currentFiles, incoming, matches, resolutions));
+        setPendingUpload(null);
+    };
+
     const handleFiles = useCallback(async (files: FileList | null) => {
         if (!files || files.length === 0) return;
 
@@ -76,42 +107,68 @@ const FileUpload: React.FC<FileUploadProps> = ({ id, label, onFileUploaded, onFi
         setIsParsing(true);
 
         const currentFiles = isControlled ? (initialFiles || []) : userManagedFiles;
-        const currentUserFileNames = new Set(currentFiles.map(f => f.name));
-        
-        // Filter out duplicates before parsing to save resources, though parseUploadedFiles processes what's given.
-        // Actually, we pass the whole list to the parser, but we should probably filter first or handle duplicates after.
-        // Let's rely on the parser to parse valid files, then filter duplicates.
-        
-        const { parsedFiles, errors } = await parseUploadedFiles(files);
-        
-        const newUniqueFiles = parsedFiles.filter(f => !currentUserFileNames.has(f.name));
 
-        if (newUniqueFiles.length < parsedFiles.length) {
-             // Some were duplicates
-             // We could notify user, but usually silent ignore is fine or we can add to error log
-        }
+        const controller = new AbortController();
+        parseControllerRef.current = controller;
+        setParseProgress({});
+        const { parsedFiles, errors, cancelled } = await parseUploadedFiles(files, {
+            signal: controller.signal,
+            onProgress: (progress) => setParseProgress(prev => ({ ...prev, [progress.fileName]: progress })),
+        });
+        parseControllerRef.current = null;
+        setParseProgress({});
 
-        let updatedFiles: FileData[];
-        if (multiple) {
-            updatedFiles = [...currentFiles, ...newUniqueFiles];
-        } else {
-            updatedFiles = newUniqueFiles.length > 0 ? [newUniqueFiles[0]] : [];
-        }
-        
-        if (!isControlled) {
-            setUserManagedFiles(updatedFiles);
+        if (!multiple) {
+            // A single-file field simply swaps its file
+            if (parsedFiles.length > 0) commitFiles([parsedFiles[0]]);
+        } else if (parsedFiles.length > 0) {
+            // Names are not enough: the same paper often arrives as "download.pdf" and "Smith 2020.pdf"
+            const matches = await findDuplicateFiles(parsedFiles, currentFiles);
+            if (matches.length > 0) {
+                setPendingUpload({ currentFiles, incoming: parsedFiles, matches });
+            } else {
+                commitFiles([...currentFiles, ...parsedFiles]);
+            }
         }
-        
-        callUploadCallbacks(updatedFiles); 
 
         if (errors.length > 0) {
             setError(`Issues: ${errors.join(', ')}.`);
+        } else if (cancelled) {
+            setError(parsedFiles.length > 0 ? 'Parsing cancelled; files that had already finished were kept.' : 'Parsing cancelled.');
         }
         
         if(fileInputRef.current) fileInputRef.current.value = "";
         setIsParsing(false);
     }, [multiple, isControlled, initialFiles, userManagedFiles, onFileUploaded, onFilesUploaded]);
 
+    // Limits are a browser-wide preference, shared by every upload field
+    const handleSaveLimits = () => {
+        const next = { maxFileSizeMb: limits.maxFileSizeMb > 0 ? limits.maxFileSizeMb : 1, maxPages: limits.maxPages > 0 ? Math.floor(limits.maxPages) : 1 };
+        saveParseLimits(next);
+        setLimits(next);
+        setIsEditingLimits(false);
+    };
+
+    // Abandon an in-progress parse if the field goes away, e.g. when another node is selected
+    useEffect(() => () => parseControllerRef.current?.abort(), []);
+
+    // Writes an edited file back in place, through the same callbacks an upload uses
+    const handleSaveInspectedFile = (updated: FileData) => {
+        if (isControlled) {
+            callUploadCallbacks((initialFiles || []).map(f => f.name === updated.name ? updated : f));
+        } else if (userManagedFiles.length > 0) {
+            const updatedFiles = userManagedFiles.map(f => f.name === updated.name ? updated : f);
+            setUserManagedFiles(updatedFiles);
+            callUploadCallbacks(updatedFiles);
+        } else if (onFileUploaded) {
+            // Text that came from upstream rather than an upload
+            onFileUploaded(updated.content);
+        }
+        setInspectedFileName(null);
+    };
+
+    const inspectedFile = displayFiles.find(f => f.name === inspectedFileName);
+
     const onRemoveFile = useCallback((fileNameToRemove: string) => {
         if (isControlled) {
             const updatedFiles = (initialFiles || []).filter(f => f.name !== fileNameToRemove);
@@ -174,7 +231,26 @@ const FileUpload: React.FC<FileUploadProps> = ({ id, label, onFileUploaded, onFi
                  <div className="mt-2 space-y-2">
                     {displayFiles.map(file => (
                         <div key={file.name} className="flex items-center justify-between rounded-lg border border-slate-900/25 dark:border-slate-700 px-4 py-3 bg-white/5 dark:bg-slate-800/20">
-                            <p className="text-sm font-medium text-slate-900 dark:text-slate-200 truncate pr-2">{file.name}</p>
+                            <div className="flex items-center gap-2 min-w-0 pr-2">
+                                <p className="text-sm font-medium text-slate-900 dark:text-slate-200 truncate">{file.name}</p>
+                                {file.ocrPages && file.ocrPages.length > 0 && (
+                                    <span
+                                        className="flex-shrink-0 text-[10px] font-semibold uppercase px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300"
+                                        title={`Text recognized by OCR on page${file.ocrPages.length > 1 ? 's' : ''} ${file.ocrPages.join(', ')}; check quotes against the original`}
+                                    >
+                                        OCR · {file.ocrPages.length} p.
+                                    </span>
+                                )}
+                            </div>
+                            <button
+                                type="button"
+                                onClick={() => setInspectedFileName(file.name)}
+                                className="flex-shrink-0 mr-2 text-slate-500 hover:text-indigo-500"
+                                aria-label={`Inspect ${file.name}`}
+                                title="Inspect and correct the extracted text"
+                            >
+                                <PencilIcon className="h-4 w-4" />
+                            </button>
                             <button
                                 type="button"
                                 onClick={() => onRemoveFile(file.name)}
@@ -208,26 +284,88 @@ const FileUpload: React.FC<FileUploadProps> = ({ id, label, onFileUploaded, onFi
                                 onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); onBrowseClick(); }}}
                             >
                                 {hasFiles ? 'Upload more files' : 'Upload a file'}
-                                <input ref={fileInputRef} id={id} name={id} type="file" className="sr-only" onChange={onFileChange} accept=".pdf,.docx" disabled={disabled} multiple={multiple} />
+                                <input ref={fileInputRef} id={id} name={id} type="file" className="sr-only" onChange={onFileChange} accept={ACCEPTED_FILE_EXTENSIONS} disabled={disabled} multiple={multiple} />
                             </span>
                             <p className="pl-1">or drag and drop</p>
                         </div>
-                        <p className="text-xs leading-5 text-slate-600 dark:text-slate-500">PDF or DOCX</p>
+                        <p className="text-xs leading-5 text-slate-600 dark:text-slate-500">{ACCEPTED_FILE_LABEL}</p>
+                        {isEditingLimits ? (
+                            <div className="mt-2 flex items-center justify-center gap-2 text-xs text-slate-600 dark:text-slate-400">
+                                <label className="flex items-center gap-1">
+                                    Max MB
+                                    <input type="number" min="1" value={limits.maxFileSizeMb} onChange={(e) => setLimits(prev => ({ ...prev, maxFileSizeMb: Number(e.target.value) }))} className="w-16 rounded border-0 bg-slate-100 dark:bg-slate-800 py-0.5 px-1 ring-1 ring-inset ring-slate-300 dark:ring-slate-700" />
+                                </label>
+                                <label className="flex items-center gap-1">
+                                    Max pages
+                                    <input type="number" min="1" value={limits.maxPages} onChange={(e) => setLimits(prev => ({ ...prev, maxPages: Number(e.target.value) }))} className="w-16 rounded border-0 bg-slate-100 dark:bg-slate-800 py-0.5 px-1 ring-1 ring-inset ring-slate-300 dark:ring-slate-700" />
+                                </label>
+                                <button type="button" onClick={handleSaveLimits} className="font-semibold text-indigo-600 dark:text-indigo-400">Save</button>
+                            </div>
+                        ) : (
+                            <button type="button" onClick={() => setIsEditingLimits(true)} disabled={disabled} className="mt-1 text-xs text-slate-400 hover:text-indigo-500">
+                                Up to {limits.maxFileSizeMb} MB and {limits.maxPages.toLocaleString()} pages per file
+                            </button>
+                        )}
                     </div>
                 </div>
             )}
 
             {isParsing && (
-                <div className="mt-2 flex items-center justify-center rounded-lg border border-slate-900/25 dark:border-slate-700 px-6 py-10">
-                    <div className="flex items-center space-x-2 text-slate-500">
-                        <div className="w-2 h-2 bg-indigo-500 rounded-full animate-pulse"></div>
-                        <div className="w-2 h-2 bg-indigo-500 rounded-full animate-pulse [animation-delay:0.2s]"></div>
-                        <div className="w-2 h-2 bg-indigo-500 rounded-full animate-pulse [animation-delay:0.4s]"></div>
-                        <span className="text-sm">Parsing files...</span>
+                <div className="mt-2 rounded-lg border border-slate-900/25 dark:border-slate-700 px-4 py-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-2 text-slate-500">
+                            <div className="w-2 h-2 bg-indigo-500 rounded-full animate-pulse"></div>
+                            <div className="w-2 h-2 bg-indigo-500 rounded-full animate-pulse [animation-delay:0.2s]"></div>
+                            <div className="w-2 h-2 bg-indigo-500 rounded-full animate-pulse [animation-delay:0.4s]"></div>
+                            <span className="text-sm">Parsing files...</span>
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() => parseControllerRef.current?.abort()}
+                            className="text-xs font-medium text-slate-500 hover:text-red-500"
+                        >
+                            Cancel
+                        </button>
                     </div>
+                    {Object.values(parseProgress).map((progress: ParseProgress) => (
+                        <div key={progress.fileName}>
+                            <div className="flex justify-between gap-2 text-xs text-slate-500 dark:text-slate-400">
+                                <span className="truncate">{progress.fileName}</span>
+                                <span className="flex-shrink-0">
+                                    {progress.total === 0
+                                        ? 'Reading...'
+                                        : `${progress.stage === 'ocr' ? 'OCR' : 'Pages'} ${progress.done} / ${progress.total}`}
+                                </span>
+                            </div>
+                            <div className="mt-1 h-1 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+                                <div
+                                    className={`h-full transition-all ${progress.stage === 'ocr' ? 'bg-amber-500' : 'bg-indigo-500'}`}
+                                    style={{ width: progress.total > 0 ? `${Math.round((progress.done / progress.total) * 100)}%` : '0%' }}
+                                />
+                            </div>
+                        </div>
+                    ))}
                 </div>
             )}
 
+            {inspectedFile && (
+                <ParsedFileInspector
+                    file={inspectedFile}
+                    readOnly={disabled}
+                    onSave={handleSaveInspectedFile}
+                    onClose={() => setInspectedFileName(null)}
+                />
+            )}
+
+            {pendingUpload && (
+                <DuplicateFilesDialog
+                    matches={pendingUpload.matches}
+                    takenNames={new Set([...pendingUpload.currentFiles, ...pendingUpload.incoming.filter(f => !pendingUpload.matches.some(m => m.file === f))].map(f => f.name))}
+                    onConfirm={handleResolveDuplicates}
+                    onCancel={() => setPendingUpload(null)}
+                />
+            )}
+
             {error && (
                 <p className="mt-2 text-sm text-red-600 dark:text-red-500">{error}</p>
             )}
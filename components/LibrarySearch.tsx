@@ -0,0 +1,78 @@
+import React, { useMemo, useState } from 'react';
+import { LibrarySource, getLibraryIndex, searchLibrary, toTerm } from '../utils/libraryIndex';
+
+interface LibrarySearchProps {
+    sources: LibrarySource[];
+}
+
+const SNIPPET_CHARS = 600;
+
+// Marks the words that matched the query, compared as index terms so "theories" also marks "theory"
+const highlight = (text: string, queryTerms: Set<string>) =>
+    text.split(/([\p{L}\p{N}]+)/u).map((part, i) => {
+        const term = i % 2 === 1 ? toTerm(part) : null;
+        return term && queryTerms.has(term)
+            ? <mark key={i} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm">{part}</mark>
+            : part;
+    });
+
+const LibrarySearch: React.FC<LibrarySearchProps> = ({ sources }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [query, setQuery] = useState('');
+    const [expanded, setExpanded] = useState<number | null>(null);
+
+    // Built only once the panel is opened; large libraries take a moment to index
+    const index = useMemo(() => isOpen ? getLibraryIndex(sources) : null, [isOpen, sources]);
+    const hits = useMemo(() => index && query.trim() ? searchLibrary(index, query, 20) : [], [index, query]);
+    const queryTerms = useMemo(() => new Set((query.match(/[\p{L}\p{N}]+/gu) || []).map(toTerm).filter((t): t is string => !!t)), [query]);
+
+    return (
+        <div className="rounded-lg border border-slate-200 dark:border-slate-700">
+            <button
+                type="button"
+                onClick={() => setIsOpen(prev => !prev)}
+                className="w-full flex justify-between items-center px-3 py-2 text-sm font-medium text-slate-800 dark:text-slate-200"
+            >
+                <span>Search Library</span>
+                <span className="text-xs text-slate-400">{isOpen ? 'Hide' : `${sources.length} source${sources.length === 1 ? '' : 's'}`}</span>
+            </button>
+            {isOpen && index && (
+                <div className="px-3 pb-3">
+                    <input
+                        type="search"
+                        value={query}
+                        onChange={(e) => { setQuery(e.target.value); setExpanded(null); }}
+                        placeholder="Search passages, e.g. an outline heading"
+                        className="block w-full rounded-md border-0 bg-slate-100 dark:bg-slate-800/50 py-1.5 px-2 text-sm text-slate-900 dark:text-white ring-1 ring-inset ring-slate-300 dark:ring-slate-700 focus:ring-2 focus:ring-indigo-500"
+                    />
+                    <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                        {index.passages.length.toLocaleString()} passages indexed from {index.sourceCount} source{index.sourceCount === 1 ? '' : 's'}. Section requests retrieve from this index.
+                    </p>
+                    {query.trim() && hits.length === 0 && (
+                        <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">No passages match.</p>
+                    )}
+                    <ul className="mt-2 space-y-2 max-h-96 overflow-y-auto">
+                        {hits.map((hit, i) => (
+                            <li key={i} className="rounded-md border border-slate-200 dark:border-slate-700 p-2 text-xs">
+                                <div className="flex justify-between gap-2 mb-1">
+                                    <span className="font-semibold text-slate-700 dark:text-slate-300 truncate" title={hit.passage.label}>{hit.passage.label}</span>
+                                    <span className="font-mono text-slate-400 flex-shrink-0">{hit.score.toFixed(2)}</span>
+                                </div>
+                                <p className="whitespace-pre-wrap text-slate-600 dark:text-slate-400">
+                                    {highlight(expanded === i ? hit.passage.text : hit.passage.text.slice(0, SNIPPET_CHARS), queryTerms)}
+                                    {hit.passage.text.length > SNIPPET_CHARS && (
+                                        <button type="button" onClick={() => setExpanded(prev => prev === i ? null : i)} className="ml-1 text-indigo-600 dark:text-indigo-400 hover:underline">
+                                            {expanded === i ? 'less' : '… more'}
+                                        </button>
+                                    )}
+                                </p>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default LibrarySearch;
@@ -7,8 +7,11 @@ import HistoryIcon from './icons/HistoryIcon';
 import ClipboardIcon from './icons/ClipboardIcon';
 import CheckIcon from './icons/CheckIcon';
 import ChevronDownIcon from './icons/ChevronDownIcon';
+import UploadIcon from './icons/UploadIcon';
+import SpinnerIcon from './icons/SpinnerIcon';
 import { downloadDocx, downloadPdf } from '../services/exportService';
-import { processMarkdown, processRedTeamMarkdown } from '../utils/markdownUtils';
+import { processMarkdown, processRedTeamMarkdown, splitMarkdownIntoSections, DraftSection } from '../utils/markdownUtils';
+import { parseUploadedFiles, ACCEPTED_FILE_EXTENSIONS } from '../utils/fileParsing';
 
 const SimpleMarkdown: React.FC<{ text: string; protocol?: string; }> = React.memo(({ text, protocol }) => {
     const html = protocol === 'RED_TEAM_REVIEW' ? processRedTeamMarkdown(text, false) : processMarkdown(text, false);
@@ -39,16 +42,19 @@ interface LiveDocumentEditorProps {
     onAddSection: () => void;
     onAssembleDraft: () => void;
     onRevertToVersion: (sectionId: string, versionId: string) => void;
+    onImportDraft?: (sections: DraftSection[]) => void; // Adds an existing draft, split at its headings
     allowAssembly?: boolean;
 }
 
-const LiveDocumentEditor: React.FC<LiveDocumentEditorProps> = ({ sections, onUpdateSection, onDeleteSection, onAddSection, onAssembleDraft, onRevertToVersion, allowAssembly = true }) => {
+const LiveDocumentEditor: React.FC<LiveDocumentEditorProps> = ({ sections, onUpdateSection, onDeleteSection, onAddSection, onAssembleDraft, onRevertToVersion, onImportDraft, allowAssembly = true }) => {
     const [editingSectionId, setEditingSectionId] = useState<string | null>(null);
     const [editText, setEditText] = useState('');
     const [historySectionId, setHistorySectionId] = useState<string | null>(null);
     const [isMasterCopied, setIsMasterCopied] = useState(false);
     const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
     const exportMenuRef = useRef<HTMLDivElement>(null);
+    const [isImporting, setIsImporting] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
@@ -133,6 +139,22 @@ const LiveDocumentEditor: React.FC<LiveDocumentEditorProps> = ({ sections, onUpd
         setIsExportMenuOpen(false);
     };
 
+    const handleImportDraft = async (files: FileList | null) => {
+        if (!onImportDraft || !files || files.length === 0) return;
+        setIsImporting(true);
+        try {
+            const { parsedFiles, errors } = await parseUploadedFiles(files);
+            const imported = parsedFiles.flatMap(file => splitMarkdownIntoSections(file.content));
+            if (imported.length > 0) onImportDraft(imported);
+            if (errors.length > 0) alert(`Some files could not be imported: ${errors.join(', ')}.`);
+        } catch (err) {
+            console.error("Draft import error:", err);
+        } finally {
+            setIsImporting(false);
+            if (importInputRef.current) importInputRef.current.value = '';
+        }
+    };
+
     return (
         <div className="flex flex-col h-full bg-slate-50 dark:bg-slate-950 border-l border-slate-200 dark:border-slate-800">
             <div className="flex-shrink-0 p-4 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center">
@@ -169,6 +191,21 @@ const LiveDocumentEditor: React.FC<LiveDocumentEditorProps> = ({ sections, onUpd
                         </div>
                     )}
 
+                    {onImportDraft && (
+                        <>
+                            <input ref={importInputRef} type="file" className="hidden" accept={ACCEPTED_FILE_EXTENSIONS} onChange={(e) => handleImportDraft(e.target.files)} />
+                            <button
+                                onClick={() => importInputRef.current?.click()}
+                                disabled={isImporting}
+                                title="Import a draft and split it into sections at its headings"
+                                className="px-3 py-1.5 text-sm font-semibold text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-700 rounded-md hover:bg-slate-300 dark:hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5 transition-colors"
+                            >
+                                {isImporting ? <SpinnerIcon className="w-4 h-4" /> : <UploadIcon className="w-4 h-4" />}
+                                <span>Import Draft</span>
+                            </button>
+                        </>
+                    )}
+
                     <button
                         onClick={handleCopyAll}
                         disabled={sections.length === 0}
@@ -191,7 +228,7 @@ const LiveDocumentEditor: React.FC<LiveDocumentEditorProps> = ({ sections, onUpd
             <div className="flex-1 overflow-y-auto p-6 space-y-4">
                 {sections.length === 0 ? (
                     <div className="text-center text-slate-500 dark:text-slate-400 py-10">
-                        <p>Add generated sections from the Workflow panel to build your document here.</p>
+                        <p>Add generated sections from the Workflow panel to build your document here{onImportDraft ? ', or import an existing draft' : ''}.</p>
                     </div>
                 ) : (
                     sections.map(section => {
@@ -217,11 +254,18 @@ const LiveDocumentEditor: React.FC<LiveDocumentEditorProps> = ({ sections, onUpd
                                         </div>
                                     ) : (
                                         <>
+                                            {section.isPending ? (
+                                                <div className="mb-2 flex items-center gap-2 text-xs text-indigo-600 dark:text-indigo-400">
+                                                    <div className="w-2 h-2 bg-indigo-500 rounded-full animate-pulse"></div>
+                                                    <span>Streaming...</span>
+                                                </div>
+                                            ) : (
                                             <div className="absolute top-2 right-2 flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity bg-white dark:bg-slate-800 p-1 rounded-md z-10">
                                                 <button onClick={() => handleEdit(section)} className="p-1 text-slate-500 hover:text-indigo-500"><PencilIcon className="w-4 h-4" /></button>
                                                 <button onClick={() => toggleHistory(section.id)} className="p-1 text-slate-500 hover:text-indigo-500"><HistoryIcon className="w-4 h-4" /></button>
                                                 <button onClick={() => onDeleteSection(section.id)} className="p-1 text-slate-500 hover:text-red-500"><TrashIcon className="w-4 h-4" /></button>
                                             </div>
+                                            )}
                                             <SimpleMarkdown text={activeVersion.content} protocol={section.protocol} />
                                         </>
                                     )}
@@ -1,7 +1,7 @@
 
 // NodeCanvas component for the workflow editor
 import React, { useRef, useState, useEffect } from 'react';
-import { WorkflowNode, WorkflowEdge, TaskType, NodeExecutionState } from '../types';
+import { WorkflowNode, WorkflowEdge, TaskType, NodeExecutionState, WorkflowState, WorkflowTemplate } from '../types';
 import PlusCircleIcon from './icons/PlusCircleIcon';
 import TrashIcon from './icons/TrashIcon';
 
@@ -16,6 +16,12 @@ interface NodeCanvasProps {
     onDeleteNode: (id: string) => void;
     onConnect: (sourceId: string, targetId: string) => void;
     onDeleteEdge: (id: string) => void;
+    onCancelNode: (id: string) => void;
+    templates: WorkflowTemplate[];
+    templateSelection: string[]; // Nodes shift-clicked for "Save as Template"
+    onToggleTemplateSelection: (id: string) => void;
+    onInsertTemplate: (template: WorkflowTemplate, position: { x: number, y: number }) => void;
+    onDeleteTemplate: (id: string) => void;
 }
 
 const GRID_SIZE = 20;
@@ -54,7 +60,7 @@ const formatTokenCount = (count: number): string => {
     return count.toString();
 };
 
-const NodeCanvas: React.FC<NodeCanvasProps> = ({ nodes, edges, selectedNodeId, executionStates, onNodeSelect, onNodeMove, onAddNode, onDeleteNode, onConnect, onDeleteEdge }) => {
+const NodeCanvas: React.FC<NodeCanvasProps> = ({ nodes, edges, selectedNodeId, executionStates, onNodeSelect, onNodeMove, onAddNode, onDeleteNode, onConnect, onDeleteEdge, onCancelNode, templates, templateSelection, onToggleTemplateSelection, onInsertTemplate, onDeleteTemplate }) => {
     const canvasRef = useRef<HTMLDivElement>(null);
     const [draggingNodeId, setDraggingNodeId] = useState<string | null>(null);
     const [connectingNodeId, setConnectingNodeId] = useState<string | null>(null);
@@ -155,6 +161,10 @@ const NodeCanvas: React.FC<NodeCanvasProps> = ({ nodes, edges, selectedNodeId, e
 
     const handleNodeMouseDown = (e: React.MouseEvent, id: string) => {
         e.stopPropagation(); // Prevent canvas panning when dragging nodes
+        if (e.shiftKey) {
+            onToggleTemplateSelection(id);
+            return;
+        }
         onNodeSelect(id);
         setShowAddMenu(null);
         setEdgeMenu(null);
@@ -236,6 +246,13 @@ const NodeCanvas: React.FC<NodeCanvasProps> = ({ nodes, edges, selectedNodeId, e
         }
     };
 
+    const insertTemplate = (template: WorkflowTemplate) => {
+        if (showAddMenu) {
+            onInsertTemplate(template, showAddMenu);
+            setShowAddMenu(null);
+        }
+    };
+
     return (
         <div 
             ref={canvasRef}
@@ -336,6 +353,8 @@ const NodeCanvas: React.FC<NodeCanvasProps> = ({ nodes, edges, selectedNodeId, e
                 {nodes.map(node => {
                     const tokenUsage = executionStates[node.id]?.tokenUsage;
                     const totalTokens = tokenUsage?.totalTokens || 0;
+                    const workflowState = executionStates[node.id]?.workflowState;
+                    const isProcessing = workflowState === WorkflowState.PROCESSING || workflowState === WorkflowState.PRE_PROCESSING;
                     
                     const isInputConnected = edges.some(e => e.target === node.id);
                     const isOutputConnected = edges.some(e => e.source === node.id);
@@ -346,6 +365,7 @@ const NodeCanvas: React.FC<NodeCanvasProps> = ({ nodes, edges, selectedNodeId, e
                             onMouseDown={(e) => handleNodeMouseDown(e, node.id)}
                             className={`absolute w-[200px] bg-white dark:bg-slate-800 rounded-lg shadow-md border-2 transition-shadow group pointer-events-auto
                                 ${selectedNodeId === node.id ? 'border-indigo-500 shadow-xl z-20' : 'border-slate-200 dark:border-slate-700 z-10'}
+                                ${templateSelection.includes(node.id) ? 'ring-2 ring-amber-400 ring-offset-2 dark:ring-offset-slate-900' : ''}
                             `}
                             style={{ transform: `translate(${node.position.x}px, ${node.position.y}px)` }}
                         >
@@ -366,8 +386,20 @@ const NodeCanvas: React.FC<NodeCanvasProps> = ({ nodes, edges, selectedNodeId, e
                                 <div className="mt-2 flex justify-between items-center text-xs">
                                     <div className="text-slate-500 dark:text-slate-400">
                                         {node.status === 'running' && <span className="text-indigo-500 animate-pulse">Running...</span>}
+                                        {node.status === 'running' && isProcessing && (
+                                            <button
+                                                onMouseDown={(e) => e.stopPropagation()}
+                                                onClick={(e) => { e.stopPropagation(); onCancelNode(node.id); }}
+                                                className="ml-2 text-slate-400 hover:text-red-500 underline"
+                                                title="Cancel this run"
+                                            >
+                                                Cancel
+                                            </button>
+                                        )}
                                         {node.status === 'completed' && <span className="text-green-500">Completed</span>}
                                         {node.status === 'error' && <span className="text-red-500">Error</span>}
+                                        {node.status === 'cancelled' && <span className="text-amber-500">Cancelled</span>}
+                                        {node.status === 'skipped' && <span className="text-slate-400" title="Left out of the last workflow run; the node log says why">Skipped</span>}
                                         {node.status === 'idle' && <span>Ready</span>}
                                     </div>
                                     {totalTokens > 0 && (
@@ -406,7 +438,7 @@ const NodeCanvas: React.FC<NodeCanvasProps> = ({ nodes, edges, selectedNodeId, e
             {/* Context Menu for Adding Nodes */}
             {showAddMenu && (
                 <div 
-                    className="absolute bg-white dark:bg-slate-800 shadow-xl rounded-lg border border-slate-200 dark:border-slate-700 p-2 z-50 flex flex-col gap-1 w-48"
+                    className="absolute bg-white dark:bg-slate-800 shadow-xl rounded-lg border border-slate-200 dark:border-slate-700 p-2 z-50 flex flex-col gap-1 w-56 max-h-[70vh] overflow-y-auto"
                     style={{ 
                         left: showAddMenu.x * scale + pan.x, 
                         top: showAddMenu.y * scale + pan.y 
@@ -423,6 +455,32 @@ const NodeCanvas: React.FC<NodeCanvasProps> = ({ nodes, edges, selectedNodeId, e
                             {label}
                         </button>
                     ))}
+                    {templates.length > 0 && (
+                        <>
+                            <div className="text-xs font-semibold text-slate-500 px-2 pt-2 pb-1 uppercase border-t border-slate-200 dark:border-slate-700 mt-1">Templates</div>
+                            {templates.map(template => (
+                                <div key={template.id} className="group flex items-start gap-1 rounded hover:bg-indigo-50 dark:hover:bg-indigo-900/30">
+                                    <button
+                                        onClick={() => insertTemplate(template)}
+                                        className="flex-1 text-left px-2 py-1.5 text-sm text-slate-700 dark:text-slate-200"
+                                        title={template.description}
+                                    >
+                                        <span className="block">{template.name}</span>
+                                        <span className="block text-[10px] text-slate-400">{template.nodes.length} nodes{template.builtIn ? ' · built-in' : ''}</span>
+                                    </button>
+                                    {!template.builtIn && (
+                                        <button
+                                            onClick={() => onDeleteTemplate(template.id)}
+                                            className="p-1.5 text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                                            title="Delete template"
+                                        >
+                                            <TrashIcon className="w-3.5 h-3.5" />
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                        </>
+                    )}
                 </div>
             )}
 
@@ -453,6 +511,8 @@ const NodeCanvas: React.FC<NodeCanvasProps> = ({ nodes, edges, selectedNodeId, e
                     <span className="flex items-center gap-1"><span className="font-bold">Left-Drag</span> to Pan</span>
                     <span className="w-px bg-slate-200 dark:bg-slate-700"></span>
                     <span className="flex items-center gap-1"><span className="font-bold">Scroll</span> to Zoom</span>
+                    <span className="w-px bg-slate-200 dark:bg-slate-700"></span>
+                    <span className="flex items-center gap-1"><span className="font-bold">Shift-Click</span> to Select for Template</span>
                  </div>
             </div>
         </div>
@@ -1,20 +1,27 @@
 
 import React, { useMemo, useState, useRef, useEffect } from 'react';
-import { Config, TaskType, WorkflowNode, InputType, ResearchRequirement, AnalysisLevel, BookToChapterInputType, ChapterReconInputType, ChapterInfusionInputType, AcademicNoteInputType, ChapterGenInputType, OutlineInputType, ProjectInputType, CitationVerificationInputType } from '../types';
-import { TASK_TYPE_OPTIONS, INPUT_TYPE_OPTIONS, RESEARCH_REQUIREMENT_OPTIONS, CHAPTER_GEN_RESEARCH_OPTIONS, ANALYSIS_LEVEL_OPTIONS, OUTLINE_RESEARCH_OPTIONS } from '../constants';
+import { Config, TaskType, WorkflowNode, ProtocolDefinition, InputType, ResearchRequirement, AnalysisLevel, BookToChapterInputType, ChapterReconInputType, ChapterInfusionInputType, AcademicNoteInputType, ChapterGenInputType, OutlineInputType, ProjectInputType, CitationVerificationInputType, LlmProviderId, ProviderSettings } from '../types';
+import { TASK_TYPE_OPTIONS, INPUT_TYPE_OPTIONS, RESEARCH_REQUIREMENT_OPTIONS, CHAPTER_GEN_RESEARCH_OPTIONS, ANALYSIS_LEVEL_OPTIONS, OUTLINE_RESEARCH_OPTIONS, LLM_PROVIDER_OPTIONS, MODEL_SUGGESTIONS, EXTRACTION_CHUNKING, DEFAULT_MAX_CHUNK_FAILURE_PERCENT } from '../constants';
 import SparklesIcon from './icons/SparklesIcon';
 import FileUpload from './FileUpload';
 import SpinnerIcon from './icons/SpinnerIcon';
 import CheckIcon from './icons/CheckIcon';
 import PinIcon from './icons/PinIcon';
 import UploadIcon from './icons/UploadIcon';
-import { parseUploadedFiles } from '../utils/fileParsing';
+import { parseUploadedFiles, ACCEPTED_FILE_EXTENSIONS } from '../utils/fileParsing';
+import { librarySourcesFromConfig } from '../utils/libraryIndex';
+import TokenEstimatePanel from './TokenEstimatePanel';
+import ReferenceLibrary from './ReferenceLibrary';
+import LibrarySearch from './LibrarySearch';
+import { estimateTokens } from '../services/tokenEstimator';
 
 interface NodeConfiguratorProps {
   node: WorkflowNode;
   upstreamSources?: Record<string, string>; // Maps config key to source node name
   inheritedConfig?: Partial<Config>; // The config values inherited from upstream
+  protocolOverrides: ProtocolDefinition[]; // The project's protocols, for the token estimate
   onUpdateConfig: (nodeId: string, newConfig: Partial<Config>) => void;
+  onUpdateProvider: (nodeId: string, provider: ProviderSettings) => void;
   onRunNode: (nodeId: string) => void;
   isNodeRunning: boolean;
 }
@@ -58,8 +65,9 @@ const MemoizedTextArea = React.memo(({ id, name, value, onChange, placeholder, d
     </div>
 ));
 
-const NodeConfigurator: React.FC<NodeConfiguratorProps> = ({ node, upstreamSources = {}, inheritedConfig = {} as Partial<Config>, onUpdateConfig, onRunNode, isNodeRunning }) => {
+const NodeConfigurator: React.FC<NodeConfiguratorProps> = ({ node, upstreamSources = {}, inheritedConfig = {} as Partial<Config>, protocolOverrides, onUpdateConfig, onUpdateProvider, onRunNode, isNodeRunning }) => {
   const config = node.config;
+  const provider: ProviderSettings = node.provider || { id: LlmProviderId.GEMINI };
   const [isDraggingOutline, setIsDraggingOutline] = useState(false);
   const [isParsingOutline, setIsParsingOutline] = useState(false);
   const [isDraggingDraft, setIsDraggingDraft] = useState(false);
@@ -197,14 +205,14 @@ const NodeConfigurator: React.FC<NodeConfiguratorProps> = ({ node, upstreamSourc
         }
     }
     else if (task === TaskType.CHAPTER_GENERATION) {
-        fields.add('Chapter_Outline').add('Target_Word_Count').add('Research_Requirement');
+        fields.add('Chapter_Outline').add('Target_Word_Count').add('Research_Requirement').add('References');
         if (config.Input_Type === ChapterGenInputType.OUTLINE_AND_BIBLIOGRAPHY || hasInheritedBib) {
             fields.add('Core_Bibliography_Files');
             if (!hasInheritedBib) fields.add('Analysis_Level');
         }
     }
     else if (task === TaskType.CHAPTER_RECONSTRUCTION) {
-        fields.add('Source_A_File').add('Source_B_File').add('Target_Word_Count');
+        fields.add('Source_A_File').add('Source_B_File').add('Target_Word_Count').add('References');
     }
     else if (task === TaskType.CHAPTER_INFUSION) {
         fields.add('Source_A_File').add('Source_B_Files').add('Target_Word_Count').add('Analysis_Level');
@@ -223,7 +231,7 @@ const NodeConfigurator: React.FC<NodeConfiguratorProps> = ({ node, upstreamSourc
         if (!hasInheritedBib) fields.add('Analysis_Level');
     }
     else if (task === TaskType.CITATION_VERIFICATION) {
-        fields.add('Draft_Chapter_Text');
+        fields.add('Draft_Chapter_Text').add('References');
     }
     else if (task === TaskType.FINAL_SYNTHESIS) {
         fields.add('Draft_Chapter_Text').add('Red_Team_Review_Text').add('Core_Bibliography_Files');
@@ -234,6 +242,7 @@ const NodeConfigurator: React.FC<NodeConfiguratorProps> = ({ node, upstreamSourc
   }, [node.type, config.Input_Type, inheritedConfig.Core_Bibliography]);
 
   const hasInputTypeOption = INPUT_TYPE_OPTIONS[node.type as TaskType] !== undefined;
+  const usesExtraction = visibleFields.has('Core_Bibliography_Files') || visibleFields.has('Source_B_Files');
 
   // Determine if input method is locked by an upstream connection
   const isInputLocked = useMemo(() => {
@@ -299,11 +308,13 @@ const NodeConfigurator: React.FC<NodeConfiguratorProps> = ({ node, upstreamSourc
   }
   
   const isBibliographyInherited = !!inheritedConfig.Core_Bibliography;
+  const estimateConfig = useMemo(() => ({ ...config, ...inheritedConfig } as Config), [config, inheritedConfig]);
+  const librarySources = useMemo(() => librarySourcesFromConfig(estimateConfig), [estimateConfig]);
 
   const getContextSizeLabel = (text: string) => {
       const charCount = text.length;
       const kb = Math.round(charCount / 1024);
-      return `~${kb} KB`;
+      return `~${kb} KB, ~${estimateTokens(text).toLocaleString()} tokens`;
   };
 
   // Determine correct label and options for the Research dropdown
@@ -328,6 +339,122 @@ const NodeConfigurator: React.FC<NodeConfiguratorProps> = ({ node, upstreamSourc
 
       <div className="flex-1 overflow-y-auto p-4 space-y-6">
         <form className="space-y-6">
+            <div>
+                <label htmlFor="Provider" className={labelClass}>Model Provider</label>
+                <select
+                    id="Provider"
+                    className={commonInputClass}
+                    value={provider.id}
+                    onChange={(e) => onUpdateProvider(node.id, { ...provider, id: e.target.value as LlmProviderId })}
+                    disabled={isNodeRunning}
+                >
+                    {LLM_PROVIDER_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                </select>
+                {provider.id === LlmProviderId.OPENAI_COMPATIBLE && (
+                    <input
+                        type="text"
+                        aria-label="Provider Base URL"
+                        className={`${commonInputClass} mt-2`}
+                        placeholder="Base URL (default: https://api.openai.com/v1)"
+                        value={provider.baseUrl || ''}
+                        onChange={(e) => onUpdateProvider(node.id, { ...provider, baseUrl: e.target.value })}
+                        disabled={isNodeRunning}
+                    />
+                )}
+                {provider.id === LlmProviderId.OPENAI_COMPATIBLE && (
+                    <p className="text-xs text-slate-500 mt-1.5 leading-relaxed">
+                        Web search grounding is only available with Gemini.
+                    </p>
+                )}
+            </div>
+
+            <div>
+                <label htmlFor="Model_Id" className={labelClass}>Model</label>
+                <input
+                    type="text"
+                    id="Model_Id"
+                    name="Model_Id"
+                    list="model-suggestions"
+                    className={commonInputClass}
+                    placeholder={`Provider default (${MODEL_SUGGESTIONS[provider.id][0]})`}
+                    value={config.Model_Id || ''}
+                    onChange={handleInputChange}
+                    disabled={isNodeRunning}
+                />
+                {usesExtraction && (
+                    <input
+                        type="text"
+                        id="Extraction_Model_Id"
+                        name="Extraction_Model_Id"
+                        list="model-suggestions"
+                        aria-label="Extraction Model"
+                        className={`${commonInputClass} mt-2`}
+                        placeholder="Extraction model (provider default)"
+                        value={config.Extraction_Model_Id || ''}
+                        onChange={handleInputChange}
+                        disabled={isNodeRunning}
+                    />
+                )}
+                {usesExtraction && (
+                    <input
+                        type="number"
+                        step="100"
+                        min="0"
+                        id="Chunk_Overlap"
+                        name="Chunk_Overlap"
+                        aria-label="Chunk Overlap"
+                        className={`${commonInputClass} mt-2`}
+                        placeholder={`Chunk overlap in characters (default ${EXTRACTION_CHUNKING[config.Analysis_Level || AnalysisLevel.FOCUSED_BALANCE].overlapChars})`}
+                        value={config.Chunk_Overlap || ''}
+                        onChange={handleInputChange}
+                        disabled={isNodeRunning}
+                    />
+                )}
+                {usesExtraction && (
+                    <input
+                        type="number"
+                        step="1000"
+                        min="0"
+                        id="Knowledge_Base_Budget"
+                        name="Knowledge_Base_Budget"
+                        aria-label="Knowledge Base Budget"
+                        className={`${commonInputClass} mt-2`}
+                        placeholder="Knowledge base budget in tokens (blank keeps all notes)"
+                        value={config.Knowledge_Base_Budget || ''}
+                        onChange={handleInputChange}
+                        disabled={isNodeRunning}
+                    />
+                )}
+                {usesExtraction && (
+                    <input
+                        type="number"
+                        step="1"
+                        min="0"
+                        max="100"
+                        id="Max_Chunk_Failure_Percent"
+                        name="Max_Chunk_Failure_Percent"
+                        aria-label="Max Chunk Failure Percent"
+                        className={`${commonInputClass} mt-2`}
+                        placeholder={`Max failed chunks per file in % (default ${DEFAULT_MAX_CHUNK_FAILURE_PERCENT})`}
+                        value={config.Max_Chunk_Failure_Percent || ''}
+                        onChange={handleInputChange}
+                        disabled={isNodeRunning}
+                    />
+                )}
+                <datalist id="model-suggestions">
+                    {MODEL_SUGGESTIONS[provider.id].map(model => <option key={model} value={model} />)}
+                </datalist>
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                    <input type="number" step="0.05" min="0" max="2" name="Temperature" aria-label="Temperature" className={commonInputClass} placeholder="Temperature" value={config.Temperature || ''} onChange={handleInputChange} disabled={isNodeRunning} />
+                    <input type="number" step="0.05" min="0" max="1" name="Top_P" aria-label="Top-P" className={commonInputClass} placeholder="Top-P" value={config.Top_P || ''} onChange={handleInputChange} disabled={isNodeRunning} />
+                    <input type="number" step="256" min="1" name="Max_Output_Tokens" aria-label="Max Output Tokens" className={commonInputClass} placeholder="Max output tokens" value={config.Max_Output_Tokens || ''} onChange={handleInputChange} disabled={isNodeRunning} />
+                    <input type="number" step="512" min="0" name="Thinking_Budget" aria-label="Thinking Budget" className={commonInputClass} placeholder="Thinking budget" value={config.Thinking_Budget || ''} onChange={handleInputChange} disabled={isNodeRunning || provider.id !== LlmProviderId.GEMINI} />
+                </div>
+                <p className="text-xs text-slate-500 mt-1.5 leading-relaxed">
+                    Leave blank for model defaults. Lower temperature gives more consistent reviews; higher suits outlining.
+                </p>
+            </div>
+
             {/* Input Type Selector (If applicable) */}
             {/* Hidden for Outline Generation as it is context-driven by the workflow */}
             {/* Hidden for Context Processing as it directly receives data from input port */}
@@ -494,7 +621,7 @@ const NodeConfigurator: React.FC<NodeConfiguratorProps> = ({ node, upstreamSourc
                     )}
                     <FileUpload 
                         id="Source_B_Files" 
-                        label={node.type === TaskType.ACADEMIC_NOTE_GENERATION ? "Source Documents" : node.type === TaskType.CONTEXT_PROCESSING ? "Library Batch (PDF/DOCX)" : "Secondary Sources"} 
+                        label={node.type === TaskType.ACADEMIC_NOTE_GENERATION ? "Source Documents" : node.type === TaskType.CONTEXT_PROCESSING ? "Library Batch" : "Secondary Sources"} 
                         onFilesUploaded={(files) => onUpdateConfig(node.id, { Source_B_Files: files })} 
                         disabled={isNodeRunning} 
                         multiple 
@@ -526,6 +653,16 @@ const NodeConfigurator: React.FC<NodeConfiguratorProps> = ({ node, upstreamSourc
                  )
             )}
 
+            {visibleFields.has('References') && (
+                <ReferenceLibrary
+                    references={config.References?.length ? config.References : inheritedConfig.References || []}
+                    linkableFiles={config.Core_Bibliography_Files || []}
+                    onChange={(references) => onUpdateConfig(node.id, { References: references })}
+                    disabled={isNodeRunning}
+                    sourceName={config.References?.length ? undefined : upstreamSources['References']}
+                />
+            )}
+
             {/* Text Areas */}
             {visibleFields.has('Chapter_Outline') && (
                 isParsingOutline ? (
@@ -548,10 +685,10 @@ const NodeConfigurator: React.FC<NodeConfiguratorProps> = ({ node, upstreamSourc
                             onDragOver={handleOutlineDragOver}
                             onDragLeave={handleOutlineDragLeave}
                             isDragging={isDraggingOutline}
-                            placeholder="Paste outline or drag and drop a PDF/DOCX file directly here..." 
+                            placeholder="Paste outline or drag and drop a document file directly here..." 
                         />
                          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
-                            * Supports dragging & dropping PDF/DOCX files directly into the text area.
+                            * Supports dragging & dropping PDF, DOCX, EPUB, ODT, HTML, Markdown and TXT files directly into the text area.
                         </p>
                     </div>
                 )
@@ -577,14 +714,14 @@ const NodeConfigurator: React.FC<NodeConfiguratorProps> = ({ node, upstreamSourc
                         onDragOver={handleDraftDragOver}
                         onDragLeave={handleDraftDragLeave}
                         isDragging={isDraggingDraft}
-                        placeholder="Paste draft text here, or drag and drop a PDF/DOCX file..."
+                        placeholder="Paste draft text here, or drag and drop a document file..."
                     />
                     <div className="mt-2">
                         <input
                             type="file"
                             ref={draftFileInputRef}
                             className="hidden"
-                            accept=".pdf,.docx"
+                            accept={ACCEPTED_FILE_EXTENSIONS}
                             onChange={handleDraftBrowse}
                             multiple
                         />
@@ -595,7 +732,7 @@ const NodeConfigurator: React.FC<NodeConfiguratorProps> = ({ node, upstreamSourc
                             className="text-xs flex items-center gap-1 text-indigo-600 dark:text-indigo-400 hover:text-indigo-500 font-medium transition-colors"
                         >
                             <UploadIcon className="w-3 h-3" />
-                            Upload PDF/DOCX
+                            Upload File
                         </button>
                     </div>
                 </div>
@@ -631,6 +768,14 @@ const NodeConfigurator: React.FC<NodeConfiguratorProps> = ({ node, upstreamSourc
       </div>
 
       <div className="p-4 border-t border-slate-200 dark:border-slate-800">
+        {librarySources.length > 0 && <LibrarySearch sources={librarySources} />}
+        <TokenEstimatePanel
+            node={node}
+            effectiveConfig={estimateConfig}
+            protocolOverrides={protocolOverrides}
+            disabled={isNodeRunning}
+            onUpdateBudget={(budget) => onUpdateConfig(node.id, { Token_Budget: budget })}
+        />
         <button
             type="button"
             onClick={() => onRunNode(node.id)}
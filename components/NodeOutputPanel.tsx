@@ -4,26 +4,36 @@
 import React, { useState } from 'react';
 import WorkflowDisplay from './WorkflowDisplay';
 import LiveDocumentEditor from './LiveDocumentEditor';
-import { NodeExecutionState } from '../types';
+import ChunkStatusPanel from './ChunkStatusPanel';
+import { NodeExecutionState, WorkflowState } from '../types';
+import { DraftSection } from '../utils/markdownUtils';
 
 interface NodeOutputPanelProps {
     nodeId: string;
     executionState: NodeExecutionState;
     onContinue: (message: string) => void;
+    onStop: () => void;
+    onCancel: () => void;
+    onRetryFailedChunks: () => void;
     onAddSection: (messageId: string, content: string) => void;
     onUpdateSection: (sectionId: string, content: string) => void;
     onDeleteSection: (sectionId: string) => void;
     onRevertVersion: (sectionId: string, versionId: string) => void;
+    onImportDraft: (sections: DraftSection[]) => void;
 }
 
 const NodeOutputPanel: React.FC<NodeOutputPanelProps> = ({ 
     nodeId, 
     executionState, 
     onContinue, 
+    onStop,
+    onCancel,
+    onRetryFailedChunks,
     onAddSection, 
     onUpdateSection, 
     onDeleteSection,
-    onRevertVersion
+    onRevertVersion,
+    onImportDraft
 }) => {
     const [activeTab, setActiveTab] = useState<'process' | 'artifact'>('process');
 
@@ -68,6 +78,14 @@ const NodeOutputPanel: React.FC<NodeOutputPanelProps> = ({
                 </div>
             )}
 
+            {executionState.chunkReports && executionState.chunkReports.length > 0 && (
+                <ChunkStatusPanel
+                    reports={executionState.chunkReports}
+                    isRunning={executionState.workflowState === WorkflowState.PROCESSING || executionState.workflowState === WorkflowState.PRE_PROCESSING}
+                    onRetryFailedChunks={onRetryFailedChunks}
+                />
+            )}
+
             <div className="flex-1 overflow-hidden relative">
                 {activeTab === 'process' && (
                     <div className="absolute inset-0">
@@ -81,6 +99,9 @@ const NodeOutputPanel: React.FC<NodeOutputPanelProps> = ({
                             documentSections={executionState.documentSections}
                             elapsedTime={executionState.elapsedTime}
                             logs={executionState.logs}
+                            streamingMessageId={executionState.streamingMessageId}
+                            onStop={onStop}
+                            onCancel={onCancel}
                         />
                     </div>
                 )}
@@ -93,6 +114,7 @@ const NodeOutputPanel: React.FC<NodeOutputPanelProps> = ({
                             onAddSection={() => {}} // Manual add handled within editor if needed, or we expose it
                             onAssembleDraft={() => {}} // Assembly is implicit in next node connection
                             onRevertToVersion={onRevertVersion}
+                            onImportDraft={onImportDraft}
                             allowAssembly={false} // Disable the button, logic is node-flow based
                         />
                     </div>
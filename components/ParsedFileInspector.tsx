@@ -0,0 +1,119 @@
+import React, { useState, useMemo, useDeferredValue } from 'react';
+import { FileData } from '../types';
+import { getTextStats, removePageRanges } from '../utils/textInspection';
+import { formatPageMarker } from '../utils/fileParsing';
+import XCircleIcon from './icons/XCircleIcon';
+
+interface ParsedFileInspectorProps {
+    file: FileData;
+    readOnly?: boolean;
+    onSave: (file: FileData) => void;
+    onClose: () => void;
+}
+
+const ParsedFileInspector: React.FC<ParsedFileInspectorProps> = ({ file, readOnly = false, onSave, onClose }) => {
+    const [draft, setDraft] = useState(file.content);
+    const [pageSpec, setPageSpec] = useState('');
+    const [notice, setNotice] = useState<string | null>(null);
+
+    // Stats over a multi-megabyte book lag behind typing rather than blocking it
+    const deferredDraft = useDeferredValue(draft);
+    const stats = useMemo(() => getTextStats(deferredDraft), [deferredDraft]);
+    const isDirty = draft !== file.content;
+
+    const handleRemovePages = () => {
+        const { text, removed, notFound } = removePageRanges(draft, pageSpec);
+        setDraft(text);
+        const parts: string[] = [];
+        if (removed.length > 0) parts.push(`Removed ${removed.length} page${removed.length > 1 ? 's' : ''} (${removed[0]}${removed.length > 1 ? ` to ${removed[removed.length - 1]}` : ''}).`);
+        if (notFound.length > 0) parts.push(`No page labelled ${notFound.join(', ')}.`);
+        setNotice(parts.join(' ') || 'Nothing to remove.');
+        if (removed.length > 0) setPageSpec('');
+    };
+
+    const handleClose = () => {
+        if (isDirty && !confirm('Discard your changes to this file?')) return;
+        onClose();
+    };
+
+    // Page labels that came from OCR may no longer exist once pages are cut
+    const handleSave = () => {
+        const { ocrPages, ...rest } = file;
+        const remainingOcr = ocrPages?.filter(label => draft.includes(formatPageMarker(label)));
+        onSave(remainingOcr && remainingOcr.length > 0 ? { ...rest, content: draft, ocrPages: remainingOcr } : { ...rest, content: draft });
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="bg-white dark:bg-slate-900 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700 max-w-4xl w-full mx-4 h-[85vh] flex flex-col animate-fadeIn">
+                <div className="p-4 border-b border-slate-200 dark:border-slate-800 flex justify-between items-start gap-4">
+                    <div className="min-w-0">
+                        <h3 className="text-lg font-bold text-slate-900 dark:text-white truncate">{file.name}</h3>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                            {stats.characters.toLocaleString()} characters · {stats.words.toLocaleString()} words
+                            {stats.pages > 0 && <> · {stats.pages.toLocaleString()} pages</>}
+                            {' · '}Language: {stats.language}
+                            {file.ocrPages && file.ocrPages.length > 0 && <> · <span className="text-amber-600 dark:text-amber-400">{file.ocrPages.length} OCR page{file.ocrPages.length > 1 ? 's' : ''}</span></>}
+                        </p>
+                    </div>
+                    <button onClick={handleClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200" title="Close">
+                        <XCircleIcon className="w-6 h-6" />
+                    </button>
+                </div>
+
+                {!readOnly && stats.pages > 0 && (
+                    <div className="px-4 py-2 border-b border-slate-200 dark:border-slate-800 flex flex-wrap items-center gap-2 text-sm">
+                        <label htmlFor="exclude-pages" className="text-slate-600 dark:text-slate-300">Exclude pages</label>
+                        <input
+                            id="exclude-pages"
+                            type="text"
+                            value={pageSpec}
+                            onChange={(e) => { setPageSpec(e.target.value); setNotice(null); }}
+                            onKeyDown={(e) => { if (e.key === 'Enter' && pageSpec.trim()) handleRemovePages(); }}
+                            placeholder="e.g. i-xiv, 301-320"
+                            className="flex-1 min-w-[160px] rounded-md border-0 bg-slate-100 dark:bg-slate-800 py-1 px-2 text-slate-900 dark:text-white ring-1 ring-inset ring-slate-300 dark:ring-slate-700 focus:ring-2 focus:ring-inset focus:ring-indigo-500"
+                        />
+                        <button
+                            type="button"
+                            onClick={handleRemovePages}
+                            disabled={!pageSpec.trim()}
+                            className="px-3 py-1 text-xs font-semibold text-indigo-600 dark:text-indigo-400 border border-indigo-200 dark:border-indigo-800 rounded-md hover:bg-indigo-50 dark:hover:bg-indigo-900/30 disabled:opacity-50"
+                        >
+                            Remove
+                        </button>
+                        {notice && <p className="w-full text-xs text-slate-500 dark:text-slate-400">{notice}</p>}
+                    </div>
+                )}
+
+                <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    readOnly={readOnly}
+                    spellCheck={false}
+                    className="flex-1 w-full p-4 font-mono text-xs leading-relaxed bg-slate-50 dark:bg-slate-950 text-slate-800 dark:text-slate-200 border-0 resize-none focus:ring-0"
+                />
+
+                <div className="p-4 border-t border-slate-200 dark:border-slate-800 flex justify-between items-center">
+                    <p className="text-xs text-slate-400">Page markers like [[Page 12]] let the model cite pages; keep them when editing.</p>
+                    <div className="flex gap-3">
+                        <button type="button" onClick={handleClose} className="px-4 py-2 text-sm font-medium text-slate-500 hover:text-slate-700 dark:hover:text-slate-300">
+                            {readOnly ? 'Close' : 'Cancel'}
+                        </button>
+                        {!readOnly && (
+                            <button
+                                type="button"
+                                onClick={handleSave}
+                                disabled={!isDirty || !draft.trim()}
+                                className="px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Save Changes
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ParsedFileInspector;
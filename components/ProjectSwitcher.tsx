@@ -0,0 +1,101 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ProjectMeta } from '../types';
+import ChevronDownIcon from './icons/ChevronDownIcon';
+import PencilIcon from './icons/PencilIcon';
+import ClipboardIcon from './icons/ClipboardIcon';
+import TrashIcon from './icons/TrashIcon';
+import PlusCircleIcon from './icons/PlusCircleIcon';
+
+interface ProjectSwitcherProps {
+    projects: ProjectMeta[];
+    activeProjectId: string | null;
+    disabled?: boolean; // Switching is blocked while nodes are running
+    onSwitch: (id: string) => void;
+    onCreate: () => void;
+    onRename: (id: string) => void;
+    onDuplicate: (id: string) => void;
+    onDelete: (id: string) => void;
+}
+
+const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({ projects, activeProjectId, disabled = false, onSwitch, onCreate, onRename, onDuplicate, onDelete }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const activeProject = projects.find(p => p.id === activeProjectId);
+
+    // Menu actions close the dropdown first so prompt/confirm dialogs are not drawn over it
+    const runAndClose = (action: () => void) => (e: React.MouseEvent) => {
+        e.stopPropagation();
+        setIsOpen(false);
+        action();
+    };
+
+    return (
+        <div className="relative" ref={menuRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex items-center gap-1 px-2 py-1 text-sm font-medium rounded-md hover:bg-slate-100 dark:hover:bg-slate-800 max-w-[240px]"
+                title="Switch project"
+            >
+                <span className="truncate">{activeProject?.name || 'No project'}</span>
+                <ChevronDownIcon className="w-4 h-4 flex-shrink-0" />
+            </button>
+            {isOpen && (
+                <div className="absolute left-0 mt-2 w-80 bg-white dark:bg-slate-800 rounded-md shadow-lg ring-1 ring-black ring-opacity-5 z-30 border border-slate-200 dark:border-slate-700">
+                    {disabled && (
+                        <p className="px-4 py-2 text-xs text-amber-600 dark:text-amber-400 border-b border-slate-200 dark:border-slate-700">
+                            Projects cannot be switched while nodes are running.
+                        </p>
+                    )}
+                    <ul className="py-1 max-h-80 overflow-y-auto">
+                        {projects.map(project => (
+                            <li
+                                key={project.id}
+                                className={`group flex items-center justify-between gap-2 px-4 py-2 text-sm ${project.id === activeProjectId ? 'bg-indigo-50 dark:bg-indigo-900/30' : 'hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+                            >
+                                <button
+                                    onClick={runAndClose(() => onSwitch(project.id))}
+                                    disabled={disabled || project.id === activeProjectId}
+                                    className="flex-1 min-w-0 text-left disabled:cursor-default"
+                                >
+                                    <p className={`truncate ${project.id === activeProjectId ? 'font-semibold text-indigo-700 dark:text-indigo-300' : 'text-slate-700 dark:text-slate-200'}`}>{project.name}</p>
+                                    <p className="text-xs text-slate-400">Edited {new Date(project.updatedAt).toLocaleString()}</p>
+                                </button>
+                                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                    <button onClick={runAndClose(() => onRename(project.id))} className="p-1 text-slate-500 hover:text-indigo-500" title="Rename">
+                                        <PencilIcon className="w-4 h-4" />
+                                    </button>
+                                    <button onClick={runAndClose(() => onDuplicate(project.id))} disabled={disabled} className="p-1 text-slate-500 hover:text-indigo-500 disabled:opacity-40" title="Duplicate">
+                                        <ClipboardIcon className="w-4 h-4" />
+                                    </button>
+                                    <button onClick={runAndClose(() => onDelete(project.id))} disabled={disabled} className="p-1 text-slate-500 hover:text-red-500 disabled:opacity-40" title="Delete">
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                    <button
+                        onClick={runAndClose(onCreate)}
+                        disabled={disabled}
+                        className="w-full flex items-center gap-2 px-4 py-2 text-sm font-medium text-indigo-600 dark:text-indigo-400 border-t border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <PlusCircleIcon className="w-4 h-4" /> New Project
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ProjectSwitcher;
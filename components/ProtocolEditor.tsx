@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { Config, ProtocolDefinition, TaskType } from '../types';
+import { BUILT_IN_PROTOCOLS } from '../constants';
+import { forkProtocol } from '../services/protocolRegistry';
+import { diffLines } from '../utils/lineDiff';
+import XCircleIcon from './icons/XCircleIcon';
+
+interface ProtocolEditorProps {
+    overrides: ProtocolDefinition[];
+    onChange: (overrides: ProtocolDefinition[]) => void;
+    onClose: () => void;
+}
+
+const inputClass = "w-full rounded-md border-0 bg-white dark:bg-slate-800 py-1 px-2 text-sm text-slate-900 dark:text-slate-100 ring-1 ring-inset ring-slate-300 dark:ring-slate-700 focus:ring-2 focus:ring-indigo-600";
+
+const DIFF_STYLES = {
+    same: 'text-slate-500 dark:text-slate-400',
+    added: 'bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-300',
+    removed: 'bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-300 line-through',
+};
+
+const splitList = (text: string, separator: RegExp) => text.split(separator).map(item => item.trim()).filter(Boolean);
+
+const ProtocolEditor: React.FC<ProtocolEditorProps> = ({ overrides, onChange, onClose }) => {
+    const [selected, setSelected] = useState<TaskType>(BUILT_IN_PROTOCOLS[0].taskType);
+    const [draft, setDraft] = useState<ProtocolDefinition | null>(null);
+    const [showDiff, setShowDiff] = useState(false);
+
+    const builtIn = BUILT_IN_PROTOCOLS.find(p => p.taskType === selected)!;
+    const override = overrides.find(p => p.taskType === selected);
+    const shown = draft || override || builtIn;
+    const isDirty = !!draft && JSON.stringify(draft) !== JSON.stringify(override);
+
+    const select = (taskType: TaskType) => {
+        if (isDirty && !confirm('Discard unsaved changes to this protocol?')) return;
+        setSelected(taskType);
+        setDraft(null);
+        setShowDiff(false);
+    };
+
+    // Forking only starts a draft; the project keeps the built-in until the draft is saved
+    const handleFork = () => setDraft(override ? { ...override } : forkProtocol(builtIn));
+
+    const handleSave = () => {
+        if (!draft) return;
+        const saved = { ...draft, version: override ? override.version + 1 : draft.version, updatedAt: Date.now() };
+        onChange([...overrides.filter(p => p.taskType !== selected), saved]);
+        setDraft(null);
+    };
+
+    const handleRevert = () => {
+        if (!confirm(`Remove this project's version of ${builtIn.name} and use the built-in protocol again?`)) return;
+        onChange(overrides.filter(p => p.taskType !== selected));
+        setDraft(null);
+    };
+
+    const handleClose = () => {
+        if (isDirty && !confirm('Discard unsaved changes to this protocol?')) return;
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="bg-white dark:bg-slate-900 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700 max-w-5xl w-full mx-4 h-[85vh] flex flex-col animate-fadeIn">
+                <div className="p-4 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center">
+                    <div>
+                        <h3 className="text-lg font-bold text-slate-900 dark:text-white">Protocols</h3>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                            Each task type runs one protocol. Fork a built-in to change it for this project only.
+                        </p>
+                    </div>
+                    <button onClick={handleClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200" title="Close">
+                        <XCircleIcon className="w-6 h-6" />
+                    </button>
+                </div>
+
+                <div className="flex-1 flex min-h-0">
+                    <ul className="w-64 flex-shrink-0 border-r border-slate-200 dark:border-slate-800 overflow-y-auto py-2">
+                        {BUILT_IN_PROTOCOLS.map(protocol => {
+                            const projectVersion = overrides.find(p => p.taskType === protocol.taskType);
+                            return (
+                                <li key={protocol.taskType}>
+                                    <button
+                                        onClick={() => select(protocol.taskType)}
+                                        className={`w-full text-left px-4 py-2 text-sm ${protocol.taskType === selected ? 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300' : 'text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800'}`}
+                                    >
+                                        <span className="block truncate">{(projectVersion || protocol).name}</span>
+                                        <span className="text-xs text-slate-400">
+                                            {projectVersion ? `Project version ${projectVersion.version}` : `Built-in version ${protocol.version}`}
+                                        </span>
+                                    </button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+
+                    <div className="flex-1 flex flex-col min-w-0 p-4 gap-3 overflow-y-auto">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                                {override
+                                    ? `This project's version ${override.version}, forked from built-in version ${override.basedOn ?? '?'}.`
+                                    : draft ? 'New fork: save it to use it in this project.' : `Built-in version ${builtIn.version}, used by this project.`}
+                                {override && override.basedOn !== undefined && override.basedOn < builtIn.version && (
+                                    <span className="ml-1 text-amber-600 dark:text-amber-400">The built-in has changed since (now version {builtIn.version}).</span>
+                                )}
+                            </p>
+                            <div className="flex gap-2">
+                                {(override || draft) && (
+                                    <button onClick={() => setShowDiff(prev => !prev)} className="px-3 py-1.5 text-sm font-medium text-slate-600 dark:text-slate-300 hover:text-indigo-600">
+                                        {showDiff ? 'Hide diff' : 'Diff with built-in'}
+                                    </button>
+                                )}
+                                {override && (
+                                    <button onClick={handleRevert} className="px-3 py-1.5 text-sm font-medium text-red-600 dark:text-red-400 hover:text-red-500">
+                                        Revert to built-in
+                                    </button>
+                                )}
+                                {!draft && (
+                                    <button onClick={handleFork} className="px-3 py-1.5 text-sm font-semibold text-white bg-indigo-600 rounded-md hover:bg-indigo-500">
+                                        {override ? 'Edit' : 'Fork for this project'}
+                                    </button>
+                                )}
+                                {draft && (
+                                    <>
+                                        <button onClick={() => setDraft(null)} className="px-3 py-1.5 text-sm font-medium text-slate-600 dark:text-slate-300 hover:text-indigo-600">
+                                            Cancel
+                                        </button>
+                                        <button onClick={handleSave} disabled={!draft.name.trim() || !draft.body.trim()} className="px-3 py-1.5 text-sm font-semibold text-white bg-indigo-600 rounded-md hover:bg-indigo-500 disabled:opacity-50">
+                                            Save
+                                        </button>
+                                    </>
+                                )}
+                            </div>
+                        </div>
+
+                        {draft ? (
+                            <>
+                                <input aria-label="Protocol name" className={inputClass} value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+                                <div className="grid grid-cols-2 gap-3">
+                                    <label className="text-xs text-slate-500 dark:text-slate-400">
+                                        Stop phrases (one per line)
+                                        <textarea rows={3} className={`${inputClass} mt-1 font-mono`} value={draft.stopPhrases.join('\n')} onChange={(e) => setDraft({ ...draft, stopPhrases: splitList(e.target.value, /\n/) })} />
+                                    </label>
+                                    <label className="text-xs text-slate-500 dark:text-slate-400">
+                                        Required inputs (config fields, comma separated)
+                                        <textarea rows={3} className={`${inputClass} mt-1 font-mono`} value={draft.requiredInputs.join(', ')} onChange={(e) => setDraft({ ...draft, requiredInputs: splitList(e.target.value, /[,\n]/) as (keyof Config)[] })} />
+                                    </label>
+                                </div>
+                            </>
+                        ) : (
+                            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+                                <dt className="font-semibold text-slate-500 dark:text-slate-400">Stop phrases</dt>
+                                <dd className="text-slate-700 dark:text-slate-300">{shown.stopPhrases.length ? shown.stopPhrases.map(p => `"${p}"`).join(', ') : 'None'}</dd>
+                                <dt className="font-semibold text-slate-500 dark:text-slate-400">Required inputs</dt>
+                                <dd className="font-mono text-slate-700 dark:text-slate-300">{shown.requiredInputs.length ? shown.requiredInputs.join(', ') : 'None'}</dd>
+                            </dl>
+                        )}
+
+                        {showDiff ? (
+                            <pre className="flex-1 min-h-[16rem] overflow-auto rounded-md border border-slate-200 dark:border-slate-700 p-2 text-xs font-mono whitespace-pre-wrap">
+                                {diffLines(builtIn.body.trim(), shown.body.trim()).map((line, i) => (
+                                    <div key={i} className={DIFF_STYLES[line.type]}>{line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text || ' '}</div>
+                                ))}
+                            </pre>
+                        ) : draft ? (
+                            <textarea
+                                aria-label="Protocol body"
+                                className={`${inputClass} flex-1 min-h-[16rem] font-mono text-xs leading-relaxed`}
+                                value={draft.body}
+                                onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                                spellCheck={false}
+                            />
+                        ) : (
+                            <pre className="flex-1 min-h-[16rem] overflow-auto rounded-md bg-slate-50 dark:bg-slate-800/50 p-3 text-xs font-mono whitespace-pre-wrap text-slate-700 dark:text-slate-300">
+                                {shown.body.trim()}
+                            </pre>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ProtocolEditor;
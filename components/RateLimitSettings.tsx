@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { MODEL_SUGGESTIONS } from '../constants';
+import { RateLimit, getRateLimitSettings, saveRateLimitSettings } from '../services/requestScheduler';
+import XCircleIcon from './icons/XCircleIcon';
+import TrashIcon from './icons/TrashIcon';
+
+interface RateLimitSettingsProps {
+    onClose: () => void;
+}
+
+interface ModelRow extends RateLimit {
+    model: string;
+}
+
+const inputClass = "w-full rounded-md border-0 bg-white dark:bg-slate-800 py-1 px-2 text-sm text-slate-900 dark:text-slate-100 ring-1 ring-inset ring-slate-300 dark:ring-slate-700 focus:ring-2 focus:ring-indigo-600";
+
+const ALL_MODELS = Array.from(new Set(Object.values(MODEL_SUGGESTIONS).flat()));
+
+const LimitInputs: React.FC<{ limit: RateLimit; onChange: (limit: RateLimit) => void }> = ({ limit, onChange }) => (
+    <>
+        <input type="number" min="0" aria-label="Requests per minute" className={inputClass} placeholder="No limit" value={limit.requestsPerMinute || ''} onChange={(e) => onChange({ ...limit, requestsPerMinute: Math.max(0, Number(e.target.value) || 0) })} />
+        <input type="number" min="0" step="1000" aria-label="Tokens per minute" className={inputClass} placeholder="No limit" value={limit.tokensPerMinute || ''} onChange={(e) => onChange({ ...limit, tokensPerMinute: Math.max(0, Number(e.target.value) || 0) })} />
+        <input type="number" min="1" aria-label="Concurrent requests" className={inputClass} value={limit.maxConcurrent} onChange={(e) => onChange({ ...limit, maxConcurrent: Math.max(1, Number(e.target.value) || 1) })} />
+    </>
+);
+
+const RateLimitSettings: React.FC<RateLimitSettingsProps> = ({ onClose }) => {
+    const [initial] = useState(getRateLimitSettings);
+    const [defaults, setDefaults] = useState<RateLimit>(initial.defaults);
+    const [rows, setRows] = useState<ModelRow[]>(() => Object.keys(initial.models).map(model => ({ model, ...initial.models[model] })));
+
+    const updateRow = (index: number, row: ModelRow) => setRows(prev => prev.map((r, i) => i === index ? row : r));
+
+    const handleSave = () => {
+        const models: Record<string, RateLimit> = {};
+        rows.forEach(row => {
+            if (row.model.trim()) models[row.model.trim()] = { requestsPerMinute: row.requestsPerMinute, tokensPerMinute: row.tokensPerMinute, maxConcurrent: row.maxConcurrent };
+        });
+        saveRateLimitSettings({ defaults, models });
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="bg-white dark:bg-slate-900 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700 max-w-2xl w-full mx-4 max-h-[80vh] flex flex-col animate-fadeIn">
+                <div className="p-4 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center">
+                    <div>
+                        <h3 className="text-lg font-bold text-slate-900 dark:text-white">Rate Limits</h3>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                            Requests to each model are queued across all nodes and files so these limits are never exceeded.
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200" title="Close">
+                        <XCircleIcon className="w-6 h-6" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4">
+                    <div className="grid grid-cols-[2fr_1fr_1fr_1fr_auto] gap-2 items-center text-xs">
+                        <span className="font-semibold text-slate-500 dark:text-slate-400">Model</span>
+                        <span className="font-semibold text-slate-500 dark:text-slate-400">Requests/min</span>
+                        <span className="font-semibold text-slate-500 dark:text-slate-400">Tokens/min</span>
+                        <span className="font-semibold text-slate-500 dark:text-slate-400">Concurrent</span>
+                        <span className="w-4"></span>
+
+                        <span className="text-sm text-slate-700 dark:text-slate-300">All other models</span>
+                        <LimitInputs limit={defaults} onChange={setDefaults} />
+                        <span className="w-4"></span>
+
+                        {rows.map((row, index) => (
+                            <React.Fragment key={index}>
+                                <input
+                                    type="text"
+                                    list="rate-limit-models"
+                                    aria-label="Model"
+                                    className={inputClass}
+                                    placeholder="Model id"
+                                    value={row.model}
+                                    onChange={(e) => updateRow(index, { ...row, model: e.target.value })}
+                                />
+                                <LimitInputs limit={row} onChange={(limit) => updateRow(index, { ...row, ...limit })} />
+                                <button onClick={() => setRows(prev => prev.filter((_, i) => i !== index))} className="text-slate-400 hover:text-red-500" title="Remove this model">
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </React.Fragment>
+                        ))}
+                    </div>
+                    <datalist id="rate-limit-models">
+                        {ALL_MODELS.map(model => <option key={model} value={model} />)}
+                    </datalist>
+                    <button
+                        onClick={() => setRows(prev => [...prev, { model: '', ...defaults }])}
+                        className="mt-3 text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:text-indigo-500"
+                    >
+                        + Add model
+                    </button>
+                    <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 leading-relaxed">
+                        Leave requests and tokens blank for no limit. A 429 from the provider pauses that model's queue for as long as the server asks.
+                    </p>
+                </div>
+
+                <div className="p-4 border-t border-slate-200 dark:border-slate-800 flex justify-end gap-2">
+                    <button onClick={onClose} className="px-3 py-1.5 text-sm font-medium text-slate-600 dark:text-slate-300 hover:text-indigo-600">
+                        Cancel
+                    </button>
+                    <button onClick={handleSave} className="px-3 py-1.5 text-sm font-semibold text-white bg-indigo-600 rounded-md hover:bg-indigo-500">
+                        Save
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RateLimitSettings;
@@ -0,0 +1,132 @@
+import React, { useRef, useState } from 'react';
+import { FileData, Reference } from '../types';
+import { REFERENCE_FILE_EXTENSIONS, parseReferenceFile, mergeReferences, suggestFileLink } from '../utils/referenceImport';
+import UploadIcon from './icons/UploadIcon';
+import XCircleIcon from './icons/XCircleIcon';
+import PinIcon from './icons/PinIcon';
+
+interface ReferenceLibraryProps {
+    references: Reference[];
+    linkableFiles: FileData[]; // Uploaded full texts an entry can point to
+    onChange: (references: Reference[]) => void;
+    disabled: boolean;
+    sourceName?: string; // Set when the list is inherited from an upstream node
+}
+
+const labelClass = "block text-sm font-medium leading-6 text-slate-800 dark:text-slate-200";
+
+const shortCitation = (ref: Reference) => {
+    const names = ref.authors.length > 0 ? ref.authors : ref.editors || [];
+    const first = names[0]?.split(',')[0] || 'Anon.';
+    return `${first}${names.length > 2 ? ' et al.' : names.length === 2 ? ` & ${names[1].split(',')[0]}` : ''} (${ref.year || 'n.d.'})`;
+};
+
+const ReferenceLibrary: React.FC<ReferenceLibraryProps> = ({ references, linkableFiles, onChange, disabled, sourceName }) => {
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const isInherited = !!sourceName;
+    const fileNames = new Set(linkableFiles.map(f => f.name));
+
+    const handleImport = async (files: FileList | null) => {
+        if (!files || files.length === 0) return;
+        setError(null);
+        // An import on an inheriting node starts its own list rather than editing the upstream one
+        let updated = isInherited ? [] : references;
+        const errors: string[] = [];
+        for (const file of Array.from(files)) {
+            try {
+                updated = mergeReferences(updated, parseReferenceFile(file.name, await file.text()));
+            } catch (e) {
+                console.error(`Error importing references from ${file.name}:`, e);
+                errors.push(e instanceof Error ? e.message : `Could not read ${file.name}.`);
+            }
+        }
+        onChange(updated.map(ref => ref.fileName ? ref : { ...ref, fileName: suggestFileLink(ref, linkableFiles) }));
+        if (errors.length > 0) setError(errors.join(' '));
+        if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+
+    const handleLinkFile = (id: string, fileName: string) => {
+        onChange(references.map(ref => ref.id === id ? { ...ref, fileName: fileName || undefined } : ref));
+    };
+
+    const handleRemove = (id: string) => {
+        onChange(references.filter(ref => ref.id !== id));
+    };
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-2">
+                <span className={labelClass}>Reference Library</span>
+                {isInherited && (
+                    <span className="inline-flex items-center gap-1 rounded-md bg-blue-50 dark:bg-blue-900/30 px-2 py-1 text-xs font-medium text-blue-700 dark:text-blue-300 ring-1 ring-inset ring-blue-700/10 dark:ring-blue-400/20">
+                        <PinIcon className="w-3 h-3" />
+                        Linked from {sourceName}
+                    </span>
+                )}
+            </div>
+
+            {references.length > 0 && (
+                <ul className="max-h-64 overflow-y-auto rounded-lg border border-slate-900/25 dark:border-slate-700 divide-y divide-slate-200 dark:divide-slate-800 mb-2">
+                    {references.map(ref => (
+                        <li key={ref.id} className="px-3 py-2 text-xs">
+                            <div className="flex items-start justify-between gap-2">
+                                <div className="min-w-0">
+                                    <p className="font-medium text-slate-900 dark:text-slate-200 truncate" title={ref.title}>
+                                        {shortCitation(ref)} {ref.title}
+                                    </p>
+                                    <p className="font-mono text-[10px] text-slate-400">{ref.id}{ref.doi && ` · doi:${ref.doi}`}</p>
+                                </div>
+                                {!isInherited && (
+                                    <button
+                                        type="button"
+                                        onClick={() => handleRemove(ref.id)}
+                                        disabled={disabled}
+                                        className="flex-shrink-0 text-slate-400 hover:text-red-500 disabled:opacity-50"
+                                        aria-label={`Remove ${ref.id}`}
+                                    >
+                                        <XCircleIcon className="h-4 w-4" />
+                                    </button>
+                                )}
+                            </div>
+                            {!isInherited && linkableFiles.length > 0 && (
+                                <select
+                                    value={ref.fileName && fileNames.has(ref.fileName) ? ref.fileName : ''}
+                                    onChange={(e) => handleLinkFile(ref.id, e.target.value)}
+                                    disabled={disabled}
+                                    className="mt-1 w-full rounded border-0 bg-slate-100 dark:bg-slate-800 py-0.5 px-1 text-xs text-slate-700 dark:text-slate-300 ring-1 ring-inset ring-slate-300 dark:ring-slate-700"
+                                >
+                                    <option value="">No full text</option>
+                                    {linkableFiles.map(file => <option key={file.name} value={file.name}>{file.name}</option>)}
+                                </select>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="flex items-center gap-3">
+                <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={disabled}
+                    className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold text-indigo-600 dark:text-indigo-400 border border-indigo-200 dark:border-indigo-800 rounded-md hover:bg-indigo-50 dark:hover:bg-indigo-900/30 disabled:opacity-50"
+                >
+                    <UploadIcon className="w-4 h-4" />
+                    {references.length > 0 && !isInherited ? 'Import more' : 'Import BibTeX, RIS or CSL-JSON'}
+                </button>
+                {references.length > 0 && !isInherited && (
+                    <button type="button" onClick={() => onChange([])} disabled={disabled} className="text-xs text-slate-500 hover:text-red-500 disabled:opacity-50">
+                        Clear all
+                    </button>
+                )}
+                <span className="ml-auto text-xs text-slate-400">{references.length} reference{references.length === 1 ? '' : 's'}</span>
+                <input ref={fileInputRef} type="file" className="sr-only" accept={REFERENCE_FILE_EXTENSIONS} multiple onChange={(e) => handleImport(e.target.files)} disabled={disabled} />
+            </div>
+            <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">Citations for these works use this metadata exactly.</p>
+            {error && <p className="mt-1 text-xs text-red-600 dark:text-red-500">{error}</p>}
+        </div>
+    );
+};
+
+export default ReferenceLibrary;
@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { WorkflowTemplate } from '../types';
+
+interface TemplateInsertDialogProps {
+    template: WorkflowTemplate;
+    placeholders: string[];
+    onConfirm: (values: Record<string, string>) => void;
+    onCancel: () => void;
+}
+
+const TemplateInsertDialog: React.FC<TemplateInsertDialogProps> = ({ template, placeholders, onConfirm, onCancel }) => {
+    const [values, setValues] = useState<Record<string, string>>({});
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onConfirm(values);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <form onSubmit={handleSubmit} className="bg-white dark:bg-slate-900 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700 p-6 max-w-md w-full mx-4 animate-fadeIn">
+                <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-1">Insert "{template.name}"</h3>
+                <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+                    Fill in the template's placeholders. Anything left blank can be set later in the node configuration.
+                </p>
+                <div className="space-y-3 mb-6">
+                    {placeholders.map((name, i) => (
+                        <div key={name}>
+                            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">{name.replace(/_/g, ' ')}</label>
+                            <input
+                                type="text"
+                                autoFocus={i === 0}
+                                value={values[name] || ''}
+                                onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                                className="w-full rounded-md border-0 bg-slate-100 dark:bg-slate-800 py-1.5 px-3 text-slate-900 dark:text-white shadow-sm ring-1 ring-inset ring-slate-300 dark:ring-slate-700 focus:ring-2 focus:ring-inset focus:ring-indigo-500 sm:text-sm"
+                            />
+                        </div>
+                    ))}
+                </div>
+                <div className="flex justify-end gap-3">
+                    <button type="button" onClick={onCancel} className="px-4 py-2 text-sm font-medium text-slate-500 hover:text-slate-700 dark:hover:text-slate-300">
+                        Cancel
+                    </button>
+                    <button type="submit" className="px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-500">
+                        Insert Nodes
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default TemplateInsertDialog;
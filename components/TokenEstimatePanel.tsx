@@ -0,0 +1,74 @@
+import React, { useMemo, useState } from 'react';
+import { Config, ProtocolDefinition, WorkflowNode } from '../types';
+import { estimateNodeRun, formatCost } from '../services/tokenEstimator';
+import ChevronDownIcon from './icons/ChevronDownIcon';
+
+interface TokenEstimatePanelProps {
+    node: WorkflowNode;
+    effectiveConfig: Config; // Node config merged with everything inherited from upstream
+    protocolOverrides: ProtocolDefinition[];
+    disabled?: boolean;
+    onUpdateBudget: (budget: string) => void;
+}
+
+const formatTokens = (tokens: number) => tokens >= 10000 ? `${Math.round(tokens / 1000).toLocaleString()}k` : tokens.toLocaleString();
+
+const TokenEstimatePanel: React.FC<TokenEstimatePanelProps> = ({ node, effectiveConfig, protocolOverrides, disabled = false, onUpdateBudget }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const estimate = useMemo(() => estimateNodeRun(node, effectiveConfig, protocolOverrides), [node, effectiveConfig, protocolOverrides]);
+    const hasWarnings = estimate.warnings.length > 0;
+
+    return (
+        <div className={`mb-3 rounded-lg border text-xs ${hasWarnings ? 'border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20' : 'border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900'}`}>
+            <button
+                type="button"
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="w-full flex items-center justify-between gap-2 px-3 py-2 text-slate-600 dark:text-slate-300"
+                title="Estimated before running; actual usage is reported in the node log"
+            >
+                <span>
+                    Estimate: <span className="font-semibold text-slate-800 dark:text-slate-100">~{formatTokens(estimate.totalTokens)} tokens</span>
+                    {estimate.cost !== null && <> · <span className="font-semibold text-slate-800 dark:text-slate-100">~{formatCost(estimate.cost)}</span></>}
+                    {hasWarnings && <span className="ml-1 text-amber-600 dark:text-amber-400">({estimate.warnings.length} warning{estimate.warnings.length > 1 ? 's' : ''})</span>}
+                </span>
+                <ChevronDownIcon className={`w-4 h-4 flex-shrink-0 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+            </button>
+            {isExpanded && (
+                <div className="px-3 pb-3 space-y-2 border-t border-slate-200 dark:border-slate-700 pt-2">
+                    <dl className="grid grid-cols-2 gap-x-2 gap-y-1 text-slate-500 dark:text-slate-400">
+                        {estimate.extractionChunks > 0 && (
+                            <>
+                                <dt>Extraction ({estimate.extractionChunks} chunk{estimate.extractionChunks > 1 ? 's' : ''})</dt>
+                                <dd className="text-right">{formatTokens(estimate.extractionInputTokens)} in / {formatTokens(estimate.extractionOutputTokens)} out</dd>
+                                <dt className="col-span-2 -mt-1 text-[10px] text-slate-400">{estimate.extractionModel}; cached chunks will cost less</dt>
+                            </>
+                        )}
+                        <dt>Main call</dt>
+                        <dd className="text-right">{formatTokens(estimate.promptTokens)} in / {formatTokens(estimate.outputTokens)} out</dd>
+                        <dt className="col-span-2 -mt-1 text-[10px] text-slate-400">{estimate.coreModel}</dt>
+                    </dl>
+                    {estimate.cost === null && (
+                        <p className="text-slate-400">No price is known for this model, so only tokens are estimated.</p>
+                    )}
+                    {estimate.warnings.map(warning => (
+                        <p key={warning} className="text-amber-700 dark:text-amber-400">{warning}</p>
+                    ))}
+                    <label className="flex items-center justify-between gap-2 text-slate-600 dark:text-slate-300">
+                        <span>Token budget</span>
+                        <input
+                            type="number"
+                            min="0"
+                            value={effectiveConfig.Token_Budget || ''}
+                            onChange={(e) => onUpdateBudget(e.target.value)}
+                            disabled={disabled}
+                            placeholder="None"
+                            className="w-28 rounded-md border-0 bg-slate-100 dark:bg-slate-800 py-1 px-2 text-right text-slate-900 dark:text-white ring-1 ring-inset ring-slate-300 dark:ring-slate-700 focus:ring-2 focus:ring-inset focus:ring-indigo-500"
+                        />
+                    </label>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TokenEstimatePanel;
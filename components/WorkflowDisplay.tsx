@@ -23,6 +23,9 @@ interface WorkflowDisplayProps {
   documentSections: ChapterSection[];
   elapsedTime: number;
   logs: string[];
+  streamingMessageId?: string;
+  onStop?: () => void;
+  onCancel?: () => void;
 }
 
 const formatDuration = (seconds: number): string => {
@@ -133,7 +136,7 @@ const MessageActions: React.FC<{
     );
 };
 
-const WorkflowDisplay: React.FC<WorkflowDisplayProps> = ({ messages, workflowState, onContinue, onReset, onAddSection, isMultiPhase, documentSections, elapsedTime, logs }) => {
+const WorkflowDisplay: React.FC<WorkflowDisplayProps> = ({ messages, workflowState, onContinue, onReset, onAddSection, isMultiPhase, documentSections, elapsedTime, logs, streamingMessageId, onStop, onCancel }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [userInput, setUserInput] = useState('');
@@ -156,6 +159,9 @@ const WorkflowDisplay: React.FC<WorkflowDisplayProps> = ({ messages, workflowSta
     }
   }, [messages, workflowState]);
 
+  const streamingMessage = streamingMessageId ? messages.find(m => m.id === streamingMessageId) : undefined;
+  const isStreamingText = !!streamingMessage?.content;
+
   useEffect(() => {
     if (textareaRef.current) {
         const el = textareaRef.current;
@@ -345,8 +351,8 @@ const WorkflowDisplay: React.FC<WorkflowDisplayProps> = ({ messages, workflowSta
         </div>
     );
     
-    // Only show manual add button if NOT Red Team Review (which has dedicated buttons)
-    const actions = !isRedTeam && msg.content && (
+    // Only show manual add button if NOT Red Team Review (which has dedicated buttons), and not mid-stream
+    const actions = !isRedTeam && msg.content && msg.id !== streamingMessageId && (
         <MessageActions 
             message={msg} 
             onAddSection={onAddSection} 
@@ -430,7 +436,8 @@ const WorkflowDisplay: React.FC<WorkflowDisplayProps> = ({ messages, workflowSta
                 <p>Configure your project and click "Start Workflow".</p>
             </div>
         ) : (
-            messages.filter(msg => !msg.isHidden).map(renderMessage)
+            // The streaming placeholder only renders once its first tokens arrive
+            messages.filter(msg => !msg.isHidden && !(msg.id === streamingMessageId && !msg.content)).map(renderMessage)
         )}
         {(workflowState === 'PROCESSING' || workflowState === 'PRE_PROCESSING') && (
              <div className="flex justify-start mb-4">
@@ -442,8 +449,26 @@ const WorkflowDisplay: React.FC<WorkflowDisplayProps> = ({ messages, workflowSta
                             <div className="w-2 h-2 bg-indigo-500 rounded-full animate-pulse" style={{animationDelay: '0.4s'}}></div>
                         </div>
                         <span className="text-sm italic text-slate-500 dark:text-slate-400">
-                           {workflowState === 'PRE_PROCESSING' ? 'Pre-processing...' : 'AI is thinking...'} ({formatDuration(elapsedTime)})
+                           {workflowState === 'PRE_PROCESSING' ? 'Pre-processing...' : isStreamingText ? 'AI is writing...' : 'AI is thinking...'} ({formatDuration(elapsedTime)})
                         </span>
+                        {streamingMessageId && onStop && (
+                            <button
+                                onClick={onStop}
+                                className="ml-2 px-2.5 py-1 text-xs font-semibold text-red-600 dark:text-red-400 border border-red-300 dark:border-red-800 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20"
+                                title="Stop generating and keep the partial output"
+                            >
+                                Stop
+                            </button>
+                        )}
+                        {onCancel && (
+                            <button
+                                onClick={onCancel}
+                                className="ml-2 px-2.5 py-1 text-xs font-semibold text-slate-600 dark:text-slate-300 border border-slate-300 dark:border-slate-700 rounded-md hover:bg-slate-100 dark:hover:bg-slate-800"
+                                title="Cancel the whole run, including any pending extraction"
+                            >
+                                Cancel
+                            </button>
+                        )}
                     </div>
                 </div>
              </div>
@@ -457,6 +482,12 @@ const WorkflowDisplay: React.FC<WorkflowDisplayProps> = ({ messages, workflowSta
                 <p>An unexpected error occurred. You can try your last prompt again or enter a new one below to continue.</p>
             </div>
         )}
+        {workflowState === 'CANCELLED' && (
+            <div className="p-3 mb-2 rounded-md bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300 text-sm ring-1 ring-inset ring-amber-500/20">
+                <p className="font-semibold text-amber-900 dark:text-amber-200">Run Cancelled</p>
+                <p>The run was cancelled before it finished. Tokens used up to that point are included in the usage totals. Run the node again to start over.</p>
+            </div>
+        )}
         {(workflowState === 'AWAITING_USER_ACTION' || workflowState === 'COMPLETED' || (workflowState === 'CONFIGURING' && messages.length > 0) || workflowState === 'ERROR') && (
           <div className="flex items-end gap-4">
             {workflowState === 'AWAITING_USER_ACTION' && (
@@ -1,5 +1,5 @@
 
-import { TaskType, ProjectInputType, OutlineInputType, ChapterGenInputType, ChapterReconInputType, ResearchRequirement, InputType, BookToChapterInputType, ChapterInfusionInputType, AcademicNoteInputType, ContextProcessingInputType, RedTeamInputType, FinalSynthesisInputType, CitationVerificationInputType, AnalysisLevel } from './types';
+import { TaskType, ProjectInputType, OutlineInputType, ChapterGenInputType, ChapterReconInputType, ResearchRequirement, InputType, BookToChapterInputType, ChapterInfusionInputType, AcademicNoteInputType, ContextProcessingInputType, RedTeamInputType, FinalSynthesisInputType, CitationVerificationInputType, AnalysisLevel, LlmProviderId, WorkflowTemplate, ProtocolDefinition } from './types';
 
 export const MASTER_PROMPT = `
 # MASTER DIRECTIVE: UNIVERSAL ACADEMIC WORKFLOW
@@ -19,6 +19,7 @@ All work generated must adhere to these standards. **IMPORTANT:** If the user pr
   * **Bibliography Style:** Default to APA 7th Edition. **EXCEPTION:** If the user specifies a custom bibliography format in the configuration, **you must follow the user's custom format exactly**.
   * **Source Integrity (Crucial):** You are strictly forbidden from inventing, fabricating, or "hallucinating" any new sources, citations, or references.
   * **Source Purity (Task-Dependent):** For tasks where sources are provided, you may **only** use the citation and reference information (author, year, title) that is **already present in the provided source documents**. For tasks requiring new research, all sources must be academically reputable and verifiable.
+  * **Page Anchors:** Source text may contain page markers such as \`[[Page 14]]\`, giving the printed page of the text that follows. Use them for pinpoint citations of quotes and specific claims, e.g. (Smith, 2020, p. 14). Only cite a page that a marker supports, and never copy the markers themselves into your output.
   * **Word Count Adherence:** All specified word counts (total or per-section) are primary, non-negotiable requirements.
 
 ## 3. PROJECT CONFIGURATION
@@ -26,14 +27,36 @@ All work generated must adhere to these standards. **IMPORTANT:** If the user pr
 **[USER: Please complete this section. Fill in all fields, or write "N/A" if not applicable.]**
 `;
 
-export const WORKFLOW_PROTOCOLS = `
+// Opens the protocols section of the prompt. When a node's task type is known, only its protocol follows
+// and the selection sentence is reworded (see composeProtocolPrompt).
+export const PROTOCOLS_PREAMBLE = `
 ## 4. WORKFLOW PROTOCOLS (Internal AI Logic)
 
 You will now read the user's \`PROJECT CONFIGURATION\` and select the **one** matching protocol to execute. You will follow the specified phases and **STOP** for user approval where mandated.
+`;
 
------
+// Closes the prompt only when every protocol is sent, since it asks the model to pick one
+export const PROTOCOLS_EXECUTION = `
+## 5. EXECUTION PROTOCOL
 
-### Protocol J: PROJECT_DEFINITION
+1. Acknowledge that you have read and understood this entire master directive.
+2. Read the user's completed \`PROJECT CONFIGURATION\` block.
+3. State which \`Task_Type\` and \`Protocol\` (e.g., "Protocol C: Chapter Reconstruction") you are initiating.
+4. Begin execution of Phase 1 for that protocol.
+`;
+
+// Structured protocol records; users fork and edit these per project in the protocol editor.
+// Bump `version` when a body changes so forks can show that the built-in moved on.
+export const BUILT_IN_PROTOCOLS: ProtocolDefinition[] = [
+    {
+        id: 'J',
+        name: 'Protocol J: PROJECT_DEFINITION',
+        taskType: TaskType.PROJECT_DEFINITION,
+        version: 1,
+        stopPhrases: [],
+        requiredInputs: ['Chapter_Title'],
+        builtIn: true,
+        body: `
 (Selected if \`Task_Type: "PROJECT_DEFINITION"\`)
 
 **Context:** This node establishes the "Project Charter" and global metadata for the workflow. It does not perform heavy generation but confirms the scope.
@@ -48,10 +71,17 @@ You will now read the user's \`PROJECT CONFIGURATION\` and select the **one** ma
     *   **## Global Directives** (Summary of instructions).
 3.  **Mandate:**
     *   This artifact serves as the "Source of Truth" for downstream nodes. Be precise.
-
------
-
-### Protocol A: OUTLINE_GENERATION
+`,
+    },
+    {
+        id: 'A',
+        name: 'Protocol A: OUTLINE_GENERATION',
+        taskType: TaskType.OUTLINE_GENERATION,
+        version: 1,
+        stopPhrases: [],
+        requiredInputs: ['Chapter_Title'],
+        builtIn: true,
+        body: `
 (Selected if \`Task_Type: "OUTLINE_GENERATION"\`)
 1.  **Analyze & Research:**
       * **If \`Input_Type: "TITLE_ONLY"\`:** Deconstruct the \`Chapter_Title\`, \`Chapter_Subtitle\`, and \`Additional_Instructions\` to establish the core research scope. Conduct targeted external research for peer-reviewed sources, and synthesize findings.
@@ -90,14 +120,23 @@ You will now read the user's \`PROJECT CONFIGURATION\` and select the **one** ma
           * **Word Count Allocation:** If a \`Target_Word_Count\` is provided in the configuration (and is not "N/A"), you MUST intelligently distribute this total word count across all H2 sections of the outline. The allocated word count **MUST** be included in each H2 title as shown in the pattern.
       * **References:** Following the outline, provide a preliminary list of key sources under a \`## References\` heading.
       * **Conditional Table Inclusion:** Based on the nature of the research and bibliographic sources, consider the judicious inclusion of tables within the Abstract or the textual descriptions of outline sections where doing so would substantively enhance analytical clarity, rigor, or present comparative data/key definitions effectively.
-
------
-
-### Protocol B: CHAPTER_GENERATION
+`,
+    },
+    {
+        id: 'B',
+        name: 'Protocol B: CHAPTER_GENERATION',
+        taskType: TaskType.CHAPTER_GENERATION,
+        version: 2,
+        stopPhrases: ['Awaiting command for the next section.'],
+        requiredInputs: ['Chapter_Outline'],
+        builtIn: true,
+        body: `
 (Selected if \`Task_Type: "CHAPTER_GENERATION"\`)
 1.  **Phase 1: Generation of Preliminaries:**
       * Read, comprehend, and internally map the provided \`Chapter_Outline\`.
       * **Large Context Handling:** If \`Core_Bibliography\` or \`Source_B_Content\` contains XML-wrapped blocks (e.g., \`<context_source id="...">\`), treat these as distinct knowledge modules. Do not treat them as a conversation history. They are your reference library.
+      * **Library Passages:** When a library is attached, it is not pasted in full. \`Retrieved_Passages\` holds the passages of \`Core_Bibliography\` and \`Source_B_Content\` that best match the chapter as a whole, each under a \`[Source: ...]\` label naming its file and pages; each section command brings the passages for that section.
+      * **Authoritative References:** If \`Reference_List\` is provided, it is the user's reference library exported from their reference manager. Every in-text citation and \`References\` entry for these works **MUST** use exactly the authors, year, title and publication details given there; never correct or embellish them from memory or from the extracted text. Entries with a \`{Full text: ...}\` note are the documents supplied in \`Core_Bibliography\`.
       * As your first action, you **MUST** immediately generate the content for any preliminary, un-numbered sections found at the top of the provided outline. This typically includes the **Chapter Title**, **Abstract**, and **Keywords**.
       * **Conditional Table Inclusion (Phase 1):** Based on the nature of the research and bibliographic sources, consider the judicious inclusion of tables within the Abstract where doing so would substantively enhance analytical clarity, rigor, or present comparative data/key definitions effectively.
       * Deliver this content as your first response.
@@ -105,18 +144,27 @@ You will now read the user's \`PROJECT CONFIGURATION\` and select the **one** ma
 2.  **Phase 2: Sequential Generation of Main Sections:**
       * **AWAIT COMMAND:** Wait for the user to command you to write the *next* section from the outline (e.g., "Generate the Introduction" or "Generate Section 1.1").
       * **RESEARCH & WRITE:** Write **only** that specific section, adhering to all Quality Mandates.
+          * **Retrieved Passages:** A section command may be followed by a \`Retrieved Passages\` block: the passages of the provided library that best match that section, each under a \`[Source: ...]\` label naming its file and pages. Ground the section in these passages first and cite them by the work they come from; they are drawn from the same library as \`Core_Bibliography\`.
           * **If \`Research_Requirement\` is set to \`SUPPLEMENTAL_RESEARCH\` or \`FULL_EXTERNAL_RESEARCH\`**, you MUST conduct targeted external research to find credible, up-to-date bibliographical sources to supplement the provided bibliography. Integrate and cite these new findings. For \`FULL_EXTERNAL_RESEARCH\`s, you must use the grounded search tool.
-          * **If \`Research_Requirement\` is \`PROVIDED_SOURCES_ONLY\` or not set**, you must rely exclusively on the provided \`Core_Bibliography\`.
+          * **If \`Research_Requirement\` is \`PROVIDED_SOURCES_ONLY\` or not set**, you must rely exclusively on the provided \`Core_Bibliography\` and the passages retrieved from it.
           * If a global \`Target_Word_Count\` is provided (and is not 'N/A'), you must proportionally adjust the length of this and all subsequent sections to ensure the final chapter's total word count approaches the target. This may override any specific word counts provided in the outline.
       * **STOP:** After delivering the text for the section, you **MUST** end your response with the exact phrase: \`Awaiting command for the next section.\`
       * **REPEAT:** Repeat this "WRITE/STOP" loop until all sections, including the "Conclusion" and final "References" list, have been delivered.
-
------
-
-### Protocol C: CHAPTER_RECONSTRUCTION (The "Lens")
+`,
+    },
+    {
+        id: 'C',
+        name: 'Protocol C: CHAPTER_RECONSTRUCTION (The "Lens")',
+        taskType: TaskType.CHAPTER_RECONSTRUCTION,
+        version: 1,
+        stopPhrases: ['Awaiting command for the next section.'],
+        requiredInputs: ['Source_A_File'],
+        builtIn: true,
+        body: `
 (Selected if \`Task_Type: "CHAPTER_RECONSTRUCTION"\` and \`Input_Type: "SOURCE_A_AND_SOURCE_B"\`)
 1.  **Phase 1: Analysis & Guidance Query:**
       * Thoroughly read and analyze both \`Source_A_File\` (The Subject) and \`Source_B_File\` (The Lens).
+      * **Authoritative References:** If \`Reference_List\` is provided, cite the works it lists exactly as given there (authors, year, title, publication details), including in the final \`References\` list.
       * Deliver two summaries to the user:
         1.  **Summary of Source A:** Its thesis, argument, and **exact structural outline** (headings/sub-headings).
         2.  **Summary of Source B:** A bulleted list of its key theories, frameworks, and findings.
@@ -132,10 +180,17 @@ You will now read the user's \`PROJECT CONFIGURATION\` and select the **one** ma
       * Once the plan is approved, begin by writing **only the first section** from the approved Content Plan (this may be an Abstract, Introduction, etc.).
       * **STOP:** After delivering the text for a section, you **MUST** end your response with the exact phrase: \`Awaiting command for the next section.\`
       * **REPEAT:** Repeat this "WRITE/STOP" loop until all sections, including the "Conclusion" and "References" list, have been delivered.
-
------
-
-### Protocol D: BOOK_TO_CHAPTER_TRANSMUTATION
+`,
+    },
+    {
+        id: 'D',
+        name: 'Protocol D: BOOK_TO_CHAPTER_TRANSMUTATION',
+        taskType: TaskType.BOOK_TO_CHAPTER_TRANSMUTATION,
+        version: 1,
+        stopPhrases: ['Please confirm.'],
+        requiredInputs: ['Book_File'],
+        builtIn: true,
+        body: `
 (Selected if \`Task_Type: "BOOK_TO_CHAPTER_TRANSMUTATION"\`)
 1.  **Phase 1: Analysis & Blueprint Proposal:**
       * Analyze the provided \`Book_File\`, mapping its structural components (Parts, Chapters) to a new, scaled-down chapter architecture.
@@ -147,10 +202,17 @@ You will now read the user's \`PROJECT CONFIGURATION\` and select the **one** ma
       * Once approval is given, begin generating the chapter **one section/sub-section at a time**, relying exclusively on the provided \`Book_File\`.
       * After generating the content for each section, **STOP** and output: \`"[Section Name] complete. Ready to proceed with [Next Section Name]. Please confirm."\`.
       * **REPEAT:** Repeat this "WRITE/STOP" loop until the entire chapter, including the "References" list, is complete.
-
------
-
-### Protocol E: RED_TEAM_REVIEW
+`,
+    },
+    {
+        id: 'E',
+        name: 'Protocol E: RED_TEAM_REVIEW',
+        taskType: TaskType.RED_TEAM_REVIEW,
+        version: 1,
+        stopPhrases: [],
+        requiredInputs: ['Draft_Chapter_Text'],
+        builtIn: true,
+        body: `
 (Selected if \`Task_Type: "RED_TEAM_REVIEW"\`)
 0.  **Ingestion & Contextual Anchoring:**
       * Assimilate the \`Draft_Chapter_Text\` which will act as the primary contextual anchor for interpretation. Prior to parsing, establish a semantic map of the draft’s structure, themes, and argumentation.
@@ -179,10 +241,17 @@ You will now read the user's \`PROJECT CONFIGURATION\` and select the **one** ma
               <<<SUGGESTION_END>>>
               \`\`\`
           *   Repeat this block for **every single detected issue** from your analysis.
-
------
-
-### Protocol F: FINAL_SYNTHESIS
+`,
+    },
+    {
+        id: 'F',
+        name: 'Protocol F: FINAL_SYNTHESIS',
+        taskType: TaskType.FINAL_SYNTHESIS,
+        version: 1,
+        stopPhrases: ['Awaiting command for the first section.', 'Awaiting command for the next section.'],
+        requiredInputs: ['Draft_Chapter_Text', 'Red_Team_Review_Text'],
+        builtIn: true,
+        body: `
 (Selected if \`Task_Type: "FINAL_SYNTHESIS"\`)
 1.  **Phase 1: Analysis & Preliminaries:**
       *   Ingest the \`Draft_Chapter_Text\` (The Original Draft).
@@ -200,14 +269,21 @@ You will now read the user's \`PROJECT CONFIGURATION\` and select the **one** ma
           *   **Fortify Arguments:** Revise the text to strengthen all arguments and ensure robust academic rigor.
       *   **STOP:** After delivering the text for the section, you **MUST** end your response with the exact phrase: \`Awaiting command for the next section.\`
       *   **REPEAT:** Repeat this "WRITE/STOP" loop until all sections, including the "Conclusion" and final "References" list, have been delivered.
-
------
-
-### Protocol G: CHAPTER_INFUSION (Multi-Phase)
+`,
+    },
+    {
+        id: 'G',
+        name: 'Protocol G: CHAPTER_INFUSION (Multi-Phase)',
+        taskType: TaskType.CHAPTER_INFUSION,
+        version: 2,
+        stopPhrases: ['Awaiting your selection of topics to infuse.', 'Please confirm if this infusion plan is approved.', 'Awaiting command for the next section.'],
+        requiredInputs: ['Source_A_File'],
+        builtIn: true,
+        body: `
 (Selected if \`Task_Type: "CHAPTER_INFUSION"\`)
 1.  **Phase 1: Analysis & Discovery:**
       * Thoroughly analyze \`Source_A_File\` (The Draft) to understand its current structure, argument, and gaps.
-      * Thoroughly analyze \`Source_B_Content\` (The Enrichment Material).
+      * Thoroughly analyze \`Source_B_Content\` (The Enrichment Material). When it is not pasted in full, \`Retrieved_Passages\` holds the Source B passages that best match Source A, each under a \`[Source: ...]\` label; work from those.
       * Identify specific topics, data points, theories, or arguments in Source B that are missing from, can enrich, or develop Source A further.
       * **Deliver:** A numbered list of **"Infusion Candidates"** (topics/themes available for infusion) along with a brief explanation of how each would strengthen the document.
       * **STOP:** End your response with the exact phrase: \`Awaiting your selection of topics to infuse.\`
@@ -222,15 +298,23 @@ You will now read the user's \`PROJECT CONFIGURATION\` and select the **one** ma
       * **AWAIT:** Wait for approval.
       * **Execute:** Write the chapter **one section at a time** following the approved outline.
       * **Integration:** For each section, maintain the primary voice and intent of Source A, but seamlessly weave in the selected material from Source B.
+      * **Retrieved Passages:** A section command may be followed by a \`Retrieved Passages\` block holding the Source B passages that best match that section, each under a \`[Source: ...]\` label. Draw on them first for that section.
       * **Citations:** Every single claim, fact, or idea derived from Source B **MUST** have a correct APA 7th in-text citation (Author, Year).
       * **STOP:** After delivering the text for a section, end your response with the exact phrase: \`Awaiting command for the next section.\`
       * **REPEAT:** Repeat this "WRITE/STOP" loop until all sections, including the "Conclusion" and "References" list, have been delivered.
 4.  **Phase 4: Final References:**
       * After the Conclusion, generate the **Unified References** list (merging Source A and Source B sources) in APA 7th format.
-
------
-
-### Protocol H: ACADEMIC_NOTE_GENERATION
+`,
+    },
+    {
+        id: 'H',
+        name: 'Protocol H: ACADEMIC_NOTE_GENERATION',
+        taskType: TaskType.ACADEMIC_NOTE_GENERATION,
+        version: 1,
+        stopPhrases: [],
+        requiredInputs: ['Source_B_Content'],
+        builtIn: true,
+        body: `
 (Selected if \`Task_Type: "ACADEMIC_NOTE_GENERATION"\`)
 
 **Context:** You are an expert academic research assistant tasked with producing a concise, academically formulated synthesis note that integrates the central ideas, arguments, and evidence across all uploaded materials.
@@ -262,10 +346,17 @@ You will now read the user's \`PROJECT CONFIGURATION\` and select the **one** ma
     *   **Executive Abstract** (Level 2 Heading \`## Executive Abstract\`): 3–4 sentences capturing the core synthesis.
     *   **Thematic Analysis** (Level 2 Heading \`## Thematic Analysis\`): The main body, organized thematically with subheadings as needed.
     *   **References** (Level 2 Heading \`## References\`): A complete list of all cited sources in APA 7th style. Infer metadata from text if missing (e.g., n.d., Author unknown).
-
------
-
-### Protocol I: CONTEXT_PROCESSING
+`,
+    },
+    {
+        id: 'I',
+        name: 'Protocol I: CONTEXT_PROCESSING',
+        taskType: TaskType.CONTEXT_PROCESSING,
+        version: 1,
+        stopPhrases: [],
+        requiredInputs: ['Source_B_Content'],
+        builtIn: true,
+        body: `
 (Selected if \`Task_Type: "CONTEXT_PROCESSING"\`)
 
 **Context:** You are a "Knowledge Compressor" engine. Your goal is to ingest a set of raw documents (the "Library") and output a high-density, structured Knowledge Base Artifact that will be used by another AI model to write a chapter.
@@ -289,10 +380,17 @@ You will now read the user's \`PROJECT CONFIGURATION\` and select the **one** ma
     *   Do NOT write a narrative essay.
     *   Prioritize density and information retention over flow.
     *   This output is for a machine, not a human reader.
-
------
-
-### Protocol K: CITATION_VERIFICATION
+`,
+    },
+    {
+        id: 'K',
+        name: 'Protocol K: CITATION_VERIFICATION',
+        taskType: TaskType.CITATION_VERIFICATION,
+        version: 1,
+        stopPhrases: [],
+        requiredInputs: ['Draft_Chapter_Text'],
+        builtIn: true,
+        body: `
 (Selected if \`Task_Type: "CITATION_VERIFICATION"\`)
 
 **Context:** You are an Academic Citation Auditor. Your SOLE purpose is to detect hallucinations, fabricated references, and metadata errors in the provided draft. You DO NOT edit style or grammar. You verify truth.
@@ -301,6 +399,7 @@ You will now read the user's \`PROJECT CONFIGURATION\` and select the **one** ma
     *   Scan the \`Draft_Chapter_Text\` for *every single* in-text citation and bibliographic entry.
     *   **MANDATORY ACTION:** You **MUST** use the Google Search Tool to verify the existence of every cited paper, book, or article.
     *   **Verify:** Author Name(s), Publication Date, Title, Publisher/Journal, DOI (if present), and URL validity (if present).
+    *   **Reference Library:** If \`Reference_List\` is provided, it is the user's authoritative library. Check each citation against it first: a citation that matches an entry exactly is ✅ Verified; one that names a listed work with wrong metadata is ⚠️ and its correction **MUST** be taken from the list, not from search results. Search only for works the list does not contain.
 
 2.  **Analysis Logic:**
     *   **Hallucination:** The paper does not exist, or the author never wrote a paper with that title.
@@ -322,14 +421,9 @@ You will now read the user's \`PROJECT CONFIGURATION\` and select the **one** ma
             **Action:** [The CORRECTED citation in APA 7th format. If hallucinated/fake, explicitly state: "REMOVE THIS CITATION (Source does not exist)."]
             <<<SUGGESTION_END>>>
             \`\`\`
-
-## 5. EXECUTION PROTOCOL
-
-1. Acknowledge that you have read and understood this entire master directive.
-2. Read the user's completed \`PROJECT CONFIGURATION\` block.
-3. State which \`Task_Type\` and \`Protocol\` (e.g., "Protocol C: Chapter Reconstruction") you are initiating.
-4. Begin execution of Phase 1 for that protocol.
-`;
+`,
+    },
+];
 
 export const UNIVERSAL_OVERRIDE_INSTRUCTION = `
 ## 6. UNIVERSAL OVERRIDE & SAFETY
@@ -337,6 +431,9 @@ export const UNIVERSAL_OVERRIDE_INSTRUCTION = `
 *   **Format Compliance:** You must strictly follow the output format specified in the active Protocol. Do not add conversational filler before or after the requested artifact unless the protocol explicitly allows it (e.g. "Awaiting command...").
 `;
 
+// Written into saved workflow files so a load error can say which release produced the file
+export const APP_VERSION = '5.0.0';
+
 export const TASK_TYPE_OPTIONS = [
   { value: TaskType.PROJECT_DEFINITION, label: "Project Definition (Start Here)" },
   { value: TaskType.OUTLINE_GENERATION, label: "Outline Generation" },
@@ -414,3 +511,100 @@ export const ANALYSIS_LEVEL_OPTIONS = [
     { value: AnalysisLevel.FOCUSED_BALANCE, label: "Focused Balance (Standard)" },
     { value: AnalysisLevel.ECO_SCAN, label: "Eco-Scan (Token Efficient)" },
 ];
+
+export const LLM_PROVIDER_OPTIONS = [
+    { value: LlmProviderId.GEMINI, label: "Google Gemini" },
+    { value: LlmProviderId.OPENAI_COMPATIBLE, label: "OpenAI-Compatible (OpenAI, llama.cpp, Ollama)" },
+];
+
+// Used when a node leaves its model fields blank
+export const DEFAULT_MODELS: Record<LlmProviderId, { core: string; extraction: string }> = {
+    [LlmProviderId.GEMINI]: { core: 'gemini-3.1-pro-preview', extraction: 'gemini-3-flash-preview' },
+    [LlmProviderId.OPENAI_COMPATIBLE]: { core: 'gpt-4o', extraction: 'gpt-4o-mini' },
+};
+
+// Extraction chunk sizes in characters. Deeper analysis reads smaller chunks so detail is not
+// lost to the output limit; Eco-Scan reads large ones to keep the number of calls down.
+export const EXTRACTION_CHUNKING: Record<AnalysisLevel, { chunkChars: number; overlapChars: number }> = {
+    [AnalysisLevel.HYPER_DEEP]: { chunkChars: 40000, overlapChars: 2000 },
+    [AnalysisLevel.FOCUSED_BALANCE]: { chunkChars: 80000, overlapChars: 1500 },
+    [AnalysisLevel.ECO_SCAN]: { chunkChars: 150000, overlapChars: 800 },
+};
+
+// A run stops when more than this share of one file's chunks failed or were blocked
+export const DEFAULT_MAX_CHUNK_FAILURE_PERCENT = 10;
+
+// Approximate list prices in USD per 1M tokens, used only for pre-run estimates.
+// Models missing here (e.g. local servers) are estimated in tokens without a cost.
+export const MODEL_PRICING: Record<string, { input: number; output: number; contextWindow: number }> = {
+    'gemini-3.1-pro-preview': { input: 2.00, output: 12.00, contextWindow: 1048576 },
+    'gemini-3-flash-preview': { input: 0.50, output: 3.00, contextWindow: 1048576 },
+    'gemini-2.5-pro': { input: 1.25, output: 10.00, contextWindow: 1048576 },
+    'gemini-2.5-flash': { input: 0.30, output: 2.50, contextWindow: 1048576 },
+    'gpt-4o': { input: 2.50, output: 10.00, contextWindow: 128000 },
+    'gpt-4o-mini': { input: 0.15, output: 0.60, contextWindow: 128000 },
+};
+
+// Suggestions only; any model ID the provider accepts can be typed in
+export const MODEL_SUGGESTIONS: Record<LlmProviderId, string[]> = {
+    [LlmProviderId.GEMINI]: ['gemini-3.1-pro-preview', 'gemini-3-flash-preview', 'gemini-2.5-pro', 'gemini-2.5-flash'],
+    [LlmProviderId.OPENAI_COMPATIBLE]: ['gpt-4o', 'gpt-4o-mini'],
+};
+
+// Built-in pipelines offered in the canvas add menu. Offsets are spaced for the 200px node cards.
+export const BUILT_IN_TEMPLATES: WorkflowTemplate[] = [
+    {
+        id: 'builtin-full-chapter-pipeline',
+        name: 'Full Chapter Pipeline',
+        description: 'Project Definition → Context Processing → Outline → Chapter → Red Team → Final Synthesis',
+        builtIn: true,
+        createdAt: 0,
+        nodes: [
+            { key: 'project', type: TaskType.PROJECT_DEFINITION, offset: { x: 0, y: 0 }, config: { Chapter_Title: '{{Chapter_Title}}', Chapter_Subtitle: '{{Chapter_Subtitle}}' } },
+            { key: 'context', type: TaskType.CONTEXT_PROCESSING, offset: { x: 260, y: 0 }, config: {} },
+            { key: 'outline', type: TaskType.OUTLINE_GENERATION, offset: { x: 520, y: 0 }, config: {} },
+            { key: 'chapter', type: TaskType.CHAPTER_GENERATION, offset: { x: 780, y: 0 }, config: { Target_Word_Count: '{{Target_Word_Count}}' } },
+            { key: 'review', type: TaskType.RED_TEAM_REVIEW, offset: { x: 1040, y: 0 }, config: {} },
+            { key: 'synthesis', type: TaskType.FINAL_SYNTHESIS, offset: { x: 1300, y: 0 }, config: {} },
+        ],
+        edges: [
+            { source: 'project', target: 'context' },
+            { source: 'context', target: 'outline' },
+            { source: 'outline', target: 'chapter' },
+            { source: 'chapter', target: 'review' },
+            { source: 'review', target: 'synthesis' },
+        ],
+    },
+    {
+        id: 'builtin-book-transmutation',
+        name: 'Book to Verified Chapter',
+        description: 'Project Definition → Book Transmutation → Citation Verification',
+        builtIn: true,
+        createdAt: 0,
+        nodes: [
+            { key: 'project', type: TaskType.PROJECT_DEFINITION, offset: { x: 0, y: 0 }, config: { Chapter_Title: '{{Chapter_Title}}', Chapter_Subtitle: '{{Chapter_Subtitle}}' } },
+            { key: 'transmute', type: TaskType.BOOK_TO_CHAPTER_TRANSMUTATION, offset: { x: 260, y: 0 }, config: { Target_Word_Count: '{{Target_Word_Count}}' } },
+            { key: 'verify', type: TaskType.CITATION_VERIFICATION, offset: { x: 520, y: 0 }, config: {} },
+        ],
+        edges: [
+            { source: 'project', target: 'transmute' },
+            { source: 'transmute', target: 'verify' },
+        ],
+    },
+    {
+        id: 'builtin-notes-from-sources',
+        name: 'Notes from a Source Library',
+        description: 'Project Definition → Context Processing → Academic Note Generation',
+        builtIn: true,
+        createdAt: 0,
+        nodes: [
+            { key: 'project', type: TaskType.PROJECT_DEFINITION, offset: { x: 0, y: 0 }, config: { Chapter_Title: '{{Chapter_Title}}' } },
+            { key: 'context', type: TaskType.CONTEXT_PROCESSING, offset: { x: 260, y: 0 }, config: {} },
+            { key: 'notes', type: TaskType.ACADEMIC_NOTE_GENERATION, offset: { x: 520, y: 0 }, config: {} },
+        ],
+        edges: [
+            { source: 'project', target: 'context' },
+            { source: 'context', target: 'notes' },
+        ],
+    },
+];
@@ -0,0 +1,57 @@
+import { AnalysisLevel, ExtractionCacheEntry } from '../types';
+import { withStore, STORES } from '../utils/indexedDb';
+import { GenerationParams } from './llmProvider';
+
+interface ExtractionCacheKeyParts {
+    chunk: string;
+    analysisLevel: AnalysisLevel;
+    contextText: string;
+    instructions?: string;
+    model: string;
+    generation: GenerationParams; // A low output limit cuts notes short, so notes made under other settings are not reused
+}
+
+// JSON framing keeps field boundaries unambiguous (e.g. "ab"+"c" vs "a"+"bc")
+export const hashRequestParts = async (parts: unknown[]): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const computeExtractionCacheKey = ({ chunk, analysisLevel, contextText, instructions, model, generation }: ExtractionCacheKeyParts): Promise<string> =>
+    hashRequestParts([chunk, analysisLevel, contextText, instructions?.trim() || '', model,
+        generation.temperature ?? null, generation.topP ?? null, generation.maxOutputTokens ?? null, generation.thinkingBudget ?? null]);
+
+// Cache failures (private browsing, quota) must never fail an extraction, so reads and writes degrade to misses
+export const getCachedExtraction = async (key: string): Promise<ExtractionCacheEntry | null> => {
+    try {
+        const entry = await withStore<ExtractionCacheEntry | undefined>(STORES.EXTRACTION_CACHE, 'readonly', store => store.get(key));
+        if (!entry) return null;
+        const updated = { ...entry, hits: entry.hits + 1, lastHitAt: Date.now() };
+        withStore(STORES.EXTRACTION_CACHE, 'readwrite', store => store.put(updated)).catch(error => console.error('Failed to update extraction cache stats', error));
+        return updated;
+    } catch (error) {
+        console.error('Failed to read extraction cache', error);
+        return null;
+    }
+};
+
+export const putCachedExtraction = async (entry: ExtractionCacheEntry): Promise<void> => {
+    try {
+        await withStore(STORES.EXTRACTION_CACHE, 'readwrite', store => store.put(entry));
+    } catch (error) {
+        console.error('Failed to write extraction cache', error);
+    }
+};
+
+export const listCachedExtractions = async (): Promise<ExtractionCacheEntry[]> => {
+    const entries = await withStore<ExtractionCacheEntry[]>(STORES.EXTRACTION_CACHE, 'readonly', store => store.getAll());
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteCachedExtraction = async (key: string): Promise<void> => {
+    await withStore(STORES.EXTRACTION_CACHE, 'readwrite', store => store.delete(key));
+};
+
+export const clearExtractionCache = async (): Promise<void> => {
+    await withStore(STORES.EXTRACTION_CACHE, 'readwrite', store => store.clear());
+};
@@ -0,0 +1,133 @@
+import { GoogleGenAI } from "@google/genai";
+import { LlmProviderId } from '../types';
+import { DEFAULT_MODELS } from '../constants';
+import { LlmProvider, LlmResponse, LlmRequestOptions, LlmRequestError, StreamOptions } from './llmProvider';
+
+// Finish reasons that mean the answer was withheld rather than completed
+const BLOCKING_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION']);
+
+// Stands in for an empty model turn, which the API rejects in a chat history
+const STOPPED_WITHOUT_OUTPUT = '[Stopped by the user before any output.]';
+
+const normalizeResponse = (response: any): LlmResponse => {
+    const usageMeta = response.usageMetadata;
+    const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    return {
+        blocked: response.promptFeedback?.blockReason || (BLOCKING_FINISH_REASONS.has(finishReason) ? finishReason : undefined),
+        text: (response.text as string | undefined) ?? '',
+        usage: {
+            promptTokens: usageMeta?.promptTokenCount || 0,
+            responseTokens: usageMeta?.candidatesTokenCount || 0,
+            totalTokens: usageMeta?.totalTokenCount || 0
+        },
+        groundingChunks: groundingMetadata?.groundingChunks,
+        searchQueries: groundingMetadata?.webSearchQueries
+    };
+};
+
+// A 429 body carries google.rpc.RetryInfo, e.g. "retryDelay": "27s"; the SDK's ApiError already has the status
+const withRetryHint = (error: any): LlmRequestError => {
+    const delay = typeof error?.message === 'string' ? /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(error.message) : null;
+    if (delay && error instanceof Error) (error as LlmRequestError).retryAfterMs = Number(delay[1]) * 1000;
+    return error;
+};
+
+const buildModelConfig = (options: LlmRequestOptions): Record<string, any> => {
+    const modelConfig: Record<string, any> = {};
+    if (options.enableSearch) {
+        modelConfig.tools = [{googleSearch: {}}];
+    }
+    const { temperature, topP, maxOutputTokens, thinkingBudget } = options.generation || {};
+    if (temperature !== undefined) modelConfig.temperature = temperature;
+    if (topP !== undefined) modelConfig.topP = topP;
+    if (maxOutputTokens !== undefined) modelConfig.maxOutputTokens = maxOutputTokens;
+    if (thinkingBudget !== undefined) modelConfig.thinkingConfig = { thinkingBudget };
+    return modelConfig;
+};
+
+const streamMessage = async (chat: any, message: string, options: LlmRequestOptions, stream: StreamOptions): Promise<LlmResponse> => {
+    let text = '';
+    let lastChunk: any = null;
+    let groundedChunk: any = null;
+    let stopped = false;
+
+    try {
+        // Per-request config replaces the chat config rather than merging, so rebuild it in full
+        const iterator = await chat.sendMessageStream({ message, config: { ...buildModelConfig(options), abortSignal: stream.signal } });
+        for await (const chunk of iterator) {
+            text += chunk.text || '';
+            lastChunk = chunk;
+            if (chunk.candidates?.[0]?.groundingMetadata) groundedChunk = chunk;
+            stream.onText(text);
+            if (stream.signal?.aborted) {
+                stopped = true;
+                break;
+            }
+        }
+    } catch (error) {
+        if (!stream.signal?.aborted) throw withRetryHint(error);
+        stopped = true;
+    }
+
+    // Usage is reported cumulatively, so the last chunk holds the totals
+    const usage = normalizeResponse(lastChunk || {}).usage;
+    const grounding = groundedChunk ? normalizeResponse(groundedChunk) : null;
+    return {
+        text,
+        usage,
+        groundingChunks: grounding?.groundingChunks,
+        searchQueries: grounding?.searchQueries,
+        stopped
+    };
+};
+
+export const createGeminiProvider = (): LlmProvider => {
+    if (!process.env.API_KEY) {
+        throw new Error("API_KEY environment variable not set");
+    }
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+    return {
+        id: LlmProviderId.GEMINI,
+        defaultModels: DEFAULT_MODELS[LlmProviderId.GEMINI],
+        startChat: (options) => {
+            let chat = ai.chats.create({ model: options.model, config: buildModelConfig(options) });
+            return {
+                sendMessage: async (message, stream) => {
+                    if (stream) {
+                        const response = await streamMessage(chat, message, options, stream);
+                        if (response.stopped) {
+                            // The SDK records a turn only when its stream runs to the end, so a stopped turn would drop the
+                            // message and the partial answer; rebuild the chat with both so a follow-up keeps its context
+                            const history = [
+                                ...chat.getHistory(),
+                                { role: 'user', parts: [{ text: message }] },
+                                { role: 'model', parts: [{ text: response.text || STOPPED_WITHOUT_OUTPUT }] },
+                            ];
+                            chat = ai.chats.create({ model: options.model, config: buildModelConfig(options), history });
+                        }
+                        return response;
+                    }
+                    try {
+                        return normalizeResponse(await chat.sendMessage({ message }));
+                    } catch (error) {
+                        throw withRetryHint(error);
+                    }
+                }
+            };
+        },
+        generate: async (prompt, options, signal) => {
+            try {
+                const response = await ai.models.generateContent({
+                    model: options.model,
+                    contents: prompt,
+                    config: { ...buildModelConfig(options), abortSignal: signal },
+                });
+                return normalizeResponse(response);
+            } catch (error) {
+                throw withRetryHint(error);
+            }
+        }
+    };
+};
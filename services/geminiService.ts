@@ -1,38 +1,66 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { Config, ResearchRequirement, TaskType, FileData, Phase, AnalysisLevel, TokenUsage } from '../types';
-import { MASTER_PROMPT, WORKFLOW_PROTOCOLS, UNIVERSAL_OVERRIDE_INSTRUCTION } from '../constants';
-
-const isRetryableError = (error: any): boolean => {
-  if (error && typeof error.message === 'string') {
-    const message = error.message.toLowerCase();
-    // Check for common transient error indicators from the Gemini API.
-    return message.includes('503') || message.includes('unavailable') || message.includes('overloaded') || message.includes('rate limit');
-  }
-  return false;
+import { Config, ResearchRequirement, TaskType, FileData, Phase, AnalysisLevel, TokenUsage, ProviderSettings, ExtractionCacheStats, ChunkReport, LlmProviderId, ProtocolDefinition } from '../types';
+import { MASTER_PROMPT, UNIVERSAL_OVERRIDE_INSTRUCTION, EXTRACTION_CHUNKING, DEFAULT_MAX_CHUNK_FAILURE_PERCENT, DEFAULT_MODELS } from '../constants';
+import { getProvider, LlmChatSession, LlmProvider, LlmRequestOptions, LlmResponse, GenerationParams, StreamOptions } from './llmProvider';
+import { composeProtocolPrompt } from './protocolRegistry';
+import { scheduleRequest } from './requestScheduler';
+import { computeExtractionCacheKey, getCachedExtraction, putCachedExtraction, hashRequestParts } from './extractionCache';
+import { formatReferenceList } from '../utils/referenceImport';
+import { chunkDocument, formatChunkLabel, ChunkOptions, DocumentChunk } from '../utils/textChunking';
+import { librarySourcesFromConfig, getLibraryIndex, searchLibrary, findOutlineSection, SearchHit } from '../utils/libraryIndex';
+
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+// Rough size of a request for the tokens-per-minute budget; the scheduler swaps in real usage afterwards
+const estimateRequestTokens = (text: string) => Math.ceil(text.length / 4);
+
+const chats: Record<string, LlmChatSession> = {};
+const chatModels: Record<string, string> = {}; // Rate limits are per model, so each session remembers its own
+
+const parseNumericSetting = (value: string | undefined): number | undefined => {
+    if (!value || value.trim() === '') return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
 };
 
-const withRetry = async <T>(fn: () => Promise<T>, maxRetries = 3, initialDelay = 1000): Promise<T> => {
-  let attempt = 0;
-  while (true) {
-    try {
-      return await fn();
-    } catch (error) {
-      attempt++;
-      if (attempt >= maxRetries || !isRetryableError(error)) {
-        console.error(`Request failed after ${attempt} attempts or with a non-retryable error.`, error);
-        throw error;
-      }
-      const delay = initialDelay * (2 ** (attempt - 1)) + Math.random() * 1000;
-      console.log(`Attempt ${attempt} failed with a retryable error. Retrying in ${delay.toFixed(0)}ms...`);
-      await new Promise(resolve => setTimeout(resolve, delay));
-    }
-  }
+export function getGenerationParams(config: Partial<Config>): GenerationParams {
+    return {
+        temperature: parseNumericSetting(config.Temperature),
+        topP: parseNumericSetting(config.Top_P),
+        maxOutputTokens: parseNumericSetting(config.Max_Output_Tokens),
+        thinkingBudget: parseNumericSetting(config.Thinking_Budget),
+    };
+}
+
+const REFERENCE_LIST_TASKS: TaskType[] = [TaskType.CHAPTER_GENERATION, TaskType.CHAPTER_RECONSTRUCTION, TaskType.CITATION_VERIFICATION];
+
+// Protocols B and G write section by section, so each request gets the passages for its section instead of the whole library
+const RETRIEVAL_TASKS: TaskType[] = [TaskType.CHAPTER_GENERATION, TaskType.CHAPTER_INFUSION];
+const RETRIEVED_PASSAGES = 8;
+const RETRIEVED_PASSAGE_CHARS = 12000;
+// The opening prompt plans the whole chapter, so it gets a wider selection
+const OPENING_PASSAGES = 24;
+const OPENING_PASSAGE_CHARS = 36000;
+
+export const usesLibraryRetrieval = (config: Partial<Config>): boolean =>
+    !!config.Task_Type && RETRIEVAL_TASKS.includes(config.Task_Type) && librarySourcesFromConfig(config).length > 0;
+
+// The best matches for `query`, stopping before their text would pass `maxChars`
+const retrievePassages = (config: Partial<Config>, query: string, limit: number, maxChars: number): SearchHit[] => {
+    let budget = maxChars;
+    return searchLibrary(getLibraryIndex(librarySourcesFromConfig(config)), query, limit).filter(hit => {
+        budget -= hit.passage.text.length;
+        return budget >= 0;
+    });
 };
 
+const formatPassages = (hits: SearchHit[]): string => hits.map(hit => `[Source: ${hit.passage.label}]\n${hit.passage.text}`).join('\n\n');
 
-const chats: Record<string, any> = {};
-let ai: GoogleGenAI | null = null;
+// Passages for the chapter as a whole: its title, outline and draft, whichever the node has
+const openingPassages = (config: Config): SearchHit[] => {
+    const query = [config.Chapter_Title, config.Chapter_Subtitle, config.Chapter_Outline, config.Source_A_File, config.Additional_Instructions].filter(Boolean).join('\n');
+    return query.trim() ? retrievePassages(config, query, OPENING_PASSAGES, OPENING_PASSAGE_CHARS) : [];
+};
 
 export function buildConfigYaml(config: Config, phase: Phase): string {
   let relevantConfig: Partial<Config> = {};
@@ -76,6 +104,14 @@ export function buildConfigYaml(config: Config, phase: Phase): string {
         break;
   }
 
+  // Retrieved passages stand in for the full notes; section commands bring the rest as they are written
+  const retrievesLibrary = phase === 'generation' && usesLibraryRetrieval(config);
+  const passages = retrievesLibrary ? openingPassages(config) : [];
+  if (retrievesLibrary) {
+      delete relevantConfig.Core_Bibliography;
+      delete relevantConfig.Source_B_Content;
+  }
+
   // Filter out empty/default values
   Object.keys(relevantConfig).forEach(keyStr => {
       const key = keyStr as keyof Config;
@@ -93,157 +129,415 @@ export function buildConfigYaml(config: Config, phase: Phase): string {
       yamlString += `${key}: "${value}"\n`;
     }
   }
+  // Imported library entries are authoritative citation metadata for these protocols
+  if (phase === 'generation' && config.Task_Type && REFERENCE_LIST_TASKS.includes(config.Task_Type) && config.References?.length) {
+    yamlString += `Reference_List: |\n  ${formatReferenceList(config.References).replace(/\n/g, '\n  ')}\n`;
+  }
+  if (passages.length > 0) {
+    yamlString += `Retrieved_Passages: |\n  ${formatPassages(passages).replace(/\n/g, '\n  ')}\n`;
+  }
   yamlString += '# ---------------- END CONFIGURATION ------------------\n```';
   return yamlString;
 }
 
-function getRelevantProtocol(taskType: TaskType | "RED_TEAM_REVIEW" | "FINAL_SYNTHESIS"): string {
-    const protocolMap: Record<string, string> = {
-        [TaskType.OUTLINE_GENERATION]: "Protocol A: OUTLINE_GENERATION",
-        [TaskType.CHAPTER_GENERATION]: "Protocol B: CHAPTER_GENERATION",
-        [TaskType.CHAPTER_RECONSTRUCTION]: "Protocol C: CHAPTER_RECONSTRUCTION (The \"Lens\")",
-        [TaskType.BOOK_TO_CHAPTER_TRANSMUTATION]: "Protocol D: BOOK_TO_CHAPTER_TRANSMUTATION",
-        [TaskType.CHAPTER_INFUSION]: "Protocol G: CHAPTER_INFUSION",
-        [TaskType.ACADEMIC_NOTE_GENERATION]: "Protocol H: ACADEMIC_NOTE_GENERATION",
-        [TaskType.CONTEXT_PROCESSING]: "Protocol I: CONTEXT_PROCESSING",
-        [TaskType.CITATION_VERIFICATION]: "Protocol K: CITATION_VERIFICATION",
-        "RED_TEAM_REVIEW": "Protocol E: RED_TEAM_REVIEW",
-        "FINAL_SYNTHESIS": "Protocol F: FINAL_SYNTHESIS",
-    };
-
-    const protocolIdentifier = protocolMap[taskType];
-    if (!protocolIdentifier) {
-        return WORKFLOW_PROTOCOLS; // Fallback for safety
-    }
-    
-    const parts = WORKFLOW_PROTOCOLS.split('-----');
-    const header = parts.shift() || '';
-    
-    const relevantProtocolBody = parts.find(p => p.includes(protocolIdentifier));
-
-    if (!relevantProtocolBody) {
-        return WORKFLOW_PROTOCOLS; // Fallback for safety
+// Assembles a phase's opening prompt exactly as it is sent; pre-run token estimates measure the same text.
+// `overrides` are the open project's protocol overrides.
+export function assemblePhasePrompt(config: Config, phase: Phase, overrides: ProtocolDefinition[]): { configYaml: string, fullPrompt: string } {
+    const configYaml = buildConfigYaml(config, phase);
+    let relevantProtocols: string;
+    if (phase === 'review') {
+        relevantProtocols = composeProtocolPrompt(TaskType.RED_TEAM_REVIEW, overrides);
+    } else if (phase === 'synthesis') {
+        relevantProtocols = composeProtocolPrompt(TaskType.FINAL_SYNTHESIS, overrides);
+    } else {
+        relevantProtocols = composeProtocolPrompt(config.Task_Type, overrides);
     }
-    
-    const modifiedHeader = header.replace(
-        "select the **one** matching protocol to execute", 
-        "execute the following protocol"
-    );
-
-    return `${modifiedHeader.trim()}\n-----\n${relevantProtocolBody.trim()}`;
+    return { configYaml, fullPrompt: `${MASTER_PROMPT}\n${configYaml}\n${relevantProtocols}\n${UNIVERSAL_OVERRIDE_INSTRUCTION}` };
 }
 
-const chunkText = (text: string, chunkSize: number): string[] => {
-    const chunks: string[] = [];
-    for (let i = 0; i < text.length; i += chunkSize) {
-        chunks.push(text.substring(i, i + chunkSize));
-    }
-    return chunks;
+/**
+ * Chunk size and overlap for extraction. The size follows the analysis level (smaller chunks get
+ * closer reading); a non-negative Chunk_Overlap setting replaces the level's default overlap.
+ */
+export const getChunkOptions = (analysisLevel: AnalysisLevel | "", overlapSetting?: string): ChunkOptions => {
+    const { chunkChars, overlapChars } = EXTRACTION_CHUNKING[analysisLevel || AnalysisLevel.FOCUSED_BALANCE];
+    const override = overlapSetting?.trim() ? Number(overlapSetting) : NaN;
+    // Overlap is capped at half a chunk, or most of every request would be repeated context
+    const overlap = Number.isFinite(override) && override >= 0 ? Math.min(Math.floor(override), chunkChars / 2) : overlapChars;
+    return { maxChars: chunkChars, overlapChars: overlap };
 };
 
-// Helper for concurrency control
-async function pLimit<T>(concurrency: number, tasks: (() => Promise<T>)[]): Promise<T[]> {
-    const results: T[] = [];
-    const executing: Promise<void>[] = [];
-    
-    for (const task of tasks) {
-        const p = task().then(result => {
-            results.push(result);
+export interface ExtractionResult {
+    text: string;
+    usage: TokenUsage;
+    cancelled?: boolean;
+    cacheStats: ExtractionCacheStats;
+    chunkReports: Omit<ChunkReport, 'stage'>[]; // One per chunk that finished; the caller knows the stage
+}
+
+interface ChunkOutcome {
+    text: string;
+    usage: TokenUsage;
+    report?: Omit<ChunkReport, 'stage'>; // Absent when the chunk was cancelled
+}
+
+interface ChunkProcessorOptions {
+    scope: { contextText: string; instructions?: string };
+    analysisLevel: AnalysisLevel | "";
+    providerSettings?: ProviderSettings;
+    modelConfig: Partial<Config>;
+    cacheStats: ExtractionCacheStats;
+    signal?: AbortSignal;
+    onLog?: (message: string) => void;
+}
+
+const noUsage: TokenUsage = { promptTokens: 0, responseTokens: 0, totalTokens: 0 };
+
+const sumUsage = (usages: TokenUsage[]): TokenUsage => usages.reduce((acc, curr) => ({
+    promptTokens: acc.promptTokens + curr.promptTokens,
+    responseTokens: acc.responseTokens + curr.responseTokens,
+    totalTokens: acc.totalTokens + curr.totalTokens
+}), { promptTokens: 0, responseTokens: 0, totalTokens: 0 });
+
+// Extracts notes from one chunk through the cache and the request queue; shared by full runs and chunk retries
+const createChunkProcessor = ({ scope, analysisLevel, providerSettings, modelConfig, cacheStats, signal, onLog }: ChunkProcessorOptions) => {
+    const provider = getProvider(providerSettings);
+    const extractionModel = modelConfig.Extraction_Model_Id?.trim() || provider.defaultModels.extraction;
+    const generation = getGenerationParams(modelConfig);
+    const effectiveAnalysisLevel = analysisLevel || AnalysisLevel.FOCUSED_BALANCE;
+
+    const processChunk = async (file: FileData, chunk: DocumentChunk): Promise<ChunkOutcome> => {
+        if (signal?.aborted) return { text: '', usage: noUsage };
+        const label = formatChunkLabel(chunk.provenance);
+        const report = (status: ChunkReport['status'], detail?: string) => ({ fileName: file.name, label, status, detail });
+        // Each chunk's notes open with where they came from, so the synthesis can trace them
+        const sourceLine = `[Source: ${label}]\n`;
+
+        // Keyed on the text alone, so the same content under another file name still hits; the label is added after the lookup
+        const cacheKey = await computeExtractionCacheKey({
+            chunk: `${chunk.overlap}\n---\n${chunk.text}`,
+            analysisLevel: effectiveAnalysisLevel,
+            contextText: scope.contextText,
+            instructions: scope.instructions,
+            model: extractionModel,
+            generation,
         });
-        executing.push(p);
-        
-        if (executing.length >= concurrency) {
-            await Promise.race(executing);
-            // Clean up finished promises
-            // In a real implementation we'd manage the array index, but Promise.race is tricky for simple removal.
-            // Simplified: Wait for one, then continue. Note: this isn't perfect optimal scheduling but works for small batches.
-            // Better: remove completed from `executing`.
+        const cached = await getCachedExtraction(cacheKey);
+        if (cached) {
+            // Hits cost no tokens and never enter the request queue
+            cacheStats.hits++;
+            return { text: sourceLine + cached.text, usage: noUsage, report: report('ok') };
         }
-        
-        // Removal logic
-        p.finally(() => {
-            const idx = executing.indexOf(p);
-            if (idx !== -1) executing.splice(idx, 1);
+        cacheStats.misses++;
+
+        const prompt = generateExtractionPrompt(chunk, scope, analysisLevel);
+        let retried = false;
+        try {
+            // Use the provider's fast extraction model for speed
+            const response = await scheduleRequest(extractionModel, () => provider.generate(prompt, {
+                model: extractionModel,
+                generation,
+            }, signal), { estimatedTokens: estimateRequestTokens(prompt), label, signal, onLog, onRetry: () => { retried = true; } });
+
+            // A refusal is reported rather than passed on as empty notes; it is not cached, so a retry asks again
+            if (response.blocked) return { text: '', usage: response.usage, report: report('blocked', response.blocked) };
+
+            if (response.text?.trim()) {
+                await putCachedExtraction({
+                    key: cacheKey,
+                    text: response.text,
+                    usage: response.usage,
+                    fileName: file.name,
+                    model: extractionModel,
+                    analysisLevel: effectiveAnalysisLevel,
+                    chunkLength: chunk.text.length,
+                    createdAt: Date.now(),
+                    hits: 0,
+                });
+            }
+            return { text: sourceLine + (response.text || ''), usage: response.usage, report: report(retried ? 'retried' : 'ok') };
+        } catch (error) {
+            if (isAbortError(error)) return { text: '', usage: noUsage };
+            console.error(`Error processing chunk from document ${file.name}:`, error);
+            // Failed chunks are left out of the notes; the report tells the user which part is missing
+            return { text: '', usage: noUsage, report: report('failed', (error as Error).message) };
+        }
+    };
+
+    return { processChunk, provider, extractionModel, generation };
+};
+
+export const extractRelevantContent = async (
+    files: FileData[],
+    scope: { contextText: string; instructions?: string },
+    analysisLevel: AnalysisLevel | "",
+    providerSettings?: ProviderSettings,
+    modelConfig: Partial<Config> = {},
+    signal?: AbortSignal,
+    onLog?: (message: string) => void
+): Promise<ExtractionResult> => {
+    const cacheStats: ExtractionCacheStats = { hits: 0, misses: 0 };
+    const chunkOptions = getChunkOptions(analysisLevel, modelConfig.Chunk_Overlap);
+    const { processChunk, provider, extractionModel, generation } = createChunkProcessor({ scope, analysisLevel, providerSettings, modelConfig, cacheStats, signal, onLog });
+
+
+    // Every chunk of every file is queued at once; the scheduler decides how many run in parallel
+    const results = await Promise.all(files.map(async file => ({
+        fileName: file.name,
+        chunks: await Promise.all(chunkDocument(file.content, file.name, chunkOptions).map(chunk => processChunk(file, chunk))),
+    })));
+    const usages = results.flatMap(r => r.chunks.map(c => c.usage));
+    const chunkReports = results.flatMap(r => r.chunks.flatMap(c => c.report ? [c.report] : []));
+    const notesByFile = results.map(r => ({ fileName: r.fileName, notes: r.chunks.map(c => c.text).filter(Boolean) }));
+
+    let aggregatedText = notesByFile.map(f => `--- From document: ${f.fileName} ---\n${f.notes.join('\n').trim()}\n\n`).join('');
+    const budget = parseNumericSetting(modelConfig.Knowledge_Base_Budget);
+    if (budget && budget > 0 && !signal?.aborted && estimateRequestTokens(aggregatedText) > budget) {
+        const reduced = await reduceToKnowledgeBase(notesByFile, budget, {
+            scope, analysisLevel: analysisLevel || AnalysisLevel.FOCUSED_BALANCE, provider, model: extractionModel, generation, maxInputChars: chunkOptions.maxChars, signal, onLog
         });
+        usages.push(...reduced.usages);
+        aggregatedText = reduced.text;
     }
-    
-    await Promise.all(executing);
-    return results;
+
+    const aggregatedUsage = sumUsage(usages);
+
+    // On cancellation the usage still covers every chunk that completed before the abort
+    return { text: aggregatedText, usage: aggregatedUsage, cancelled: !!signal?.aborted, cacheStats, chunkReports };
+};
+
+/**
+ * Describes each file where failed or blocked chunks exceed `Max_Chunk_Failure_Percent` of the
+ * file's chunks. An empty result means the run may go on with the notes it has.
+ */
+export const findChunkFailureViolations = (reports: ChunkReport[], config: Partial<Config>): string[] => {
+    const setting = parseNumericSetting(config.Max_Chunk_Failure_Percent);
+    const limit = setting !== undefined && setting >= 0 ? setting : DEFAULT_MAX_CHUNK_FAILURE_PERCENT;
+    const byFile = new Map<string, ChunkReport[]>();
+    reports.forEach(r => byFile.set(r.fileName, [...(byFile.get(r.fileName) || []), r]));
+    return Array.from(byFile.entries()).flatMap(([fileName, fileReports]) => {
+        const failed = fileReports.filter(r => r.status === 'failed' || r.status === 'blocked').length;
+        const percent = (failed / fileReports.length) * 100;
+        return percent > limit ? [`${fileName}: ${failed} of ${fileReports.length} parts failed (${Math.round(percent)}%, limit ${limit}%)`] : [];
+    });
+};
+
+export interface RecoveredChunk {
+    fileName: string;
+    text: string; // Notes with their [Source: ...] line, as a full run would have produced them
+    followingLabels: string[]; // Labels of the file's later chunks, which the notes must precede
 }
 
+export interface ChunkRetryResult {
+    reports: Omit<ChunkReport, 'stage'>[]; // New outcome for each chunk that was retried
+    recovered: RecoveredChunk[];
+    usage: TokenUsage;
+}
 
-export const extractRelevantContent = async (
+/**
+ * Sends only the failed and blocked chunks in `reports` to the model again. The files are chunked with
+ * the run's settings and the chunks matched by label, so `scope` and `modelConfig` must be the ones
+ * the run used.
+ */
+export const retryFailedChunks = async (
     files: FileData[],
+    reports: Omit<ChunkReport, 'stage'>[],
     scope: { contextText: string; instructions?: string },
-    analysisLevel: AnalysisLevel | ""
-): Promise<{ text: string, usage: TokenUsage }> => {
-    if (!process.env.API_KEY) {
-        throw new Error("API_KEY environment variable not set");
-    }
+    analysisLevel: AnalysisLevel | "",
+    providerSettings?: ProviderSettings,
+    modelConfig: Partial<Config> = {},
+    signal?: AbortSignal,
+    onLog?: (message: string) => void
+): Promise<ChunkRetryResult> => {
+    const chunkOptions = getChunkOptions(analysisLevel, modelConfig.Chunk_Overlap);
+    const { processChunk } = createChunkProcessor({ scope, analysisLevel, providerSettings, modelConfig, cacheStats: { hits: 0, misses: 0 }, signal, onLog });
+    const failed = reports.filter(r => r.status === 'failed' || r.status === 'blocked');
+
+    const attempts = await Promise.all(files.flatMap(file => {
+        const failedLabels = new Set(failed.filter(r => r.fileName === file.name).map(r => r.label));
+        if (failedLabels.size === 0) return [];
+        const chunks = chunkDocument(file.content, file.name, chunkOptions);
+        const labels = chunks.map(chunk => formatChunkLabel(chunk.provenance));
+        return chunks.flatMap((chunk, i) => failedLabels.has(labels[i])
+            ? [processChunk(file, chunk).then(outcome => ({ outcome, fileName: file.name, followingLabels: labels.slice(i + 1) }))]
+            : []);
+    }));
+
+    return {
+        reports: attempts.flatMap(a => a.outcome.report ? [a.outcome.report] : []),
+        recovered: attempts
+            .filter(a => a.outcome.text && a.outcome.report && (a.outcome.report.status === 'ok' || a.outcome.report.status === 'retried'))
+            .map(a => ({ fileName: a.fileName, text: a.outcome.text, followingLabels: a.followingLabels })),
+        usage: sumUsage(attempts.map(a => a.outcome.usage)),
+    };
+};
 
-    const localAi = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const MAX_CHARS_PER_CHUNK = 100000;
-    const INTER_REQUEST_DELAY = 200; 
+/**
+ * Inserts recovered chunk notes into stored extraction notes, inside their document's section and
+ * ahead of the first later chunk that is present. Merged knowledge bases have no per-chunk layout,
+ * so there the notes are appended under their document's header.
+ */
+export const spliceRecoveredChunks = (notes: string, recovered: RecoveredChunk[]): string =>
+    recovered.reduce((text, chunk) => {
+        const header = `--- From document: ${chunk.fileName} ---`;
+        const start = text.indexOf(header);
+        if (start === -1) return `${text.trimEnd()}\n\n${header}\n${chunk.text.trim()}\n\n`;
+
+        const nextSection = text.indexOf('\n--- From document: ', start + header.length);
+        const sectionEnd = nextSection === -1 ? text.length : nextSection;
+        const positions = chunk.followingLabels
+            .map(label => text.indexOf(`[Source: ${label}]`, start))
+            .filter(index => index !== -1 && index < sectionEnd);
+        if (positions.length > 0) {
+            const at = Math.min(...positions);
+            return `${text.slice(0, at)}${chunk.text.trim()}\n${text.slice(at)}`;
+        }
+        const at = start + text.slice(start, sectionEnd).trimEnd().length;
+        return `${text.slice(0, at)}\n${chunk.text.trim()}${text.slice(at)}`;
+    }, notes);
+
+interface ReduceOptions {
+    scope: { contextText: string; instructions?: string };
+    analysisLevel: AnalysisLevel;
+    provider: LlmProvider;
+    model: string;
+    generation: GenerationParams;
+    maxInputChars: number; // Largest batch of notes merged in one request
+    signal?: AbortSignal;
+    onLog?: (message: string) => void;
+}
 
-    // Define the processing function for a SINGLE file
-    const processFile = async (file: FileData): Promise<{ text: string, usage: TokenUsage }> => {
-        let synthesizedFromFile = '';
-        let fileUsage: TokenUsage = { promptTokens: 0, responseTokens: 0, totalTokens: 0 };
-        
-        const chunks = chunkText(file.content, MAX_CHARS_PER_CHUNK);
-        
-        for (const chunk of chunks) {
-             const prompt = generateExtractionPrompt(chunk, scope, analysisLevel);
-             try {
-                // Use gemini-3-flash-preview for speed
-                const response: any = await withRetry(() => localAi.models.generateContent({
-                    model: 'gemini-3-flash-preview',
-                    contents: prompt,
-                }));
-                synthesizedFromFile += (response.text || '') + '\n';
-                
-                if (response.usageMetadata) {
-                    fileUsage.promptTokens += response.usageMetadata.promptTokenCount || 0;
-                    fileUsage.responseTokens += response.usageMetadata.candidatesTokenCount || 0;
-                    fileUsage.totalTokens += response.usageMetadata.totalTokenCount || 0;
-                }
-            } catch (error) {
-                console.error(`Error processing chunk from document ${file.name}:`, error);
-                synthesizedFromFile += `--- Error processing a chunk from this document ---\n`;
-            }
-             await new Promise(resolve => setTimeout(resolve, INTER_REQUEST_DELAY));
+// Documents are first merged to a multiple of their share, so the cross-document pass has duplicates left to remove
+const DOCUMENT_BUDGET_HEADROOM = 2;
+const MAX_REDUCE_ROUNDS = 4;
+
+// Packs consecutive parts into batches of at most `maxChars`; a part larger than that goes alone
+const batchParts = (parts: string[], maxChars: number): string[][] => {
+    const batches: string[][] = [];
+    let size = 0;
+    parts.forEach(part => {
+        const last = batches[batches.length - 1];
+        if (last && size + part.length <= maxChars) {
+            last.push(part);
+            size += part.length;
+        } else {
+            batches.push([part]);
+            size = part.length;
+        }
+    });
+    return batches;
+};
+
+/**
+ * Map-reduce stage for large libraries: each document's chunk notes are merged into one summary,
+ * then the summaries are merged across documents until the whole fits `budget` tokens. Every
+ * merge keeps the [Source: ...] tags, so each claim in the result still names its file and pages.
+ * A batch that fails to merge is kept as it was rather than dropped.
+ */
+const reduceToKnowledgeBase = async (
+    documents: { fileName: string; notes: string[] }[],
+    budget: number,
+    options: ReduceOptions
+): Promise<{ text: string; usages: TokenUsage[] }> => {
+    const { scope, analysisLevel, provider, model, generation, maxInputChars, signal, onLog } = options;
+    const usages: TokenUsage[] = [];
+    const totalTokens = (parts: string[]) => parts.reduce((sum, part) => sum + estimateRequestTokens(part), 0);
+
+    const mergeBatch = async (batch: string[], targetTokens: number, fileName?: string): Promise<string> => {
+        if (signal?.aborted) return batch.join('\n\n');
+        const prompt = generateReducePrompt(batch, scope, targetTokens, fileName);
+        // Merges go through the extraction cache too, so an unchanged rerun repeats none of them
+        const cacheKey = await computeExtractionCacheKey({ chunk: prompt, analysisLevel, contextText: scope.contextText, instructions: scope.instructions, model, generation });
+        const cached = await getCachedExtraction(cacheKey);
+        if (cached) return cached.text.trim();
+        try {
+            const response = await scheduleRequest(model, () => provider.generate(prompt, { model, generation }, signal), {
+                estimatedTokens: estimateRequestTokens(prompt) + targetTokens,
+                label: fileName ? `Merging notes from ${fileName}` : 'Merging notes across documents',
+                signal,
+                onLog,
+            });
+            usages.push(response.usage);
+            if (!response.text?.trim()) return batch.join('\n\n');
+            await putCachedExtraction({
+                key: cacheKey,
+                text: response.text,
+                usage: response.usage,
+                fileName: fileName || 'Notes merged across documents',
+                model,
+                analysisLevel,
+                chunkLength: batch.join('\n\n').length,
+                createdAt: Date.now(),
+                hits: 0,
+            });
+            return response.text.trim();
+        } catch (error) {
+            if (!isAbortError(error)) console.error('Error merging extracted notes:', error);
+            return batch.join('\n\n');
         }
-        return { 
-            text: `--- From document: ${file.name} ---\n${synthesizedFromFile.trim()}\n\n`,
-            usage: fileUsage
-        };
     };
 
-    // Parallelize file processing
-    // Batch size of 3 is a safe middle ground for browser + API limits
-    const tasks = files.map(file => () => processFile(file));
-    
-    // Simple custom concurrent execution since we don't have p-limit library
-    const BATCH_SIZE = 3;
-    let results: { text: string, usage: TokenUsage }[] = [];
-    
-    for (let i = 0; i < tasks.length; i += BATCH_SIZE) {
-        const batch = tasks.slice(i, i + BATCH_SIZE);
-        const batchResults = await Promise.all(batch.map(t => t()));
-        results = results.concat(batchResults);
-    }
-    
-    const aggregatedText = results.map(r => r.text).join('');
-    const aggregatedUsage = results.reduce((acc, curr) => ({
-        promptTokens: acc.promptTokens + curr.usage.promptTokens,
-        responseTokens: acc.responseTokens + curr.usage.responseTokens,
-        totalTokens: acc.totalTokens + curr.usage.totalTokens
-    }), { promptTokens: 0, responseTokens: 0, totalTokens: 0 });
-
-    return { text: aggregatedText, usage: aggregatedUsage };
+    // Merges `parts` in rounds, each batch getting its share of the target, until they fit it.
+    // `untilSingle` keeps going while the parts could still be merged in one request.
+    const reduceParts = async (parts: string[], targetTokens: number, untilSingle: boolean, fileName?: string): Promise<string[]> => {
+        let current = parts;
+        for (let round = 0; round < MAX_REDUCE_ROUNDS && !signal?.aborted; round++) {
+            const total = totalTokens(current);
+            const fitsOneBatch = current.join('\n\n').length <= maxInputChars;
+            if (total <= targetTokens && !(untilSingle && current.length > 1 && fitsOneBatch)) break;
+            const batches = batchParts(current, maxInputChars);
+            current = await Promise.all(batches.map(batch =>
+                mergeBatch(batch, Math.max(1, Math.ceil(targetTokens * totalTokens(batch) / total)), fileName)));
+            if (batches.length === 1) break;
+        }
+        return current;
+    };
+
+    const documentTarget = documents.length === 1 ? budget : Math.ceil(budget * DOCUMENT_BUDGET_HEADROOM / documents.length);
+    onLog?.(`Reducing notes from ${documents.length} document${documents.length === 1 ? '' : 's'} to a knowledge base of about ${budget.toLocaleString()} tokens.`);
+    const summaries = await Promise.all(documents.map(async doc => {
+        const merged = await reduceParts(doc.notes, documentTarget, false, doc.fileName);
+        return `--- From document: ${doc.fileName} ---\n${merged.join('\n\n')}`;
+    }));
+    if (documents.length === 1) return { text: `${summaries[0]}\n\n`, usages };
+
+    const knowledgeBase = await reduceParts(summaries, budget, true);
+    const size = totalTokens(knowledgeBase);
+    onLog?.(`Knowledge base reduced to about ${size.toLocaleString()} tokens${size > budget ? ` (over the ${budget.toLocaleString()}-token target)` : ''}.`);
+    return { text: `--- Knowledge base merged from ${documents.length} documents ---\n${knowledgeBase.join('\n\n')}\n\n`, usages };
 };
 
-const generateExtractionPrompt = (documentChunk: string, scope: { contextText: string; instructions?: string }, analysisLevel: AnalysisLevel | "") => {
+export const generateReducePrompt = (parts: string[], scope: { contextText: string; instructions?: string }, targetTokens: number, fileName?: string) => {
+    const source = fileName
+        ? `The notes below were extracted, in order, from consecutive parts of one document (${fileName}). Merge them into a single summary of that document.`
+        : `The notes below were extracted from different documents. Merge them into one knowledge base organized by theme, not by document.`;
+    const instructions = scope.instructions && scope.instructions.trim().toLowerCase() !== 'n/a' && scope.instructions.trim() !== ''
+        ? `\n\n**Additional Guidance/Instructions:**\n${scope.instructions}`
+        : '';
+
+    return `
+You are an expert research assistant condensing extracted research notes. ${source}
+
+**Interpretive Context (Title/Subtitle/Scope):**
+---
+${scope.contextText}
+---${instructions}
+
+**Length Target:** about ${Math.round(targetTokens * 0.75).toLocaleString()} words (${targetTokens.toLocaleString()} tokens). Do not exceed it; when something must go, drop what is least relevant to the Interpretive Context first.
+
+**Notes to Merge:**
+${parts.map((part, i) => `=== Part ${i + 1} ===\n${part}`).join('\n\n')}
+
+**Core Instructions:**
+1.  State each point once. When several parts make the same point, merge them into one statement and cite every source that makes it.
+2.  Every claim, figure and quotation must keep its attribution in the form \`[Source: <file name>, p. N]\`, taken from the \`[Source: ...]\` lines, \`--- From document: ... ---\` headers and \`[[Page N]]\` markers in the notes. Merged points list all their sources, e.g. \`[Source: A.pdf, p. 4; B.pdf, pp. 10–12]\`.
+3.  Drop any point whose source you cannot tell rather than leaving it unattributed. Never invent sources or page numbers.
+4.  Keep exact figures, definitions and direct quotations verbatim; paraphrase everything else tightly.
+5.  Output ONLY the merged notes, with no commentary, introduction or meta-discussion.
+    `;
+};
+
+export const generateExtractionPrompt = (chunk: DocumentChunk, scope: { contextText: string; instructions?: string }, analysisLevel: AnalysisLevel | "") => {
         const effectiveAnalysisLevel = analysisLevel || AnalysisLevel.FOCUSED_BALANCE;
         
         let analysisInstruction = '';
@@ -278,6 +572,11 @@ Your objective is to minimize quota usage while retaining critical data.
         if (scope.instructions && scope.instructions.trim().toLowerCase() !== 'n/a' && scope.instructions.trim() !== '') {
             instructionsPart = `\n\n**Additional Guidance/Instructions:**\n${scope.instructions}`;
         }
+
+        // The end of the previous chunk, so a point that straddles the boundary can be read whole
+        const overlapPart = chunk.overlap
+            ? `\n**Preceding Context (end of the previous chunk, already processed; use it only to understand how this chunk begins, do not extract from it):**\n---\n${chunk.overlap}\n---\n`
+            : '';
         
         return `
 You are an expert research assistant. Your task is to analyze a document chunk and extract the most relevant information based on the provided interpretive context, guidance, and specified analysis mode.
@@ -287,9 +586,11 @@ ${instructionsPart}
 
 ${analysisInstruction}
 
+**Source:** ${formatChunkLabel(chunk.provenance)}
+${overlapPart}
 **Source Document Chunk:**
 ---
-${documentChunk}
+${chunk.text}
 ---
 
 **Core Instructions:**
@@ -298,45 +599,65 @@ ${documentChunk}
 3.  Thoroughly scan the provided **Source Document Chunk**.
 4.  Extract and synthesize the relevant content.
 5.  Combine the extracted information into a single, cohesive output. Do not add any commentary, introductions, or meta-discussion. Your output should be ONLY the processed content.
+6.  The chunk may contain page markers such as \`[[Page 14]]\`; each applies to the text that follows it. Keep the marker next to every extracted point and quote, in the same \`[[Page N]]\` form, so later steps can cite exact pages. Never invent page markers.
     `;
 };
 
-const executePrompt = async (prompt: string, phaseId: string): Promise<any> => {
+const executePrompt = async (prompt: string, phaseId: string, stream?: StreamOptions): Promise<LlmResponse> => {
     const chat = chats[phaseId];
     if (!chat) {
         throw new Error(`Workflow has not been started for phase ${phaseId}. Call startPhase first.`);
     }
-    return await withRetry(() => chat.sendMessage({ message: prompt }));
+    return await scheduleRequest(chatModels[phaseId], () => chat.sendMessage(prompt, stream), {
+        estimatedTokens: estimateRequestTokens(prompt),
+        label: 'Model request',
+        signal: stream?.signal,
+        onLog: stream?.onLog,
+    });
 };
 
+const openChat = (phaseId: string, provider: LlmProvider, options: LlmRequestOptions) => {
+    chats[phaseId] = provider.startChat(options);
+    chatModels[phaseId] = options.model;
+};
 
-export const startGenerationPhase = async (config: Config, phaseId: string): Promise<{ userPrompt: string, response: any }> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
-  }
 
-  ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  const modelConfig: { tools?: any[] } = {};
-  
-  // Enable Google Search for both Supplemental (Active) and Full External (Deep) research modes
-  // AND ALWAYS for Citation Verification
-  if (config.Research_Requirement === ResearchRequirement.FULL_EXTERNAL_RESEARCH || 
-      config.Research_Requirement === ResearchRequirement.SUPPLEMENTAL_RESEARCH ||
-      config.Task_Type === TaskType.CITATION_VERIFICATION) {
-    modelConfig.tools = [{googleSearch: {}}];
-  }
+// Enable web search for both Supplemental (Active) and Full External (Deep) research modes
+// AND ALWAYS for Citation Verification
+const needsSearch = (config: Config): boolean =>
+    config.Research_Requirement === ResearchRequirement.FULL_EXTERNAL_RESEARCH ||
+    config.Research_Requirement === ResearchRequirement.SUPPLEMENTAL_RESEARCH ||
+    config.Task_Type === TaskType.CITATION_VERIFICATION;
+
+/**
+ * Identifies the opening request of a generation run: the prompt as sent, the provider, the model and
+ * its settings. A run whose key matches a completed run's would send the model the same request.
+ */
+export const computeGenerationRequestKey = (config: Config, overrides: ProtocolDefinition[], providerSettings?: ProviderSettings): Promise<string> => {
+    const providerId = providerSettings?.id ?? LlmProviderId.GEMINI;
+    const generation = getGenerationParams(config);
+    return hashRequestParts([
+        assemblePhasePrompt(config, 'generation', overrides).fullPrompt,
+        providerId,
+        providerSettings?.baseUrl ?? null,
+        config.Model_Id?.trim() || DEFAULT_MODELS[providerId].core,
+        needsSearch(config),
+        generation.temperature ?? null, generation.topP ?? null, generation.maxOutputTokens ?? null, generation.thinkingBudget ?? null,
+    ]);
+};
+
+export const startGenerationPhase = async (config: Config, overrides: ProtocolDefinition[], phaseId: string, providerSettings?: ProviderSettings, stream?: StreamOptions): Promise<{ userPrompt: string, response: LlmResponse }> => {
+  const provider = getProvider(providerSettings);
 
-  chats[phaseId] = ai.chats.create({
-    model: 'gemini-3.1-pro-preview',
-    config: modelConfig,
+  openChat(phaseId, provider, {
+    model: config.Model_Id?.trim() || provider.defaultModels.core,
+    enableSearch: needsSearch(config),
+    generation: getGenerationParams(config),
   });
 
-  const configYaml = buildConfigYaml(config, 'generation');
-  const relevantProtocols = config.Task_Type ? getRelevantProtocol(config.Task_Type) : WORKFLOW_PROTOCOLS;
-  const fullPrompt = `${MASTER_PROMPT}\n${configYaml}\n${relevantProtocols}\n${UNIVERSAL_OVERRIDE_INSTRUCTION}`;
+  const { configYaml, fullPrompt } = assemblePhasePrompt(config, 'generation', overrides);
 
-  const response = await executePrompt(fullPrompt, phaseId);
+  const response = await executePrompt(fullPrompt, phaseId, stream);
   
   return {
     userPrompt: configYaml,
@@ -344,40 +665,45 @@ export const startGenerationPhase = async (config: Config, phaseId: string): Pro
   };
 };
 
-export const executeReviewPhase = async (config: Config, phaseId: string): Promise<{ userPrompt: string, response: any }> => {
-    if (!process.env.API_KEY) throw new Error("API_KEY environment variable not set");
-    
-    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    chats[phaseId] = ai.chats.create({ model: 'gemini-3.1-pro-preview' });
+export const executeReviewPhase = async (config: Config, overrides: ProtocolDefinition[], phaseId: string, providerSettings?: ProviderSettings, stream?: StreamOptions): Promise<{ userPrompt: string, response: LlmResponse }> => {
+    const provider = getProvider(providerSettings);
+    openChat(phaseId, provider, { model: config.Model_Id?.trim() || provider.defaultModels.core, generation: getGenerationParams(config) });
 
-    const configYaml = buildConfigYaml(config, 'review');
-    const relevantProtocols = getRelevantProtocol("RED_TEAM_REVIEW");
-    const fullPrompt = `${MASTER_PROMPT}\n${configYaml}\n${relevantProtocols}\n${UNIVERSAL_OVERRIDE_INSTRUCTION}`;
-    const response = await executePrompt(fullPrompt, phaseId);
+    const { configYaml, fullPrompt } = assemblePhasePrompt(config, 'review', overrides);
+    const response = await executePrompt(fullPrompt, phaseId, stream);
     return { userPrompt: configYaml, response };
 };
 
-export const executeSynthesisPhase = async (config: Config, phaseId: string): Promise<{ userPrompt: string, response: any }> => {
-    if (!process.env.API_KEY) throw new Error("API_KEY environment variable not set");
-    
+export const executeSynthesisPhase = async (config: Config, overrides: ProtocolDefinition[], phaseId: string, providerSettings?: ProviderSettings, stream?: StreamOptions): Promise<{ userPrompt: string, response: LlmResponse }> => {
     // Always create a fresh instance and chat for the Synthesis phase to ensure clean context
     // and support the multi-step sequential protocol correctly.
-    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    chats[phaseId] = ai.chats.create({ model: 'gemini-3.1-pro-preview' });
+    const provider = getProvider(providerSettings);
+    openChat(phaseId, provider, { model: config.Model_Id?.trim() || provider.defaultModels.core, generation: getGenerationParams(config) });
 
-    const configYaml = buildConfigYaml(config, 'synthesis');
-    const relevantProtocols = getRelevantProtocol("FINAL_SYNTHESIS");
-    const fullPrompt = `${MASTER_PROMPT}\n${configYaml}\n${relevantProtocols}\n${UNIVERSAL_OVERRIDE_INSTRUCTION}`;
-    const response = await executePrompt(fullPrompt, phaseId);
+    const { configYaml, fullPrompt } = assemblePhasePrompt(config, 'synthesis', overrides);
+    const response = await executePrompt(fullPrompt, phaseId, stream);
     return { userPrompt: configYaml, response };
 };
 
-export const continueWorkflow = async (userMessage: string, phaseId: string): Promise<any> => {
-  const chat = chats[phaseId];
-  if (!chat) {
-    throw new Error(`Workflow has not been started for phase ${phaseId}. Call startPhase first.`);
-  }
-  
+/**
+ * For section commands in Protocols B and G, appends the library passages that best match the
+ * requested outline entry (or the command itself), each under its source label. The opening prompt
+ * only carries the passages for the chapter as a whole, so this is how each section reaches the rest.
+ */
+export const withRetrievedPassages = (config: Config, message: string): { message: string; passageCount: number; query?: string } => {
+    if (!usesLibraryRetrieval(config)) return { message, passageCount: 0 };
+    const query = findOutlineSection(config.Chapter_Outline || '', message) || message;
+    const passages = retrievePassages(config, query, RETRIEVED_PASSAGES, RETRIEVED_PASSAGE_CHARS);
+    if (passages.length === 0) return { message, passageCount: 0 };
+
+    return {
+        message: `${message}\n\n**Retrieved Passages** (the library passages most relevant to this section; cite them by their source labels):\n---\n${formatPassages(passages)}\n---`,
+        passageCount: passages.length,
+        query,
+    };
+};
+
+export const continueWorkflow = async (userMessage: string, phaseId: string, stream?: StreamOptions): Promise<LlmResponse> => {
   // Continue with the existing text-based chat session for this phase
-  return await withRetry(() => chat.sendMessage({ message: userMessage }));
+  return await executePrompt(userMessage, phaseId, stream);
 };
@@ -0,0 +1,61 @@
+import { GroundingChunk, LlmProviderId, ProviderSettings, TokenUsage } from '../types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+
+// Provider-neutral shape of a model response. Adapters normalize their SDK/HTTP payloads into this.
+export interface LlmResponse {
+    text: string;
+    usage: TokenUsage;
+    groundingChunks?: GroundingChunk[];
+    searchQueries?: string[];
+    stopped?: boolean; // The stream was aborted; `text` holds the partial output
+    blocked?: string; // Reason the provider's safety or content filter refused to answer
+}
+
+export interface StreamOptions {
+    onText: (accumulatedText: string) => void;
+    signal?: AbortSignal;
+    onLog?: (message: string) => void; // Queueing and retry notices for the node log
+}
+
+// Adapters attach the HTTP status and any server retry hint so the scheduler need not parse messages
+export interface LlmRequestError extends Error {
+    status?: number;
+    retryAfterMs?: number;
+}
+
+export interface LlmChatSession {
+    // Streams when `stream` is given; an aborted stream resolves with the partial text instead of throwing
+    sendMessage: (message: string, stream?: StreamOptions) => Promise<LlmResponse>;
+}
+
+export interface GenerationParams {
+    temperature?: number;
+    topP?: number;
+    maxOutputTokens?: number;
+    thinkingBudget?: number; // Ignored by providers without a thinking budget
+}
+
+export interface LlmRequestOptions {
+    model: string;
+    enableSearch?: boolean; // Ignored by providers without a search tool
+    generation?: GenerationParams;
+}
+
+export interface LlmProvider {
+    id: LlmProviderId;
+    defaultModels: { core: string; extraction: string };
+    startChat: (options: LlmRequestOptions) => LlmChatSession;
+    // Unlike a stream, an aborted `generate` call rejects
+    generate: (prompt: string, options: LlmRequestOptions, signal?: AbortSignal) => Promise<LlmResponse>;
+}
+
+export const getProvider = (settings?: ProviderSettings): LlmProvider => {
+    switch (settings?.id) {
+        case LlmProviderId.OPENAI_COMPATIBLE:
+            return createOpenAiCompatibleProvider(settings);
+        case LlmProviderId.GEMINI:
+        default:
+            return createGeminiProvider();
+    }
+};
@@ -0,0 +1,130 @@
+import { LlmProviderId, ProviderSettings } from '../types';
+import { DEFAULT_MODELS } from '../constants';
+import { LlmProvider, LlmResponse, LlmRequestOptions, LlmRequestError, StreamOptions } from './llmProvider';
+
+// Covers the OpenAI API as well as local servers exposing the same /chat/completions route (llama.cpp, Ollama, vLLM).
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+interface ChatCompletionMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+const normalizeUsage = (usage: any) => ({
+    promptTokens: usage?.prompt_tokens || 0,
+    responseTokens: usage?.completion_tokens || 0,
+    totalTokens: usage?.total_tokens || 0
+});
+
+// Reads a server-sent-events body of chat.completion.chunk objects until [DONE] or abort
+const readStream = async (res: Response, stream: StreamOptions): Promise<LlmResponse> => {
+    let text = '';
+    let usage = normalizeUsage(null);
+    let buffer = '';
+
+    try {
+        const reader = res.body!.getReader();
+        const decoder = new TextDecoder();
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+
+            for (const line of lines) {
+                const payload = line.replace(/^data:\s*/, '').trim();
+                if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+                const chunk = JSON.parse(payload);
+                const delta = chunk.choices?.[0]?.delta?.content;
+                if (delta) {
+                    text += delta;
+                    stream.onText(text);
+                }
+                if (chunk.usage) usage = normalizeUsage(chunk.usage);
+            }
+        }
+    } catch (error) {
+        if (!stream.signal?.aborted) throw error;
+    }
+
+    return { text, usage, stopped: !!stream.signal?.aborted };
+};
+
+// Retry-After is either seconds or an HTTP date; OpenAI also sends a millisecond variant
+const parseRetryAfter = (headers: Headers): number | undefined => {
+    const ms = Number(headers.get('retry-after-ms'));
+    if (ms > 0) return ms;
+    const value = headers.get('retry-after');
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const requestCompletion = async (baseUrl: string, messages: ChatCompletionMessage[], options: LlmRequestOptions, stream?: StreamOptions, signal = stream?.signal): Promise<LlmResponse> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Local servers usually run without a key, so it is optional here
+    if (process.env.OPENAI_API_KEY) {
+        headers['Authorization'] = `Bearer ${process.env.OPENAI_API_KEY}`;
+    }
+
+    let res: Response;
+    try {
+        res = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers,
+            signal,
+            body: JSON.stringify({
+                model: options.model,
+                messages,
+                temperature: options.generation?.temperature,
+                top_p: options.generation?.topP,
+                max_tokens: options.generation?.maxOutputTokens,
+                ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+            }),
+        });
+    } catch (error) {
+        if (stream?.signal?.aborted) return { text: '', usage: normalizeUsage(null), stopped: true };
+        throw error;
+    }
+
+    if (!res.ok) {
+        const body = await res.text().catch(() => '');
+        const error: LlmRequestError = new Error(`OpenAI-compatible request failed with status ${res.status}: ${body.slice(0, 500)}`);
+        error.status = res.status;
+        error.retryAfterMs = parseRetryAfter(res.headers);
+        throw error;
+    }
+
+    if (stream) return readStream(res, stream);
+
+    const data = await res.json();
+    return {
+        text: data.choices?.[0]?.message?.content ?? '',
+        usage: normalizeUsage(data.usage),
+        blocked: data.choices?.[0]?.finish_reason === 'content_filter' ? 'content_filter' : undefined
+    };
+};
+
+export const createOpenAiCompatibleProvider = (settings: ProviderSettings): LlmProvider => {
+    const baseUrl = settings.baseUrl || process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL;
+
+    return {
+        id: LlmProviderId.OPENAI_COMPATIBLE,
+        defaultModels: DEFAULT_MODELS[LlmProviderId.OPENAI_COMPATIBLE],
+        startChat: (options) => {
+            // The HTTP API is stateless, so the session keeps the transcript itself
+            const history: ChatCompletionMessage[] = [];
+            return {
+                sendMessage: async (message, stream) => {
+                    const response = await requestCompletion(baseUrl, [...history, { role: 'user', content: message }], options, stream);
+                    history.push({ role: 'user', content: message }, { role: 'assistant', content: response.text });
+                    return response;
+                }
+            };
+        },
+        generate: (prompt, options, signal) => requestCompletion(baseUrl, [{ role: 'user', content: prompt }], options, undefined, signal)
+    };
+};
@@ -0,0 +1,117 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ProjectMeta, ProjectData, WorkflowNode, NodeExecutionState, WorkflowState } from '../types';
+import { withStore, withTransaction, STORES } from '../utils/indexedDb';
+import { reviveExecutionStates } from '../utils/workflowFile';
+
+// Pre-IndexedDB autosave slot; migrated into a project on first load, then removed
+const LEGACY_STORAGE_KEY = 'universal_academic_workflow_nodes_v1';
+// Only the id lives in localStorage so the last open project survives a reload
+const ACTIVE_PROJECT_KEY = 'universal_academic_workflow_active_project';
+
+export const DEFAULT_PROJECT_NAME = 'Untitled Project';
+
+type ProjectContent = Omit<ProjectData, 'id'>;
+
+const EMPTY_CONTENT: ProjectContent = { nodes: [], edges: [], executionStates: {} };
+
+export const getLastOpenedProjectId = (): string | null => localStorage.getItem(ACTIVE_PROJECT_KEY);
+
+export const rememberOpenedProject = (id: string) => localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+
+export const listProjects = async (): Promise<ProjectMeta[]> => {
+    const projects = await withStore<ProjectMeta[]>(STORES.PROJECTS, 'readonly', store => store.getAll());
+    return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// A project saved mid-run comes back with no run behind its 'running' nodes. Nodes paused for a user
+// command stay 'running' (that is how awaiting is shown); anything else was interrupted and returns to idle.
+const settleInterruptedRuns = (nodes: WorkflowNode[], executionStates: Record<string, NodeExecutionState>): WorkflowNode[] =>
+    nodes.map(node => {
+        if (node.status !== 'running') return node;
+        const state = executionStates[node.id];
+        if (state?.workflowState === WorkflowState.AWAITING_USER_ACTION) return node;
+        if (state && (state.workflowState === WorkflowState.PROCESSING || state.workflowState === WorkflowState.PRE_PROCESSING)) {
+            state.workflowState = WorkflowState.CANCELLED;
+            state.logs = [...(state.logs || []), 'Interrupted: the app was closed while this node was running.'];
+        }
+        return { ...node, status: 'idle' };
+    });
+
+export const loadProject = async (id: string): Promise<ProjectData | null> => {
+    const data = await withStore<ProjectData | undefined>(STORES.PROJECT_DATA, 'readonly', store => store.get(id));
+    if (!data) return null;
+    // Structured clone keeps Dates, but a reload can still leave a stream mid-flight
+    const executionStates = reviveExecutionStates(data.executionStates || {});
+    return { ...data, nodes: settleInterruptedRuns(data.nodes || [], executionStates), executionStates };
+};
+
+const writeProject = (meta: ProjectMeta, content: ProjectContent) =>
+    withTransaction([STORES.PROJECTS, STORES.PROJECT_DATA], tx => {
+        tx.objectStore(STORES.PROJECTS).put(meta);
+        tx.objectStore(STORES.PROJECT_DATA).put({ id: meta.id, ...content });
+    });
+
+export const createProject = async (name: string, content: ProjectContent = EMPTY_CONTENT): Promise<ProjectMeta> => {
+    const now = Date.now();
+    const meta: ProjectMeta = { id: uuidv4(), name, createdAt: now, updatedAt: now };
+    await writeProject(meta, content);
+    return meta;
+};
+
+// Autosave path. Writes nothing if the project was deleted meanwhile, so a late debounce cannot resurrect it.
+export const saveProject = async (id: string, content: ProjectContent): Promise<void> => {
+    await withTransaction([STORES.PROJECTS, STORES.PROJECT_DATA], tx => {
+        const metaStore = tx.objectStore(STORES.PROJECTS);
+        const request = metaStore.get(id);
+        request.onsuccess = () => {
+            const meta: ProjectMeta | undefined = request.result;
+            if (!meta) return;
+            metaStore.put({ ...meta, updatedAt: Date.now() });
+            tx.objectStore(STORES.PROJECT_DATA).put({ id, ...content });
+        };
+    });
+};
+
+export const renameProject = async (meta: ProjectMeta, name: string): Promise<ProjectMeta> => {
+    const updated = { ...meta, name, updatedAt: Date.now() };
+    await withStore(STORES.PROJECTS, 'readwrite', store => store.put(updated));
+    return updated;
+};
+
+export const duplicateProject = async (meta: ProjectMeta): Promise<ProjectMeta> => {
+    const data = await loadProject(meta.id);
+    const { id, ...content } = data || { id: meta.id, ...EMPTY_CONTENT };
+    return createProject(`${meta.name} (Copy)`, content);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+    await withTransaction([STORES.PROJECTS, STORES.PROJECT_DATA], tx => {
+        tx.objectStore(STORES.PROJECTS).delete(id);
+        tx.objectStore(STORES.PROJECT_DATA).delete(id);
+    });
+};
+
+/**
+ * Moves the old single-slot localStorage autosave into its own project.
+ * The legacy key is only removed once the project has been written.
+ */
+export const migrateLegacyProject = async (): Promise<ProjectMeta | null> => {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!saved) return null;
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(saved);
+    } catch (e) {
+        console.error("Legacy project data is unreadable; leaving it in place", e);
+        return null;
+    }
+
+    const meta = await createProject('Migrated Project', {
+        nodes: parsed.nodes || [],
+        edges: parsed.edges || [],
+        executionStates: reviveExecutionStates(parsed.executionStates || {})
+    });
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return meta;
+};
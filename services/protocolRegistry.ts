@@ -0,0 +1,47 @@
+import { Config, ProtocolDefinition, TaskType } from '../types';
+import { BUILT_IN_PROTOCOLS, PROTOCOLS_PREAMBLE, PROTOCOLS_EXECUTION } from '../constants';
+
+export const getBuiltInProtocol = (taskType: TaskType): ProtocolDefinition | undefined =>
+    BUILT_IN_PROTOCOLS.find(p => p.taskType === taskType);
+
+/** The protocol a node of `taskType` runs: the project's override if there is one, else the built-in. */
+export const resolveProtocol = (taskType: TaskType, overrides: ProtocolDefinition[]): ProtocolDefinition | undefined =>
+    overrides.find(p => p.taskType === taskType) || getBuiltInProtocol(taskType);
+
+// Starts a project override from a built-in; the copy remembers which built-in version it came from
+export const forkProtocol = (protocol: ProtocolDefinition): ProtocolDefinition => ({
+    id: protocol.id,
+    name: protocol.name,
+    taskType: protocol.taskType,
+    version: 1,
+    body: protocol.body.trim(),
+    stopPhrases: [...protocol.stopPhrases],
+    requiredInputs: [...protocol.requiredInputs],
+    basedOn: protocol.version,
+    updatedAt: Date.now(),
+});
+
+const formatProtocol = (protocol: ProtocolDefinition) => `### ${protocol.name}\n${protocol.body.trim()}`;
+
+/**
+ * The protocols section of the prompt. A known task type sends only its protocol; otherwise every
+ * protocol is listed, with the execution steps that ask the model to pick one.
+ */
+export const composeProtocolPrompt = (taskType: TaskType | "" | undefined, overrides: ProtocolDefinition[]): string => {
+    const protocol = taskType ? resolveProtocol(taskType, overrides) : undefined;
+    if (protocol) {
+        const header = PROTOCOLS_PREAMBLE.replace("select the **one** matching protocol to execute", "execute the following protocol");
+        return `${header.trim()}\n-----\n${formatProtocol(protocol)}`;
+    }
+    const all = BUILT_IN_PROTOCOLS.map(builtIn => formatProtocol(resolveProtocol(builtIn.taskType, overrides) || builtIn));
+    return `${[PROTOCOLS_PREAMBLE.trim(), ...all].join('\n\n-----\n\n')}\n\n${PROTOCOLS_EXECUTION.trim()}`;
+};
+
+export const getStopPhrases = (taskType: TaskType, overrides: ProtocolDefinition[]): string[] => resolveProtocol(taskType, overrides)?.stopPhrases || [];
+
+// Required inputs that are blank in `config`; empty file lists count as blank
+export const findMissingInputs = (protocol: ProtocolDefinition, config: Partial<Config>): string[] =>
+    protocol.requiredInputs.filter(key => {
+        const value = config[key];
+        return Array.isArray(value) ? value.length === 0 : !String(value ?? '').trim();
+    });
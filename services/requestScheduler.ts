@@ -0,0 +1,234 @@
+import { LlmRequestError } from './llmProvider';
+
+export interface RateLimit {
+    requestsPerMinute: number; // 0 means no limit
+    tokensPerMinute: number; // 0 means no limit; counts the estimate until the real usage is known
+    maxConcurrent: number;
+}
+
+export interface RateLimitSettings {
+    defaults: RateLimit; // Applies to every model without its own entry
+    models: Record<string, RateLimit>;
+}
+
+export const DEFAULT_RATE_LIMIT_SETTINGS: RateLimitSettings = {
+    defaults: { requestsPerMinute: 0, tokensPerMinute: 0, maxConcurrent: 3 },
+    models: {},
+};
+const RATE_LIMITS_KEY = 'universal_academic_workflow_rate_limits_v1';
+
+const sanitizeLimit = (saved: any, fallback: RateLimit): RateLimit => ({
+    requestsPerMinute: saved?.requestsPerMinute >= 0 ? Math.floor(saved.requestsPerMinute) : fallback.requestsPerMinute,
+    tokensPerMinute: saved?.tokensPerMinute >= 0 ? Math.floor(saved.tokensPerMinute) : fallback.tokensPerMinute,
+    maxConcurrent: saved?.maxConcurrent >= 1 ? Math.floor(saved.maxConcurrent) : fallback.maxConcurrent,
+});
+
+export const getRateLimitSettings = (): RateLimitSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(RATE_LIMITS_KEY) || '{}');
+        const defaults = sanitizeLimit(saved.defaults, DEFAULT_RATE_LIMIT_SETTINGS.defaults);
+        const models: Record<string, RateLimit> = {};
+        Object.entries(saved.models || {}).forEach(([model, limit]) => {
+            if (model.trim()) models[model.trim()] = sanitizeLimit(limit, defaults);
+        });
+        return { defaults, models };
+    } catch {
+        return DEFAULT_RATE_LIMIT_SETTINGS;
+    }
+};
+
+export const saveRateLimitSettings = (settings: RateLimitSettings) => {
+    localStorage.setItem(RATE_LIMITS_KEY, JSON.stringify(settings));
+    // Requests already waiting re-check against the new limits
+    Object.keys(queues).forEach(pump);
+};
+
+const limitFor = (model: string): RateLimit => {
+    const settings = getRateLimitSettings();
+    return settings.models[model] || settings.defaults;
+};
+
+const WINDOW_MS = 60_000;
+const MAX_ATTEMPTS = 4;
+const INITIAL_BACKOFF_MS = 1000;
+// Waits shorter than this are normal pacing and stay out of the node log
+const LOGGED_WAIT_MS = 2000;
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+interface Dispatch {
+    at: number;
+    tokens: number;
+}
+
+interface Ticket {
+    tokens: number;
+    grant: (dispatch: Dispatch) => void;
+    cancel: () => void;
+}
+
+interface ModelQueue {
+    active: number;
+    waiting: Ticket[];
+    recent: Dispatch[]; // Requests sent within the last minute
+    pausedUntil: number; // Set from a 429's retry-after; holds every request for the model
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+// One queue per model, shared by every node and every file, so parallel runs respect the same limits
+const queues: Record<string, ModelQueue> = {};
+
+const queueFor = (model: string): ModelQueue => {
+    if (!queues[model]) queues[model] = { active: 0, waiting: [], recent: [], pausedUntil: 0 };
+    return queues[model];
+};
+
+// Milliseconds until a request of `tokens` fits the per-minute limits; 0 if it can go now
+const msUntilAllowed = (queue: ModelQueue, limit: RateLimit, tokens: number, now: number): number => {
+    let wait = Math.max(0, queue.pausedUntil - now);
+    if (limit.requestsPerMinute > 0 && queue.recent.length >= limit.requestsPerMinute) {
+        wait = Math.max(wait, queue.recent[queue.recent.length - limit.requestsPerMinute].at + WINDOW_MS - now);
+    }
+    if (limit.tokensPerMinute > 0) {
+        let used = queue.recent.reduce((sum, d) => sum + d.tokens, 0);
+        // A single request larger than the whole budget still goes once the window is empty
+        for (const d of queue.recent) {
+            if (used + tokens <= limit.tokensPerMinute) break;
+            used -= d.tokens;
+            wait = Math.max(wait, d.at + WINDOW_MS - now);
+        }
+    }
+    return wait;
+};
+
+const pump = (model: string) => {
+    const queue = queueFor(model);
+    if (queue.timer) clearTimeout(queue.timer);
+    queue.timer = undefined;
+    const limit = limitFor(model);
+    const now = Date.now();
+    queue.recent = queue.recent.filter(d => d.at > now - WINDOW_MS);
+
+    while (queue.waiting.length > 0 && queue.active < limit.maxConcurrent) {
+        const wait = msUntilAllowed(queue, limit, queue.waiting[0].tokens, now);
+        if (wait > 0) {
+            queue.timer = setTimeout(() => pump(model), wait);
+            return;
+        }
+        const ticket = queue.waiting.shift()!;
+        const dispatch = { at: now, tokens: ticket.tokens };
+        queue.active++;
+        queue.recent.push(dispatch);
+        ticket.grant(dispatch);
+    }
+};
+
+const createAbortError = () => new DOMException('The operation was cancelled.', 'AbortError');
+
+// Resolves once the request may be sent; the caller must `release` the slot when it settles
+const acquire = (model: string, tokens: number, signal?: AbortSignal): Promise<Dispatch> => new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const queue = queueFor(model);
+    const onAbort = () => ticket.cancel();
+    const ticket: Ticket = {
+        tokens,
+        grant: (dispatch) => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve(dispatch);
+        },
+        cancel: () => {
+            queue.waiting = queue.waiting.filter(t => t !== ticket);
+            reject(createAbortError());
+            pump(model);
+        },
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    queue.waiting.push(ticket);
+    pump(model);
+});
+
+const release = (model: string, dispatch: Dispatch, actualTokens?: number) => {
+    const queue = queueFor(model);
+    queue.active--;
+    // The estimate only held the budget until the provider reported real usage
+    if (actualTokens) dispatch.tokens = actualTokens;
+    pump(model);
+};
+
+const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// SDKs without a status field still put the code in the message
+const statusOf = (error: LlmRequestError): number | undefined => {
+    if (typeof error?.status === 'number') return error.status;
+    const match = typeof error?.message === 'string' ? /\b(408|429|500|502|503|504)\b/.exec(error.message) : null;
+    return match ? Number(match[1]) : undefined;
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+export interface ScheduleOptions {
+    estimatedTokens: number;
+    label: string; // Names the request in log lines, e.g. the chunk or phase
+    signal?: AbortSignal;
+    onLog?: (message: string) => void;
+    onRetry?: () => void; // Called before each retry, so callers can tell a recovered request from a clean one
+}
+
+/**
+ * Runs `request` through the model's queue: at most `maxConcurrent` in flight, and no more
+ * requests or tokens per minute than configured. Retryable failures are retried with backoff;
+ * a 429 honours the server's retry-after and pauses the whole queue for that model, since
+ * every other request would be refused as well.
+ */
+export const scheduleRequest = async <T extends { usage?: { totalTokens: number } }>(
+    model: string,
+    request: () => Promise<T>,
+    { estimatedTokens, label, signal, onLog, onRetry }: ScheduleOptions
+): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        const queuedAt = Date.now();
+        const ahead = queueFor(model).waiting.length;
+        const dispatch = await acquire(model, estimatedTokens, signal);
+        const waited = dispatch.at - queuedAt;
+        if (waited >= LOGGED_WAIT_MS) {
+            onLog?.(`${label}: waited ${formatSeconds(waited)} for ${model} (${ahead} request${ahead === 1 ? '' : 's'} ahead in queue).`);
+        }
+
+        let result: T;
+        try {
+            result = await request();
+        } catch (error) {
+            release(model, dispatch);
+            // SDKs report aborts with their own error types; normalize so callers only check for AbortError
+            if (signal?.aborted) throw createAbortError();
+            const status = statusOf(error as LlmRequestError);
+            if (attempt >= MAX_ATTEMPTS || status === undefined || !RETRYABLE_STATUSES.has(status)) {
+                console.error(`Request failed after ${attempt} attempts or with a non-retryable error.`, error);
+                throw error;
+            }
+            const hinted = (error as LlmRequestError).retryAfterMs;
+            const delay = hinted ?? INITIAL_BACKOFF_MS * (2 ** (attempt - 1)) + Math.random() * 1000;
+            if (status === 429) {
+                const queue = queueFor(model);
+                queue.pausedUntil = Math.max(queue.pausedUntil, Date.now() + delay);
+            }
+            onRetry?.();
+            onLog?.(`${label}: ${model} returned ${status}; retrying in ${formatSeconds(delay)}${hinted !== undefined ? ' as the server asked' : ''} (attempt ${attempt + 1} of ${MAX_ATTEMPTS}).`);
+            // A paused queue already holds the retry; other errors back off on their own
+            if (status !== 429) await abortableDelay(delay, signal);
+            continue;
+        }
+        release(model, dispatch, result.usage?.totalTokens);
+        return result;
+    }
+};
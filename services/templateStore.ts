@@ -0,0 +1,22 @@
+import { WorkflowTemplate } from '../types';
+import { BUILT_IN_TEMPLATES } from '../constants';
+import { withStore, STORES } from '../utils/indexedDb';
+
+// Built-ins first, then the user's own templates, newest first
+export const listTemplates = async (): Promise<WorkflowTemplate[]> => {
+    try {
+        const saved = await withStore<WorkflowTemplate[]>(STORES.TEMPLATES, 'readonly', store => store.getAll());
+        return [...BUILT_IN_TEMPLATES, ...saved.sort((a, b) => b.createdAt - a.createdAt)];
+    } catch (error) {
+        console.error('Failed to load saved templates', error);
+        return BUILT_IN_TEMPLATES;
+    }
+};
+
+export const saveTemplate = async (template: WorkflowTemplate): Promise<void> => {
+    await withStore(STORES.TEMPLATES, 'readwrite', store => store.put(template));
+};
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+    await withStore(STORES.TEMPLATES, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,162 @@
+import { Config, FileData, Phase, TaskType, TokenEstimate, AnalysisLevel, LlmProviderId, WorkflowNode, ProtocolDefinition } from '../types';
+import { DEFAULT_MODELS, MODEL_PRICING } from '../constants';
+import { assemblePhasePrompt, generateExtractionPrompt, getChunkOptions, usesLibraryRetrieval } from './geminiService';
+import { chunkDocument, ChunkOptions } from '../utils/textChunking';
+import { fnv1a } from '../utils/fileDeduplication';
+
+// Rough average for English academic prose; real tokenizers land within ~15% of this
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_WORD = 1.4;
+const DEFAULT_OUTPUT_WORDS = 3000;
+
+// Share of each chunk the extraction model writes back, by analysis depth
+const EXTRACTION_OUTPUT_RATIO: Record<AnalysisLevel, number> = {
+    [AnalysisLevel.HYPER_DEEP]: 0.25,
+    [AnalysisLevel.FOCUSED_BALANCE]: 0.12,
+    [AnalysisLevel.ECO_SCAN]: 0.05,
+};
+
+const SOURCE_B_EXTRACTION_TYPES = new Set<TaskType>([TaskType.ACADEMIC_NOTE_GENERATION, TaskType.CHAPTER_INFUSION, TaskType.CONTEXT_PROCESSING]);
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// Estimates rerun whenever the configurator re-renders, and chunking a whole library is slow, so each
+// file's chunk sizes are kept per content and chunk settings
+const CHUNK_SIZE_CACHE_LIMIT = 200;
+const chunkSizeCache = new Map<string, number[]>();
+
+// Tokens of each chunk as sent, text plus overlap, before the prompt around it
+const chunkTokenSizes = (file: FileData, chunkOptions: ChunkOptions): number[] => {
+    const key = `${file.name}:${file.content.length}:${fnv1a(file.content)}:${chunkOptions.maxChars}:${chunkOptions.overlapChars}`;
+    const cached = chunkSizeCache.get(key);
+    if (cached) return cached;
+    const sizes = chunkDocument(file.content, file.name, chunkOptions).map(chunk => estimateTokens(chunk.text + chunk.overlap));
+    chunkSizeCache.set(key, sizes);
+    if (chunkSizeCache.size > CHUNK_SIZE_CACHE_LIMIT) chunkSizeCache.delete(chunkSizeCache.keys().next().value!);
+    return sizes;
+};
+
+const parsePositiveInt = (value?: string): number | null => {
+    const n = parseInt(value || '', 10);
+    return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+const phaseForNode = (type: TaskType): Phase => {
+    if (type === TaskType.RED_TEAM_REVIEW) return 'review';
+    if (type === TaskType.FINAL_SYNTHESIS) return 'synthesis';
+    return 'generation';
+};
+
+// "8000-10000 words" plans for the upper bound
+const targetWordsFrom = (targetWordCount: string): number | null => {
+    const numbers = (targetWordCount.replace(/,/g, '').match(/\d+/g) || []).map(Number).filter(n => n > 0);
+    return numbers.length > 0 ? Math.max(...numbers) : null;
+};
+
+export const formatCost = (usd: number): string => usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+
+/**
+ * Predicts the tokens and cost of running a node with its effective (upstream-merged) config and the
+ * project's protocol overrides, following the same extraction conditions as a real run. Estimates only;
+ * the provider's reported usage after the run is authoritative.
+ */
+export const estimateNodeRun = (node: WorkflowNode, config: Config, overrides: ProtocolDefinition[]): TokenEstimate => {
+    const providerId = node.provider?.id ?? LlmProviderId.GEMINI;
+    const coreModel = config.Model_Id?.trim() || DEFAULT_MODELS[providerId].core;
+    const extractionModel = config.Extraction_Model_Id?.trim() || DEFAULT_MODELS[providerId].extraction;
+    const analysisLevel = config.Analysis_Level || AnalysisLevel.FOCUSED_BALANCE;
+    const phase = phaseForNode(node.type);
+    const warnings: string[] = [];
+
+    const chunkOptions = getChunkOptions(analysisLevel, config.Chunk_Overlap);
+    const emptyChunk = { text: '', overlap: '', provenance: { fileName: '', index: 1, total: 1 } };
+    const extractionPromptOverhead = estimateTokens(generateExtractionPrompt(emptyChunk, { contextText: config.Chapter_Title || '', instructions: config.Additional_Instructions }, analysisLevel));
+    let extractionChunks = 0;
+    let extractionInputTokens = 0;
+    let largestChunkTokens = 0;
+
+    const knowledgeBaseBudget = parsePositiveInt(config.Knowledge_Base_Budget);
+    let extractionOutputTokens = 0;
+
+    // Returns the size of the notes that reach the main prompt
+    const estimateExtraction = (files: FileData[]): number => {
+        let outputTokens = 0;
+        files.forEach(file => {
+            // Overlap is sent again with the next chunk, so it counts toward the input as well
+            const sizes = chunkTokenSizes(file, chunkOptions);
+            const contentTokens = estimateTokens(file.content);
+            extractionChunks += sizes.length;
+            sizes.forEach(size => {
+                const chunkTokens = size + extractionPromptOverhead;
+                extractionInputTokens += chunkTokens;
+                largestChunkTokens = Math.max(largestChunkTokens, chunkTokens);
+            });
+            outputTokens += Math.ceil(contentTokens * EXTRACTION_OUTPUT_RATIO[analysisLevel]);
+        });
+        extractionOutputTokens += outputTokens;
+        if (knowledgeBaseBudget && outputTokens > knowledgeBaseBudget) {
+            // The per-document merge reads every note and writes about twice the budget; the cross-document merge reads that and writes the budget
+            extractionInputTokens += outputTokens + 2 * knowledgeBaseBudget;
+            extractionOutputTokens += 3 * knowledgeBaseBudget;
+            return knowledgeBaseBudget;
+        }
+        return outputTokens;
+    };
+
+    // Extracted text lands in the config before the main call, so it counts toward the main prompt too
+    let extractedContentTokens = 0;
+    if (config.Core_Bibliography_Files?.length && !config.Core_Bibliography) {
+        extractedContentTokens += estimateExtraction(config.Core_Bibliography_Files);
+    }
+    if (SOURCE_B_EXTRACTION_TYPES.has(node.type) && config.Source_B_Files?.length) {
+        extractedContentTokens += estimateExtraction(config.Source_B_Files);
+    }
+
+    const promptConfig = phase === 'generation' ? config : { ...config, Draft_Chapter_Text: config.Draft_Chapter_Text || config.Final_Draft_For_Review };
+    // Protocols B and G send retrieved passages, already part of the assembled prompt, instead of the notes
+    const notesInPrompt = phase === 'generation' && usesLibraryRetrieval(config) ? 0 : extractedContentTokens;
+    const promptTokens = estimateTokens(assemblePhasePrompt(promptConfig, phase, overrides).fullPrompt) + notesInPrompt;
+
+    const targetWords = targetWordsFrom(config.Target_Word_Count || '');
+    let responseTokens: number;
+    if (targetWords) {
+        responseTokens = Math.ceil(targetWords * TOKENS_PER_WORD);
+    } else if (phase === 'synthesis' && promptConfig.Draft_Chapter_Text) {
+        // A synthesis rewrites the whole draft
+        responseTokens = estimateTokens(promptConfig.Draft_Chapter_Text);
+    } else {
+        responseTokens = Math.ceil(DEFAULT_OUTPUT_WORDS * TOKENS_PER_WORD);
+    }
+
+    const maxOutputTokens = parsePositiveInt(config.Max_Output_Tokens);
+    if (maxOutputTokens && responseTokens > maxOutputTokens) {
+        warnings.push(`The target length needs about ${responseTokens.toLocaleString()} output tokens, but Max Output Tokens is ${maxOutputTokens.toLocaleString()}; the response will be cut short.`);
+        responseTokens = maxOutputTokens;
+    }
+    const outputTokens = responseTokens + (parsePositiveInt(config.Thinking_Budget) ?? 0);
+
+    const totalTokens = extractionInputTokens + extractionOutputTokens + promptTokens + outputTokens;
+
+    const corePricing = MODEL_PRICING[coreModel];
+    const extractionPricing = MODEL_PRICING[extractionModel];
+    let cost: number | null = null;
+    if (corePricing && (extractionChunks === 0 || extractionPricing)) {
+        cost = (promptTokens * corePricing.input + outputTokens * corePricing.output) / 1_000_000;
+        if (extractionPricing) {
+            cost += (extractionInputTokens * extractionPricing.input + extractionOutputTokens * extractionPricing.output) / 1_000_000;
+        }
+    }
+
+    if (corePricing && promptTokens + outputTokens > corePricing.contextWindow) {
+        warnings.push(`The main prompt and response (~${(promptTokens + outputTokens).toLocaleString()} tokens) exceed ${coreModel}'s ${corePricing.contextWindow.toLocaleString()}-token context window.`);
+    }
+    if (extractionPricing && largestChunkTokens > extractionPricing.contextWindow) {
+        warnings.push(`An extraction chunk (~${largestChunkTokens.toLocaleString()} tokens) exceeds ${extractionModel}'s ${extractionPricing.contextWindow.toLocaleString()}-token context window.`);
+    }
+    const budget = parsePositiveInt(config.Token_Budget);
+    if (budget && totalTokens > budget) {
+        warnings.push(`The estimate of ${totalTokens.toLocaleString()} tokens is over this node's budget of ${budget.toLocaleString()}.`);
+    }
+
+    return { coreModel, extractionModel, extractionChunks, extractionInputTokens, extractionOutputTokens, promptTokens, outputTokens, totalTokens, cost, warnings };
+};
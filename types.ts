@@ -82,6 +82,7 @@ export enum AnalysisLevel {
 export interface FileData {
   name: string;
   content: string;
+  ocrPages?: string[]; // Labels of PDF pages whose text came from OCR rather than the text layer
 }
 
 export interface Config {
@@ -102,11 +103,24 @@ export interface Config {
   Book_File: string;
   Core_Bibliography: string; // The *content* of the bibliography files, once processed
   Core_Bibliography_Files?: FileData[]; // The actual file objects selected by the user
+  References?: Reference[]; // Imported from a reference manager; authoritative citation metadata
   Complementary_Files?: FileData[]; // For Phase 2: Red Team Review (or additional bib for direct starts)
   Chapter_Outline: string;
   Draft_Chapter_Text: string; // AI's internal representation of the draft
   Red_Team_Review_Text: string; // AI's internal representation of the review
   Final_Draft_For_Review: string; // User-editable staging area for the draft chapter
+
+  // Model selection & generation parameters. Blank values fall back to the provider defaults.
+  Model_Id?: string; // Main chat model for this node
+  Extraction_Model_Id?: string; // Model used for file extraction calls
+  Chunk_Overlap?: string; // Characters of the previous extraction chunk repeated as context; blank uses the analysis level's default
+  Knowledge_Base_Budget?: string; // Target tokens for extracted notes; when set, they are merged per document and across documents to fit
+  Max_Chunk_Failure_Percent?: string; // A run stops when more than this share of any file's chunks failed; blank uses the default
+  Temperature?: string;
+  Top_P?: string;
+  Max_Output_Tokens?: string;
+  Thinking_Budget?: string;
+  Token_Budget?: string; // Pre-run estimates above this many tokens are flagged
 }
 
 export interface WebGroundingSource {
@@ -135,7 +149,8 @@ export enum WorkflowState {
   PROCESSING = 'PROCESSING',
   AWAITING_USER_ACTION = 'AWAITING_USER_ACTION',
   COMPLETED = 'COMPLETED',
-  ERROR = 'ERROR'
+  ERROR = 'ERROR',
+  CANCELLED = 'CANCELLED'
 }
 
 // Types for Live Document Editor
@@ -154,6 +169,7 @@ export interface ChapterSection {
   activeVersionId: string; // which version is currently displayed/edited
   sourceMessageId?: string; // ID of the message this section was created from
   protocol?: string;
+  isPending?: boolean; // Receiving streamed output; dropped on completion unless the stream is stopped
 }
 
 export interface TokenUsage {
@@ -162,6 +178,154 @@ export interface TokenUsage {
   totalTokens: number;
 }
 
+// --- LLM PROVIDER TYPES ---
+
+export enum LlmProviderId {
+  GEMINI = "GEMINI",
+  OPENAI_COMPATIBLE = "OPENAI_COMPATIBLE"
+}
+
+export interface ProviderSettings {
+  id: LlmProviderId;
+  baseUrl?: string; // Only used by OpenAI-compatible servers (e.g. http://localhost:11434/v1 for Ollama)
+}
+
+// --- TOKEN ESTIMATE TYPES ---
+
+export interface TokenEstimate {
+  coreModel: string;
+  extractionModel: string;
+  extractionChunks: number; // Chunks sent to the extraction model; cached chunks are not discounted
+  extractionInputTokens: number;
+  extractionOutputTokens: number;
+  promptTokens: number; // Opening prompt of the main call, including extracted file content
+  outputTokens: number; // Expected response plus any thinking budget
+  totalTokens: number;
+  cost: number | null; // USD; null when either model has no known price
+  warnings: string[];
+}
+
+// --- REFERENCE TYPES ---
+
+export interface Reference {
+  id: string; // Citation key from the export, e.g. "smith2020"
+  type: string; // CSL type, e.g. "article-journal", "book", "chapter"
+  title: string;
+  authors: string[]; // "Family, Given" or an institutional name
+  editors?: string[];
+  year?: string;
+  containerTitle?: string; // Journal, or the book a chapter appears in
+  publisher?: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  doi?: string;
+  url?: string;
+  fileName?: string; // Uploaded full text on the same node
+}
+
+// --- EXTRACTION CACHE TYPES ---
+
+export interface ExtractionCacheEntry {
+  key: string; // SHA-256 of chunk text, analysis level, scope, model and generation settings
+  text: string;
+  usage: TokenUsage; // Cost of the original call, saved on every hit
+  fileName: string;
+  model: string;
+  analysisLevel: AnalysisLevel;
+  chunkLength: number;
+  createdAt: number;
+  hits: number;
+  lastHitAt?: number;
+}
+
+export interface ExtractionCacheStats {
+  hits: number;
+  misses: number;
+}
+
+// 'retried' succeeded after a transient error; 'blocked' was refused by the provider's safety filter
+export type ChunkStatus = 'ok' | 'retried' | 'failed' | 'blocked';
+
+export interface ChunkReport {
+  stage: 'Bibliography' | 'Source file'; // Which extraction of the run the chunk belongs to
+  fileName: string;
+  label: string; // File, part, section and pages, as sent to the extraction model
+  status: ChunkStatus;
+  detail?: string; // Error message or block reason
+}
+
+// --- PROJECT STORE TYPES ---
+
+export interface ProjectMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ProjectData {
+  id: string; // Same as the ProjectMeta id
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+  executionStates: Record<string, NodeExecutionState>;
+  protocolOverrides?: ProtocolDefinition[]; // At most one per task type; replaces the built-in protocol for this project
+}
+
+// --- PROTOCOL REGISTRY TYPES ---
+
+export interface ProtocolDefinition {
+  id: string; // Protocol letter, e.g. "B"; an override keeps the letter of the built-in it replaces
+  name: string; // Heading in the prompt, e.g. "Protocol B: CHAPTER_GENERATION"
+  taskType: TaskType;
+  version: number; // Built-ins bump it when their text changes; overrides on every save
+  body: string; // Markdown under the heading
+  stopPhrases: string[]; // Exact endings that mean the model is waiting for the user
+  requiredInputs: (keyof Config)[]; // A run logs a warning when any of these is empty
+  builtIn?: boolean;
+  basedOn?: number; // Built-in version an override was forked from
+  updatedAt?: number;
+}
+
+// --- WORKFLOW TEMPLATE TYPES ---
+
+export interface TemplateNode {
+  key: string; // Template-local id; replaced with a fresh uuid on instantiation
+  type: TaskType;
+  offset: { x: number; y: number }; // Relative to the insertion point
+  label?: string;
+  config: Partial<Config>; // String values may contain {{Placeholder}} tokens filled in on insertion
+  provider?: ProviderSettings;
+}
+
+export interface WorkflowTemplate {
+  id: string;
+  name: string;
+  description: string;
+  nodes: TemplateNode[];
+  edges: { source: string; target: string }[]; // TemplateNode keys
+  builtIn?: boolean;
+  createdAt: number;
+}
+
+// --- WORKFLOW FILE TYPES ---
+
+export interface WorkflowFileHeader {
+  format: 'universal-academic-workflow';
+  schemaVersion: number;
+  appVersion: string;
+  createdAt: string; // ISO timestamp
+  projectName?: string;
+}
+
+export interface WorkflowFile {
+  header: WorkflowFileHeader;
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+  executionStates: Record<string, NodeExecutionState>;
+  protocolOverrides?: ProtocolDefinition[];
+}
+
 // --- NODE ARCHITECTURE TYPES ---
 
 export interface WorkflowNode {
@@ -169,8 +333,9 @@ export interface WorkflowNode {
   type: TaskType;
   position: { x: number; y: number };
   config: Config;
-  status: 'idle' | 'running' | 'completed' | 'error';
+  status: 'idle' | 'running' | 'completed' | 'error' | 'cancelled' | 'skipped'; // 'skipped': a workflow run left it out
   label?: string;
+  provider?: ProviderSettings; // Defaults to Gemini when absent
 }
 
 export interface WorkflowEdge {
@@ -186,4 +351,7 @@ export interface NodeExecutionState {
   elapsedTime: number;
   logs: string[];
   tokenUsage: TokenUsage;
+  streamingMessageId?: string; // Assistant message currently receiving streamed tokens
+  chunkReports?: ChunkReport[]; // Outcome of every extraction chunk in the latest run
+  outputKey?: string; // Request behind the completed output; a rerun with the same key reuses it
 }
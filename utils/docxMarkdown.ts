@@ -0,0 +1,112 @@
+// Mammoth renders footnote references as <a href="#footnote-3">, the notes themselves as
+// <li id="footnote-3"> at the end, and a back-link <a href="#footnote-ref-3"> inside each note
+const NOTE_ID_PATTERN = /^(footnote|endnote)-(\d+)$/;
+
+// Endnotes get their own labels so they cannot collide with footnotes of the same number
+const noteLabel = (id: string): string | null => {
+    const match = NOTE_ID_PATTERN.exec(id);
+    if (!match) return null;
+    return match[1] === 'footnote' ? match[2] : `e${match[2]}`;
+};
+
+// Emphasis markers hug the text; surrounding spaces stay outside, or Markdown ignores the marker
+const wrapInline = (text: string, marker: string): string => {
+    const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!;
+    return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+};
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const elementChildren = (el: Element, tag: string) =>
+    Array.from(el.children).filter(child => child.localName.toLowerCase() === tag);
+
+const renderTable = (table: Element, render: (node: Node) => string): string => {
+    const sections = Array.from(table.children).filter(child => ['thead', 'tbody', 'tfoot'].includes(child.localName.toLowerCase()));
+    const rows = [...elementChildren(table, 'tr'), ...sections.flatMap(section => elementChildren(section, 'tr'))];
+    if (rows.length === 0) return '';
+    const cells = rows.map(row => Array.from(row.children)
+        .filter(cell => ['td', 'th'].includes(cell.localName.toLowerCase()))
+        .map(cell => collapseWhitespace(Array.from(cell.childNodes).map(render).join(' ')).replace(/\|/g, '\\|')));
+    const columns = Math.max(...cells.map(row => row.length));
+    const line = (row: string[]) => `| ${Array.from({ length: columns }, (_, i) => row[i] || '').join(' | ')} |`;
+    // Word tables rarely mark a header row; the first row is the usual header
+    return `\n\n${[line(cells[0]), line(Array(columns).fill('---')), ...cells.slice(1).map(line)].join('\n')}\n\n`;
+};
+
+/**
+ * Converts Mammoth's DOCX HTML to Markdown: headings, nested lists, tables, emphasis, links
+ * and footnotes (as `[^1]` references with `[^1]: ...` definitions at the end).
+ */
+export const docxHtmlToMarkdown = (html: string): string => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const notes: string[] = [];
+
+    const renderList = (list: Element, depth: number): string => {
+        const ordered = list.localName.toLowerCase() === 'ol';
+        return elementChildren(list, 'li').map((item, index) => {
+            let text = '';
+            let nested = '';
+            item.childNodes.forEach(child => {
+                const tag = child.nodeType === Node.ELEMENT_NODE ? (child as Element).localName.toLowerCase() : '';
+                if (tag === 'ul' || tag === 'ol') nested += `\n${renderList(child as Element, depth + 1)}`;
+                else text += render(child);
+            });
+            return `${'  '.repeat(depth)}${ordered ? `${index + 1}.` : '-'} ${collapseWhitespace(text)}${nested}`;
+        }).join('\n');
+    };
+
+    const render = (node: Node): string => {
+        if (node.nodeType === Node.TEXT_NODE) return (node.textContent || '').replace(/\s+/g, ' ');
+        if (node.nodeType !== Node.ELEMENT_NODE) return '';
+        const el = node as Element;
+        const tag = el.localName.toLowerCase();
+        const children = () => Array.from(el.childNodes).map(render).join('');
+
+        const heading = /^h([1-6])$/.exec(tag);
+        if (heading) return `\n\n${'#'.repeat(Number(heading[1]))} ${collapseWhitespace(children())}\n\n`;
+
+        switch (tag) {
+            case 'p': return `\n\n${children().trim()}\n\n`;
+            case 'br': return '\n';
+            case 'strong':
+            case 'b': return wrapInline(children(), '**');
+            case 'em':
+            case 'i': return wrapInline(children(), '*');
+            case 's':
+            case 'del': return wrapInline(children(), '~~');
+            case 'a': {
+                const href = el.getAttribute('href') || '';
+                const label = href.startsWith('#') ? noteLabel(href.slice(1)) : null;
+                if (label) return `[^${label}]`;
+                if (/^#(footnote|endnote)-ref-/.test(href)) return ''; // Back-link arrow inside a note
+                const text = children();
+                return /^(https?:|mailto:)/i.test(href) && text.trim() ? `[${text.trim()}](${href})` : text;
+            }
+            case 'img': {
+                const alt = el.getAttribute('alt')?.trim();
+                return alt ? `[Image: ${alt}]` : '';
+            }
+            case 'ul':
+            case 'ol': {
+                const items = elementChildren(el, 'li');
+                const noteLabels = items.map(item => noteLabel(item.id));
+                if (items.length > 0 && noteLabels.every(Boolean)) {
+                    items.forEach((item, i) => notes.push(`[^${noteLabels[i]}]: ${collapseWhitespace(render(item))}`));
+                    return '';
+                }
+                return `\n\n${renderList(el, 0)}\n\n`;
+            }
+            case 'li': return children(); // Only reached for footnote bodies
+            case 'table': return renderTable(el, render);
+            case 'blockquote': return `\n\n${children().trim().split('\n').map(line => `> ${line}`.trimEnd()).join('\n')}\n\n`;
+            default: return children();
+        }
+    };
+
+    const body = render(doc.body)
+        .replace(/ +$/gm, '')
+        .replace(/^ +(?=\S)(?!(?:-|\d+\.) )/gm, '') // Keeps the indentation of nested list items
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+    return notes.length > 0 ? `${body}\n\n${notes.join('\n')}` : body;
+};
@@ -0,0 +1,145 @@
+import { FileData } from '../types';
+import { PAGE_MARKER_PATTERN } from './fileParsing';
+
+export type DuplicateKind =
+    | 'exact' // Same text once layout, case and punctuation are ignored
+    | 'near' // Mostly the same text, e.g. a preprint and the published version
+    | 'name'; // Same file name, different text
+
+export interface DuplicateMatch {
+    file: FileData; // The incoming file
+    existing: FileData; // An already attached file, or an earlier file in the same batch
+    kind: DuplicateKind;
+    similarity: number; // Estimated share of shared passages, 0-1
+}
+
+export type DuplicateResolution =
+    | { action: 'keep-both'; name: string }
+    | { action: 'keep-existing' }
+    | { action: 'replace' };
+
+// Word 5-grams catch reworded sentences without matching on common phrases
+const SHINGLE_WORDS = 5;
+// Bottom-k sketch size; the similarity estimate is within a few percent at this size
+const SKETCH_SIZE = 256;
+const NEAR_DUPLICATE_SIMILARITY = 0.5;
+
+// Page markers, hyphenation and PDF layout differ between copies of the same text
+const normalizeForComparison = (text: string): string[] =>
+    text.replace(PAGE_MARKER_PATTERN, ' ').toLowerCase().normalize('NFKC').match(/[\p{L}\p{N}]+/gu) || [];
+
+// 32-bit FNV-1a: fast and evenly spread, for sketches and cache keys rather than integrity checks
+export const fnv1a = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+interface Fingerprint {
+    hash: string;
+    empty: boolean; // No readable text, e.g. a failed or blank parse
+    sketch: number[]; // Smallest shingle hashes, ascending
+}
+
+const fingerprint = async (text: string): Promise<Fingerprint> => {
+    const words = normalizeForComparison(text);
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(words.join(' ')));
+    const hash = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+    const shingles = new Set<number>();
+    for (let i = 0; i + SHINGLE_WORDS <= Math.max(words.length, SHINGLE_WORDS); i++) {
+        shingles.add(fnv1a(words.slice(i, i + SHINGLE_WORDS).join(' ')));
+    }
+    const sketch = Array.from(shingles).sort((a, b) => a - b).slice(0, SKETCH_SIZE);
+    return { hash, sketch, empty: words.length === 0 };
+};
+
+// Jaccard estimate from two bottom-k sketches: the share of the k smallest hashes of the union found in both
+const estimateSimilarity = (a: number[], b: number[]): number => {
+    const setA = new Set(a);
+    const setB = new Set(b);
+    const union = Array.from(new Set([...a, ...b])).sort((x, y) => x - y).slice(0, SKETCH_SIZE);
+    if (union.length === 0) return 0;
+    return union.filter(h => setA.has(h) && setB.has(h)).length / union.length;
+};
+
+/**
+ * Compares incoming files with the attached ones and with each other. Each incoming file
+ * gets at most one match, the strongest: exact content, then near duplicate, then a bare
+ * name clash.
+ */
+export const findDuplicateFiles = async (incoming: FileData[], existing: FileData[]): Promise<DuplicateMatch[]> => {
+    const fingerprints = new Map<FileData, Fingerprint>();
+    for (const file of [...existing, ...incoming]) {
+        fingerprints.set(file, await fingerprint(file.content));
+    }
+
+    const matches: DuplicateMatch[] = [];
+    incoming.forEach((file, index) => {
+        const candidates = [...existing, ...incoming.slice(0, index)];
+        const own = fingerprints.get(file)!;
+        let best: DuplicateMatch | null = null;
+        for (const other of candidates) {
+            const theirs = fingerprints.get(other)!;
+            // Files without text share a hash and sketch but say nothing about each other's content
+            if (own.empty || theirs.empty) {
+                if (!best && other.name === file.name) best = { file, existing: other, kind: 'name', similarity: 0 };
+                continue;
+            }
+            if (theirs.hash === own.hash) {
+                best = { file, existing: other, kind: 'exact', similarity: 1 };
+                break;
+            }
+            const similarity = estimateSimilarity(own.sketch, theirs.sketch);
+            if (similarity >= NEAR_DUPLICATE_SIMILARITY && (!best || best.kind === 'name' || similarity > best.similarity)) {
+                best = { file, existing: other, kind: 'near', similarity };
+            } else if (!best && other.name === file.name) {
+                best = { file, existing: other, kind: 'name', similarity };
+            }
+        }
+        if (best) matches.push(best);
+    });
+    return matches;
+};
+
+// "Smith 2020.pdf" -> "Smith 2020 (2).pdf", skipping names already taken
+export const suggestUniqueName = (name: string, taken: Set<string>): string => {
+    const dot = name.lastIndexOf('.');
+    const base = dot > 0 ? name.slice(0, dot) : name;
+    const ext = dot > 0 ? name.slice(dot) : '';
+    let n = 2;
+    while (taken.has(`${base} (${n})${ext}`)) n++;
+    return `${base} (${n})${ext}`;
+};
+
+/**
+ * Applies the user's choices to a batch. Files without a match are appended as they are;
+ * `replace` swaps the incoming file into the existing file's place in the list.
+ */
+export const applyDuplicateResolutions = (
+    existing: FileData[],
+    incoming: FileData[],
+    matches: DuplicateMatch[],
+    resolutions: Map<FileData, DuplicateResolution>
+): FileData[] => {
+    let result = [...existing];
+    incoming.forEach(file => {
+        const match = matches.find(m => m.file === file);
+        const resolution = resolutions.get(file);
+        if (!match || !resolution) {
+            result.push(file);
+            return;
+        }
+        if (resolution.action === 'keep-both') {
+            result.push({ ...file, name: resolution.name });
+        } else if (resolution.action === 'replace') {
+            const index = result.indexOf(match.existing);
+            if (index === -1) result.push(file);
+            else result = [...result.slice(0, index), file, ...result.slice(index + 1)];
+        }
+    });
+    return result;
+};
@@ -1,64 +1,364 @@
 
 import { FileData } from '../types';
+import { cleanPdfPages, PdfPageText, PdfTextItem } from './pdfCleanup';
+import { createOcrEngine, OcrEngine } from './ocr';
+import { parseInWorker, WorkerPdfPage } from './parseWorkerPool';
+import { docxHtmlToMarkdown } from './docxMarkdown';
 
 declare const pdfjsLib: any;
-declare const mammoth: any;
+declare const JSZip: any;
 
-export const parseUploadedFiles = async (files: FileList): Promise<{ parsedFiles: FileData[], errors: string[] }> => {
-    const parsedFiles: FileData[] = [];
+type FileFormat = 'pdf' | 'docx' | 'epub' | 'odt' | 'html' | 'markdown' | 'text';
+
+const FORMAT_EXTENSIONS: Record<FileFormat, string[]> = {
+    pdf: ['.pdf'],
+    docx: ['.docx'],
+    epub: ['.epub'],
+    odt: ['.odt'],
+    html: ['.html', '.htm', '.xhtml'],
+    markdown: ['.md', '.markdown'],
+    text: ['.txt'],
+};
+
+// For the `accept` attribute of file inputs
+export const ACCEPTED_FILE_EXTENSIONS = Object.values(FORMAT_EXTENSIONS).flat().join(',');
+export const ACCEPTED_FILE_LABEL = 'PDF, DOCX, EPUB, ODT, HTML, Markdown or TXT';
+
+const detectFormat = (file: File): FileFormat | null => {
+    if (file.type === 'application/pdf') return 'pdf';
+    if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') return 'docx';
+    if (file.type === 'application/epub+zip') return 'epub';
+    if (file.type === 'application/vnd.oasis.opendocument.text') return 'odt';
+    const name = file.name.toLowerCase();
+    const match = (Object.keys(FORMAT_EXTENSIONS) as FileFormat[]).find(format => FORMAT_EXTENSIONS[format].some(ext => name.endsWith(ext)));
+    return match ?? null;
+};
+
+// Marks where each PDF page starts, using the printed page label when the PDF has one.
+// Kept in the text through chunking and extraction so generated chapters can cite pages.
+export const PAGE_MARKER_PATTERN = /\[\[Page ([^\]]+)\]\]/g;
+export const formatPageMarker = (label: string) => `[[Page ${label}]]`;
+
+// Collapses the blank lines left behind by markup so paragraphs are separated by exactly one empty line
+const normalizeText = (text: string): string =>
+    text.replace(/\r\n?/g, '\n').replace(/^\uFEFF/, '').replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+const SKIPPED_HTML_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'nav', 'svg']);
+const BLOCK_HTML_TAGS = new Set(['p', 'div', 'section', 'article', 'header', 'footer', 'aside', 'blockquote', 'pre', 'figure', 'figcaption', 'table', 'tr', 'ul', 'ol', 'dl', 'dt', 'dd', 'main', 'body']);
+
+/**
+ * Converts an HTML/XHTML tree to plain text, keeping headings as Markdown `#` lines so the
+ * document's section boundaries survive extraction and chunking.
+ */
+const htmlNodeToText = (root: Node): string => {
+    let out = '';
+    const walk = (node: Node) => {
+        if (node.nodeType === Node.TEXT_NODE) {
+            out += (node.textContent || '').replace(/\s+/g, ' ');
+            return;
+        }
+        if (node.nodeType !== Node.ELEMENT_NODE) return;
+        const tag = (node as Element).localName.toLowerCase();
+        if (SKIPPED_HTML_TAGS.has(tag)) return;
+
+        const heading = /^h([1-6])$/.exec(tag);
+        if (heading) {
+            out += `\n\n${'#'.repeat(Number(heading[1]))} ${(node.textContent || '').replace(/\s+/g, ' ').trim()}\n\n`;
+            return;
+        }
+        if (tag === 'br') { out += '\n'; return; }
+        if (tag === 'li') {
+            // Render the item on its own, then indent continuation lines so nested lists stay nested
+            const before = out;
+            out = '';
+            node.childNodes.forEach(walk);
+            out = `${before}\n- ${normalizeText(out.replace(/^ +| +$/gm, '')).replace(/\n+/g, '\n  ')}\n`;
+            return;
+        }
+        if (tag === 'td' || tag === 'th') out += ' | ';
+        else if (BLOCK_HTML_TAGS.has(tag)) out += '\n\n';
+
+        node.childNodes.forEach(walk);
+
+        if (BLOCK_HTML_TAGS.has(tag)) out += '\n\n';
+    };
+    walk(root);
+    return normalizeText(out.replace(/^ +| +$/gm, ''));
+};
+
+const parseMarkup = (markup: string, type: DOMParserSupportedType): Document => {
+    const doc = new DOMParser().parseFromString(markup, type);
+    // XHTML from real-world EPUBs is often not well-formed; the HTML parser is forgiving
+    if (type !== 'text/html' && doc.getElementsByTagName('parsererror').length > 0) {
+        return new DOMParser().parseFromString(markup, 'text/html');
+    }
+    return doc;
+};
+
+const parseHtml = (markup: string): string => {
+    const doc = parseMarkup(markup, 'text/html');
+    return htmlNodeToText(doc.body || doc.documentElement);
+};
+
+// OCR output has no positions; one item per line keeps the line breaks through cleanup
+const ocrTextToItems = (text: string): PdfTextItem[] =>
+    text.split('\n').filter(line => line.trim()).map((line, i) => ({ str: line, x: 0, y: -i * 20, width: 0 }));
+
+/**
+ * Turns the worker's raw PDF pages into text. Scanned pages are rendered and OCR'd here, since
+ * rendering needs a canvas, and cleanup runs once every page has text.
+ */
+const finishPdf = async (file: File, pages: WorkerPdfPage[], getOcrEngine: () => Promise<OcrEngine>, { onProgress, signal }: ParseOptions): Promise<{ text: string; ocrPages: string[] }> => {
+    const scanned = pages.map((page, index) => ({ page, index })).filter(({ page }) => page.imageOnly);
+    const ocrPages: string[] = [];
+    if (scanned.length > 0) {
+        const pdf = await pdfjsLib.getDocument(await file.arrayBuffer()).promise;
+        const engine = await getOcrEngine();
+        for (const [n, { page, index }] of scanned.entries()) {
+            if (signal?.aborted) break;
+            onProgress?.({ fileName: file.name, stage: 'ocr', done: n, total: scanned.length });
+            page.items = ocrTextToItems(await engine.recognizePage(await pdf.getPage(index + 1)));
+            ocrPages.push(page.label);
+        }
+        await pdf.destroy();
+    }
+    const cleaned = cleanPdfPages(pages.map(({ label, width, items }): PdfPageText => ({ label, width, items })));
+    return { text: cleaned.map(page => `${formatPageMarker(page.label)}\n${page.text}`).join('\n\n'), ocrPages };
+};
+
+const readZipText = async (zip: any, path: string): Promise<string | null> => {
+    const entry = zip.file(path) ?? zip.file(decodeURIComponent(path));
+    return entry ? entry.async('string') : null;
+};
+
+// Resolves an href relative to the directory of the file that references it
+const resolveZipPath = (basePath: string, href: string): string => {
+    const parts = basePath.split('/').slice(0, -1);
+    href.split('#')[0].split('/').forEach(part => {
+        if (part === '..') parts.pop();
+        else if (part && part !== '.') parts.push(part);
+    });
+    return parts.join('/');
+};
+
+/**
+ * Maps each content document to its table-of-contents label, from the EPUB 3 nav document
+ * or, failing that, the EPUB 2 NCX. Used to title chapters whose markup has no heading.
+ */
+const readEpubTocLabels = async (zip: any, opfPath: string, opf: Document): Promise<Record<string, string>> => {
+    const labels: Record<string, string> = {};
+    const items = Array.from(opf.getElementsByTagName('item'));
+    const navItem = items.find(item => (item.getAttribute('properties') || '').split(' ').includes('nav'));
+    const tocId = opf.getElementsByTagName('spine')[0]?.getAttribute('toc');
+    const ncxItem = items.find(item => item.getAttribute('id') === tocId || item.getAttribute('media-type') === 'application/x-dtbncx+xml');
+
+    if (navItem) {
+        const navPath = resolveZipPath(opfPath, navItem.getAttribute('href') || '');
+        const nav = await readZipText(zip, navPath);
+        if (nav) {
+            Array.from(parseMarkup(nav, 'application/xhtml+xml').getElementsByTagName('a')).forEach(a => {
+                const path = resolveZipPath(navPath, a.getAttribute('href') || '');
+                if (path && !labels[path]) labels[path] = (a.textContent || '').trim();
+            });
+        }
+    } else if (ncxItem) {
+        const ncxPath = resolveZipPath(opfPath, ncxItem.getAttribute('href') || '');
+        const ncx = await readZipText(zip, ncxPath);
+        if (ncx) {
+            Array.from(parseMarkup(ncx, 'application/xml').getElementsByTagName('navPoint')).forEach(point => {
+                const src = point.getElementsByTagName('content')[0]?.getAttribute('src');
+                const label = point.getElementsByTagName('text')[0]?.textContent?.trim();
+                const path = src ? resolveZipPath(ncxPath, src) : '';
+                if (path && label && !labels[path]) labels[path] = label;
+            });
+        }
+    }
+    return labels;
+};
+
+// Reads the spine in reading order; each chapter starts on its own heading
+const parseEpub = async (arrayBuffer: ArrayBuffer): Promise<string> => {
+    const zip = await JSZip.loadAsync(arrayBuffer);
+    const container = await readZipText(zip, 'META-INF/container.xml');
+    const opfPath = container && parseMarkup(container, 'application/xml').getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+    if (!opfPath) throw new Error('EPUB has no package document');
+    const opfText = await readZipText(zip, opfPath);
+    if (!opfText) throw new Error(`EPUB package document ${opfPath} is missing`);
+    const opf = parseMarkup(opfText, 'application/xml');
+
+    const manifest: Record<string, string> = {};
+    Array.from(opf.getElementsByTagName('item')).forEach(item => {
+        const id = item.getAttribute('id');
+        const href = item.getAttribute('href');
+        if (id && href) manifest[id] = resolveZipPath(opfPath, href);
+    });
+    const tocLabels = await readEpubTocLabels(zip, opfPath, opf);
+
+    const chapters: string[] = [];
+    for (const itemref of Array.from(opf.getElementsByTagName('itemref'))) {
+        const path = manifest[itemref.getAttribute('idref') || ''];
+        const markup = path ? await readZipText(zip, path) : null;
+        if (!markup) continue;
+        const doc = parseMarkup(markup, 'application/xhtml+xml');
+        const text = htmlNodeToText(doc.getElementsByTagName('body')[0] || doc.documentElement);
+        if (!text) continue;
+        const label = tocLabels[path];
+        chapters.push(label && !text.startsWith('#') ? `# ${label}\n\n${text}` : text);
+    }
+    return chapters.join('\n\n');
+};
+
+const ODF_TEXT_NS = 'urn:oasis:names:tc:opendocument:xmlns:text:1.0';
+const ODF_TABLE_NS = 'urn:oasis:names:tc:opendocument:xmlns:table:1.0';
+const ODF_OFFICE_NS = 'urn:oasis:names:tc:opendocument:xmlns:office:1.0';
+
+// Walks ODF text markup; headings keep their outline level as Markdown `#` lines
+const odfNodeToText = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return node.textContent || '';
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const el = node as Element;
+    const children = () => Array.from(el.childNodes).map(odfNodeToText).join('');
+
+    if (el.namespaceURI === ODF_OFFICE_NS && el.localName === 'annotation') return '';
+    if (el.namespaceURI === ODF_TABLE_NS) {
+        if (el.localName === 'table-row') return `\n${Array.from(el.childNodes).map(cell => odfNodeToText(cell).trim()).join(' | ')}`;
+        if (el.localName === 'table') return `\n${children()}\n\n`;
+        return children();
+    }
+    if (el.namespaceURI !== ODF_TEXT_NS) return children();
+
+    switch (el.localName) {
+        case 'h': {
+            const level = Math.min(6, Math.max(1, Number(el.getAttributeNS(ODF_TEXT_NS, 'outline-level')) || 1));
+            return `\n\n${'#'.repeat(level)} ${children().trim()}\n\n`;
+        }
+        case 'p': return `\n\n${children()}\n\n`;
+        case 'list-item': return `\n- ${children().trim().replace(/\n+/g, '\n  ')}\n`;
+        case 's': return ' '.repeat(Number(el.getAttributeNS(ODF_TEXT_NS, 'c')) || 1);
+        case 'tab': return '\t';
+        case 'line-break': return '\n';
+        case 'note-citation': return '';
+        case 'note': return ` [Note: ${children().trim()}]`;
+        case 'sequence-decls':
+        case 'tracked-changes': return '';
+        default: return children();
+    }
+};
+
+const parseOdt = async (arrayBuffer: ArrayBuffer): Promise<string> => {
+    const zip = await JSZip.loadAsync(arrayBuffer);
+    const content = await readZipText(zip, 'content.xml');
+    if (!content) throw new Error('ODT has no content.xml');
+    const doc = new DOMParser().parseFromString(content, 'application/xml');
+    const body = doc.getElementsByTagNameNS(ODF_OFFICE_NS, 'text')[0];
+    if (!body) throw new Error('ODT has no text body');
+    return normalizeText(odfNodeToText(body));
+};
+
+export interface ParseProgress {
+    fileName: string;
+    stage: 'reading' | 'ocr';
+    done: number; // Pages finished so far; 0 of 0 for formats without pages
+    total: number;
+}
+
+export interface ParseLimits {
+    maxFileSizeMb: number;
+    maxPages: number; // PDFs longer than this are read up to the limit
+}
+
+export const DEFAULT_PARSE_LIMITS: ParseLimits = { maxFileSizeMb: 100, maxPages: 1500 };
+const PARSE_LIMITS_KEY = 'universal_academic_workflow_parse_limits_v1';
+
+export const getParseLimits = (): ParseLimits => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(PARSE_LIMITS_KEY) || '{}');
+        return {
+            maxFileSizeMb: saved.maxFileSizeMb > 0 ? saved.maxFileSizeMb : DEFAULT_PARSE_LIMITS.maxFileSizeMb,
+            maxPages: saved.maxPages > 0 ? saved.maxPages : DEFAULT_PARSE_LIMITS.maxPages,
+        };
+    } catch {
+        return DEFAULT_PARSE_LIMITS;
+    }
+};
+
+export const saveParseLimits = (limits: ParseLimits) => localStorage.setItem(PARSE_LIMITS_KEY, JSON.stringify(limits));
+
+interface ParseOptions {
+    onProgress?: (progress: ParseProgress) => void;
+    signal?: AbortSignal; // Aborting keeps files that already finished and drops the rest
+}
+
+/**
+ * Parses a batch of uploads. PDF and DOCX are read on the worker pool, several files at a time;
+ * formats that need the DOM (HTML, EPUB, ODT) are parsed here. Results keep the input order.
+ */
+export const parseUploadedFiles = async (files: FileList, { onProgress, signal }: ParseOptions = {}): Promise<{ parsedFiles: FileData[], errors: string[], cancelled: boolean }> => {
+    const limits = getParseLimits();
     const errors: string[] = [];
-    
-    for (const file of Array.from(files)) {
-        const isPdf = file.type === 'application/pdf';
-        const isDocx = file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || file.name.endsWith('.docx');
-
-        if (!isPdf && !isDocx) {
-            errors.push(`${file.name} (not a PDF or DOCX)`);
-            continue;
+
+    // One OCR engine serves the whole batch and is only started if a scanned page turns up
+    let ocrEngine: Promise<OcrEngine> | null = null;
+    const getOcrEngine = () => ocrEngine ??= createOcrEngine();
+
+    const parseOne = async (file: File): Promise<FileData | null> => {
+        const format = detectFormat(file);
+        if (!format) {
+            errors.push(`${file.name} (unsupported format)`);
+            return null;
+        }
+        if (file.size > limits.maxFileSizeMb * 1024 * 1024) {
+            errors.push(`${file.name} (over the ${limits.maxFileSizeMb} MB limit)`);
+            return null;
         }
 
         try {
-            const arrayBuffer = await file.arrayBuffer();
             let fullText = '';
-
-            if (isPdf) {
-                const pdf = await pdfjsLib.getDocument(arrayBuffer).promise;
-                for (let i = 1; i <= pdf.numPages; i++) {
-                    const page = await pdf.getPage(i);
-                    const textContent = await page.getTextContent();
-                    const items: any[] = textContent.items;
-                    let pageText = '';
-                    let lastY: number | null = null;
-                    
-                    for (const item of items) {
-                        if (!('str' in item)) continue;
-                        const currentY = item.transform[5]; // transform is [a, b, c, d, tx, ty]
-                        
-                        if (lastY !== null && Math.abs(currentY - lastY) > 5) {
-                            pageText += '\n' + item.str;
-                        } else {
-                            if (pageText.length > 0 && !pageText.endsWith(' ') && !pageText.endsWith('\n') && item.str) {
-                                pageText += ' ';
-                            }
-                            pageText += item.str;
-                        }
-                        lastY = currentY;
+            let ocrPages: string[] = [];
+            if (format === 'pdf' || format === 'docx') {
+                onProgress?.({ fileName: file.name, stage: 'reading', done: 0, total: 0 });
+                const result = await parseInWorker(
+                    // The buffer is read only once a worker takes the job, so a large drop never holds every file in memory
+                    { format, fileName: file.name, readData: () => file.arrayBuffer(), maxPages: limits.maxPages },
+                    (done, total) => onProgress?.({ fileName: file.name, stage: 'reading', done, total }),
+                    signal
+                );
+                if (result.format === 'pdf') {
+                    if (result.totalPages > limits.maxPages) {
+                        errors.push(`${file.name} (only the first ${limits.maxPages} of ${result.totalPages} pages were read)`);
                     }
-                    fullText += pageText + '\n\n';
+                    ({ text: fullText, ocrPages } = await finishPdf(file, result.pages, getOcrEngine, { onProgress, signal }));
+                } else {
+                    fullText = docxHtmlToMarkdown(result.html);
                 }
-            } else if (isDocx) {
-                const result = await mammoth.extractRawText({ arrayBuffer });
-                fullText = result.value;
-                if (result.messages.length > 0) {
-                    console.log("Mammoth parsing messages for " + file.name, result.messages);
+            } else {
+                switch (format) {
+                    case 'epub': fullText = await parseEpub(await file.arrayBuffer()); break;
+                    case 'odt': fullText = await parseOdt(await file.arrayBuffer()); break;
+                    case 'html': fullText = parseHtml(await file.text()); break;
+                    case 'markdown':
+                    case 'text': fullText = normalizeText(await file.text()); break;
                 }
             }
-            
-            parsedFiles.push({ name: file.name, content: fullText.trim() });
+            if (signal?.aborted) return null;
+
+            if (!fullText.replace(PAGE_MARKER_PATTERN, '').trim()) {
+                errors.push(`${file.name} (no text found)`);
+                return null;
+            }
+            return ocrPages.length > 0 ? { name: file.name, content: fullText.trim(), ocrPages } : { name: file.name, content: fullText.trim() };
         } catch (e) {
+            if (signal?.aborted) return null;
             console.error(`Error parsing ${file.name}:`, e);
             errors.push(`${file.name} (parsing failed)`);
+            return null;
         }
+    };
+
+    try {
+        const results = await Promise.all(Array.from(files).map(parseOne));
+        return { parsedFiles: results.filter((f): f is FileData => f !== null), errors, cancelled: !!signal?.aborted };
+    } finally {
+        if (ocrEngine) await ocrEngine.then(engine => engine.terminate()).catch(() => undefined);
     }
-    return { parsedFiles, errors };
 };
@@ -0,0 +1,78 @@
+// Thin promise wrapper over the app's IndexedDB database. Bump DB_VERSION when adding a store.
+const DB_NAME = 'universal_academic_workflow';
+const DB_VERSION = 3;
+
+export const STORES = {
+    EXTRACTION_CACHE: 'extraction_cache',
+    PROJECTS: 'projects', // Lightweight metadata, listed by the project switcher
+    PROJECT_DATA: 'project_data', // Graph and execution state, loaded one project at a time
+    TEMPLATES: 'templates', // User-saved workflow templates (built-ins live in constants.ts)
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this browser'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORES.EXTRACTION_CACHE)) {
+                    db.createObjectStore(STORES.EXTRACTION_CACHE, { keyPath: 'key' });
+                }
+                if (!db.objectStoreNames.contains(STORES.PROJECTS)) {
+                    db.createObjectStore(STORES.PROJECTS, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(STORES.PROJECT_DATA)) {
+                    db.createObjectStore(STORES.PROJECT_DATA, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(STORES.TEMPLATES)) {
+                    db.createObjectStore(STORES.TEMPLATES, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => {
+                const db = request.result;
+                // Let another tab running a newer version upgrade instead of blocking it
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromise = null;
+                };
+                resolve(db);
+            };
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to retry if opening failed (e.g. blocked by another tab)
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+// Runs a single request against a store in its own transaction
+export const withStore = async <T>(storeName: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    const store = db.transaction(storeName, mode).objectStore(storeName);
+    return requestToPromise(run(store));
+};
+
+// Runs several writes atomically; resolves once the transaction commits
+export const withTransaction = async (storeNames: StoreName[], run: (tx: IDBTransaction) => void): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(storeNames, 'readwrite');
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+        run(tx);
+    });
+};
@@ -0,0 +1,164 @@
+import { Config } from '../types';
+import { chunkDocument, formatChunkLabel } from './textChunking';
+import { fnv1a } from './fileDeduplication';
+
+export interface LibrarySource {
+    fileName: string;
+    text: string;
+    kind: 'file' | 'notes'; // Full text of an upload, or notes extracted from it
+}
+
+export interface Passage {
+    label: string; // "Smith 2020.pdf, section "2. Methods", p. 14"
+    fileName: string;
+    text: string;
+}
+
+export interface SearchHit {
+    passage: Passage;
+    score: number;
+}
+
+export interface LibraryIndex {
+    passages: Passage[];
+    sourceCount: number;
+    lengths: number[]; // Terms per passage
+    averageLength: number;
+    postings: Map<string, { ids: number[]; counts: number[] }>;
+}
+
+// Passages are short enough that a hit points at one argument rather than a whole chapter
+const PASSAGE_CHARS = 1500;
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'for', 'from', 'has', 'have', 'in', 'into', 'is', 'it', 'its',
+    'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to', 'was', 'were', 'which', 'with', 'will', 'would', 'not', 'these', 'those',
+]);
+
+/**
+ * Normalizes a word to its index term: lower case, accents folded, a plural ending removed.
+ * Returns null for stopwords and single characters.
+ */
+export const toTerm = (word: string): string | null => {
+    let term = word.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+    if (term.length < 2 || STOPWORDS.has(term)) return null;
+    if (term.length > 4 && term.endsWith('ies')) term = `${term.slice(0, -3)}y`;
+    else if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) term = term.slice(0, -1);
+    return term;
+};
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const termsOf = (text: string): string[] => (text.match(WORD_PATTERN) || []).map(toTerm).filter((t): t is string => !!t);
+
+// Extracted notes arrive as one string, with a header per document and an XML wrapper per upstream node
+const NOTES_HEADER = /^(?:--- From document: (.+?) ---|<context_source id="([^"]*)"[^>]*>)$/gm;
+
+const splitNotes = (notes: string): LibrarySource[] => {
+    const headers = Array.from(notes.matchAll(NOTES_HEADER));
+    const sections = [{ fileName: 'Extracted notes', start: 0 }, ...headers.map(h => ({ fileName: h[1] || h[2], start: h.index! + h[0].length }))];
+    return sections
+        .map<LibrarySource>((section, i) => ({
+            fileName: section.fileName,
+            text: notes.slice(section.start, headers[i]?.index ?? notes.length).replace(/^<\/context_source>$/gm, ''),
+            kind: 'notes',
+        }))
+        .filter(source => source.text.trim());
+};
+
+/** Everything a node can cite: uploaded full texts plus any notes already extracted from them. */
+export const librarySourcesFromConfig = (config: Partial<Config>): LibrarySource[] => [
+    ...(config.Core_Bibliography_Files || []),
+    ...(config.Source_B_Files || []),
+    ...(config.Complementary_Files || []),
+].map<LibrarySource>(file => ({ fileName: file.name, text: file.content, kind: 'file' }))
+    .concat(splitNotes(config.Core_Bibliography || ''), splitNotes(config.Source_B_Content || ''))
+    .filter(source => source.text.trim());
+
+export const buildLibraryIndex = (sources: LibrarySource[]): LibraryIndex => {
+    const passages: Passage[] = [];
+    const lengths: number[] = [];
+    const postings = new Map<string, { ids: number[]; counts: number[] }>();
+
+    sources.forEach(source => {
+        chunkDocument(source.text, source.fileName, { maxChars: PASSAGE_CHARS, overlapChars: 0 }).forEach(chunk => {
+            const id = passages.length;
+            const label = formatChunkLabel({ ...chunk.provenance, total: 1 });
+            passages.push({ label: source.kind === 'notes' ? `${label} (extracted notes)` : label, fileName: source.fileName, text: chunk.text });
+
+            const counts = new Map<string, number>();
+            const terms = termsOf(chunk.text);
+            terms.forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+            lengths.push(terms.length);
+            counts.forEach((count, term) => {
+                const posting = postings.get(term) || { ids: [], counts: [] };
+                posting.ids.push(id);
+                posting.counts.push(count);
+                postings.set(term, posting);
+            });
+        });
+    });
+
+    const averageLength = lengths.length ? lengths.reduce((sum, n) => sum + n, 0) / lengths.length : 0;
+    return { passages, sourceCount: sources.length, lengths, averageLength, postings };
+};
+
+// Rebuilding is the slow part, so the latest few indexes are kept for repeated searches and section requests
+const INDEX_CACHE_SIZE = 3;
+const indexCache = new Map<string, LibraryIndex>();
+
+export const getLibraryIndex = (sources: LibrarySource[]): LibraryIndex => {
+    // A replaced file can keep its name and even its length, so the key includes a hash of the text
+    const key = sources.map(s => `${s.kind}:${s.fileName}:${s.text.length}:${fnv1a(s.text)}`).join('|');
+    const cached = indexCache.get(key);
+    if (cached) return cached;
+    const index = buildLibraryIndex(sources);
+    indexCache.set(key, index);
+    if (indexCache.size > INDEX_CACHE_SIZE) indexCache.delete(indexCache.keys().next().value!);
+    return index;
+};
+
+/** Ranks passages against `query` with BM25 and returns the best `limit` with a positive score. */
+export const searchLibrary = (index: LibraryIndex, query: string, limit = 10): SearchHit[] => {
+    const scores = new Map<number, number>();
+    const total = index.passages.length;
+    new Set(termsOf(query)).forEach(term => {
+        const posting = index.postings.get(term);
+        if (!posting) return;
+        const idf = Math.log(1 + (total - posting.ids.length + 0.5) / (posting.ids.length + 0.5));
+        posting.ids.forEach((id, i) => {
+            const tf = posting.counts[i];
+            const norm = tf + K1 * (1 - B + B * index.lengths[id] / (index.averageLength || 1));
+            scores.set(id, (scores.get(id) || 0) + idf * (tf * (K1 + 1)) / norm);
+        });
+    });
+    return Array.from(scores.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit)
+        .map(([id, score]) => ({ passage: index.passages[id], score }));
+};
+
+/**
+ * Finds the outline entry a command such as "Generate section 2.3" or "Write the Introduction"
+ * refers to, with the description lines under it. Returns null when nothing in the outline matches.
+ */
+export const findOutlineSection = (outline: string, command: string): string | null => {
+    const lines = outline.split('\n');
+    const bare = (line: string) => line.replace(/^[\s#*>\-•]+/, '').replace(/\*\*/g, '').trim();
+    const number = /\b(\d+(?:\.\d+)*)\b/.exec(command)?.[1];
+    const phrase = command.replace(/^\s*(please\s+)?(generate|write|draft|continue with|proceed with|now)\s+(the\s+)?(section\s+)?/i, '').replace(/[.!?]+$/, '').trim().toLowerCase();
+
+    let start = number
+        ? lines.findIndex(line => new RegExp(`^(?:(?:section|chapter)\\s+)?${number.replace(/\./g, '\\.')}(?![\\d])(?:\\.(?!\\d)|:)?\\s`, 'i').test(bare(line)))
+        : -1;
+    if (start === -1 && phrase.length > 2 && !number) start = lines.findIndex(line => bare(line).toLowerCase().includes(phrase));
+    if (start === -1) return null;
+
+    // The entry runs until the next heading or numbered entry
+    const isEntry = (line: string) => /^#{1,6}\s/.test(line.trim()) || /^\d+(\.\d+)*\.?\s/.test(bare(line));
+    const end = lines.findIndex((line, i) => i > start && isEntry(line));
+    return lines.slice(start, end === -1 ? undefined : end).map(line => line.trim()).filter(Boolean).join('\n').slice(0, 1000);
+};
@@ -0,0 +1,47 @@
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+/**
+ * Line diff from `before` to `after` via the longest common subsequence. Shared leading and
+ * trailing lines are matched first, so an edit to a long protocol only compares the changed middle.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+    const a = before.split('\n');
+    const b = after.split('\n');
+    let head = 0;
+    while (head < a.length && head < b.length && a[head] === b[head]) head++;
+    let tail = 0;
+    while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+    const oldLines = a.slice(head, a.length - tail);
+    const newLines = b.slice(head, b.length - tail);
+    // lcs[i][j] is the common subsequence length of oldLines[i..] and newLines[j..]
+    const lcs = Array.from({ length: oldLines.length + 1 }, () => new Array<number>(newLines.length + 1).fill(0));
+    for (let i = oldLines.length - 1; i >= 0; i--) {
+        for (let j = newLines.length - 1; j >= 0; j--) {
+            lcs[i][j] = oldLines[i] === newLines[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const middle: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < oldLines.length || j < newLines.length) {
+        if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+            middle.push({ type: 'same', text: oldLines[i++] });
+            j++;
+        } else if (i < oldLines.length && (j >= newLines.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+            middle.push({ type: 'removed', text: oldLines[i++] });
+        } else {
+            middle.push({ type: 'added', text: newLines[j++] });
+        }
+    }
+
+    return [
+        ...a.slice(0, head).map(text => ({ type: 'same' as const, text })),
+        ...middle,
+        ...a.slice(a.length - tail).map(text => ({ type: 'same' as const, text })),
+    ];
+};
@@ -295,3 +295,52 @@ export const extractRedTeamSuggestions = (text: string): { cleanText: string, su
 
     return { cleanText, suggestions };
 };
+
+export interface DraftSection {
+    title: string;
+    content: string;
+}
+
+const FOOTNOTE_DEFINITION_PATTERN = /^\[\^([^\]]+)\]:/;
+
+/**
+ * Splits an imported Markdown draft into sections at the highest heading level used more than
+ * once, so a document titled with a single `#` is split at its `##` sections. Text before the
+ * first split heading becomes its own section, and footnote definitions move to the section
+ * that first cites them.
+ */
+export const splitMarkdownIntoSections = (markdown: string): DraftSection[] => {
+    const lines = markdown.split('\n');
+    const footnotes = lines.filter(line => FOOTNOTE_DEFINITION_PATTERN.test(line));
+    const body = lines.filter(line => !FOOTNOTE_DEFINITION_PATTERN.test(line));
+
+    const levels = body.map(line => /^(#{1,6})\s+\S/.exec(line)?.[1].length ?? 0);
+    const used = Array.from(new Set(levels.filter(Boolean))).sort((a, b) => a - b);
+    if (used.length === 0) return [{ title: 'Imported Draft', content: markdown.trim() }];
+    const splitLevel = used.find(level => levels.filter(l => l === level).length > 1) ?? used[0];
+
+    const sections: DraftSection[] = [];
+    let current: string[] = [];
+    const flush = () => {
+        const content = current.join('\n').trim();
+        if (content) {
+            const heading = current.find(line => /^#{1,6}\s+\S/.test(line));
+            sections.push({ title: heading ? heading.replace(/^#{1,6}\s+/, '').trim() : 'Front Matter', content });
+        }
+        current = [];
+    };
+    body.forEach((line, i) => {
+        if (levels[i] === splitLevel) flush();
+        current.push(line);
+    });
+    flush();
+
+    const withNotes = new Set<DraftSection>();
+    footnotes.forEach(definition => {
+        const reference = `[^${FOOTNOTE_DEFINITION_PATTERN.exec(definition)![1]}]`;
+        const target = sections.find(s => s.content.includes(reference)) || sections[sections.length - 1];
+        target.content += `${withNotes.has(target) ? '\n' : '\n\n'}${definition}`;
+        withNotes.add(target);
+    });
+    return sections;
+};
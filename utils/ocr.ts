@@ -0,0 +1,44 @@
+// Local OCR for scanned PDF pages. The engine, its WASM core and the English model are all
+// bundled with the app, so scanned sources never leave the browser.
+// The model comes from @tesseract.js-data/eng; vite.config.ts serves it at <base>tesseract/eng.traineddata.gz.
+import workerPath from 'tesseract.js/dist/worker.min.js?url';
+import corePath from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+
+// Scanned pages are rendered at twice PDF resolution (~144 DPI), enough for body text
+const OCR_RENDER_SCALE = 2;
+
+export interface OcrEngine {
+    recognizePage: (page: any) => Promise<string>;
+    terminate: () => Promise<void>;
+}
+
+// The engine is loaded on first use so PDFs with a text layer never download it
+export const createOcrEngine = async (): Promise<OcrEngine> => {
+    const { createWorker, OEM } = await import('tesseract.js');
+    // The worker runs from a blob URL, so the language path must be absolute
+    const langPath = new URL(`${import.meta.env.BASE_URL}tesseract`, window.location.href).href;
+    const worker = await createWorker('eng', OEM.LSTM_ONLY, {
+        workerPath,
+        corePath,
+        langPath,
+        gzip: true,
+        // The model is served with the app; there is nothing worth caching in IndexedDB
+        cacheMethod: 'none',
+    });
+
+    return {
+        // Renders a pdf.js page to a canvas and reads it back as text
+        recognizePage: async (page: any) => {
+            const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.ceil(viewport.width);
+            canvas.height = Math.ceil(viewport.height);
+            await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+            const { data } = await worker.recognize(canvas);
+            return data.text || '';
+        },
+        terminate: async () => {
+            await worker.terminate();
+        },
+    };
+};
@@ -0,0 +1,82 @@
+// Runs as a classic worker (Vite bundles workers as IIFE), so the same CDN builds the page uses can be loaded with importScripts
+import type { WorkerParseJob, WorkerMessage, WorkerPdfPage } from './parseWorkerPool';
+import type { PdfTextItem } from './pdfCleanup';
+
+declare const pdfjsLib: any;
+declare const mammoth: any;
+declare function importScripts(...urls: string[]): void;
+
+const PDFJS_URL = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/2.11.338/pdf.min.js';
+const PDFJS_WORKER_URL = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/2.11.338/pdf.worker.min.js';
+const MAMMOTH_URL = 'https://cdnjs.cloudflare.com/ajax/libs/mammoth/1.6.0/mammoth.browser.min.js';
+
+importScripts(PDFJS_URL, MAMMOTH_URL);
+pdfjsLib.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_URL;
+
+// A page with less extractable text than this is treated as a scan if it also draws an image
+const MIN_TEXT_LAYER_CHARS = 20;
+
+const post = (message: WorkerMessage) => (self as unknown as Worker).postMessage(message);
+
+const isImageOnlyPage = async (page: any, items: PdfTextItem[]): Promise<boolean> => {
+    const textLength = items.reduce((sum, item) => sum + item.str.replace(/\s/g, '').length, 0);
+    if (textLength >= MIN_TEXT_LAYER_CHARS) return false;
+    const imageOps = [pdfjsLib.OPS.paintImageXObject, pdfjsLib.OPS.paintJpegXObject, pdfjsLib.OPS.paintInlineImageXObject];
+    const operators = await page.getOperatorList();
+    return operators.fnArray.some((fn: number) => imageOps.includes(fn));
+};
+
+const readPdf = async (job: WorkerParseJob) => {
+    const pdf = await pdfjsLib.getDocument(job.data).promise;
+    // Printed labels such as "xii" or "214"; null when the PDF defines none
+    const pageLabels: string[] | null = await pdf.getPageLabels().catch(() => null);
+    const pageCount = Math.min(pdf.numPages, job.maxPages);
+    const pages: WorkerPdfPage[] = [];
+    for (let i = 1; i <= pageCount; i++) {
+        const page = await pdf.getPage(i);
+        const textContent = await page.getTextContent();
+        const items: PdfTextItem[] = textContent.items
+            .filter((item: any) => 'str' in item)
+            // transform is [a, b, c, d, tx, ty]
+            .map((item: any) => ({ str: item.str, x: item.transform[4], y: item.transform[5], width: item.width || 0 }));
+        pages.push({
+            label: pageLabels?.[i - 1]?.trim() || String(i),
+            width: page.getViewport({ scale: 1 }).width,
+            items,
+            imageOnly: await isImageOnlyPage(page, items),
+        });
+        page.cleanup();
+        post({ type: 'progress', done: i, total: pageCount });
+    }
+    await pdf.destroy();
+    return { format: 'pdf' as const, pages, totalPages: pdf.numPages };
+};
+
+// Word's title styles are not headings by default; without them a draft loses its top heading
+const DOCX_STYLE_MAP = [
+    "p[style-name='Title'] => h1:fresh",
+    "p[style-name='Subtitle'] => h2:fresh",
+];
+
+// HTML keeps the structure raw text loses; it becomes Markdown on the main thread, where there is a DOM.
+// Embedded images would otherwise be inlined as base64 and dwarf the text, so only their alt text is kept.
+const readDocx = async (job: WorkerParseJob) => {
+    const result = await mammoth.convertToHtml({ arrayBuffer: job.data }, {
+        styleMap: DOCX_STYLE_MAP,
+        convertImage: mammoth.images.imgElement(() => Promise.resolve({ src: '' })),
+    });
+    if (result.messages.length > 0) {
+        console.log("Mammoth parsing messages for " + job.fileName, result.messages);
+    }
+    return { format: 'docx' as const, html: result.value as string };
+};
+
+self.onmessage = async (event: MessageEvent<WorkerParseJob>) => {
+    const job = event.data;
+    try {
+        const result = job.format === 'pdf' ? await readPdf(job) : await readDocx(job);
+        post({ type: 'result', result });
+    } catch (e) {
+        post({ type: 'error', message: e instanceof Error ? e.message : String(e) });
+    }
+};
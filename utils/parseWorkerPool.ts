@@ -0,0 +1,146 @@
+import type { PdfTextItem } from './pdfCleanup';
+
+// Formats whose parsers need no DOM and can run off the main thread
+export type WorkerParseFormat = 'pdf' | 'docx';
+
+export interface WorkerParseJob {
+    format: WorkerParseFormat;
+    fileName: string;
+    data: ArrayBuffer;
+    maxPages: number;
+}
+
+export interface WorkerPdfPage {
+    label: string;
+    width: number;
+    items: PdfTextItem[];
+    imageOnly: boolean; // No usable text layer; needs OCR on the main thread
+}
+
+// What callers queue: the file is read into memory only when a worker is free to parse it
+export interface WorkerParseRequest extends Omit<WorkerParseJob, 'data'> {
+    readData: () => Promise<ArrayBuffer>;
+}
+
+export type WorkerParseResult =
+    | { format: 'pdf'; pages: WorkerPdfPage[]; totalPages: number }
+    | { format: 'docx'; html: string }; // Mammoth HTML, converted to Markdown on the main thread
+
+export type WorkerMessage =
+    | { type: 'progress'; done: number; total: number }
+    | { type: 'result'; result: WorkerParseResult }
+    | { type: 'error'; message: string };
+
+// Leave a core for the UI; parsing more than a few files at once only adds memory pressure
+const POOL_SIZE = Math.max(1, Math.min(3, (navigator.hardwareConcurrency || 2) - 1));
+
+interface QueuedJob {
+    request: WorkerParseRequest;
+    onProgress: (done: number, total: number) => void;
+    signal?: AbortSignal;
+    resolve: (result: WorkerParseResult) => void;
+    reject: (error: Error) => void;
+    onQueuedAbort: () => void; // Removes the job from the queue while it is still waiting
+}
+
+const idleWorkers: Worker[] = [];
+const queue: QueuedJob[] = [];
+let workerCount = 0;
+
+const createWorker = () => {
+    workerCount++;
+    return new Worker(new URL('./parseWorker.ts', import.meta.url));
+};
+
+const abortError = () => new DOMException('Parsing was cancelled', 'AbortError');
+
+const runOnWorker = async (worker: Worker, queued: QueuedJob) => {
+    const { request, onProgress, signal, resolve, reject } = queued;
+
+    const finish = (keepWorker: boolean) => {
+        worker.onmessage = null;
+        worker.onerror = null;
+        signal?.removeEventListener('abort', onAbort);
+        if (keepWorker) {
+            idleWorkers.push(worker);
+        } else {
+            worker.terminate();
+            workerCount--;
+        }
+        drainQueue();
+    };
+
+    // pdf.js cannot be interrupted mid-document, so a cancelled worker is replaced rather than reused
+    const onAbort = () => {
+        finish(false);
+        reject(abortError());
+    };
+
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+            onProgress(message.done, message.total);
+        } else if (message.type === 'result') {
+            finish(true);
+            resolve(message.result);
+        } else {
+            finish(true);
+            reject(new Error(message.message));
+        }
+    };
+    worker.onerror = (event) => {
+        event.preventDefault();
+        finish(false);
+        reject(new Error(event.message || 'The parsing worker crashed'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let data: ArrayBuffer;
+    try {
+        data = await request.readData();
+    } catch (error) {
+        if (signal?.aborted) return; // onAbort already released the worker
+        finish(true);
+        reject(error as Error);
+        return;
+    }
+    if (signal?.aborted) return;
+    const job: WorkerParseJob = { format: request.format, fileName: request.fileName, data, maxPages: request.maxPages };
+    worker.postMessage(job, [data]);
+};
+
+const drainQueue = () => {
+    while (queue.length > 0 && (idleWorkers.length > 0 || workerCount < POOL_SIZE)) {
+        const queued = queue.shift()!;
+        queued.signal?.removeEventListener('abort', queued.onQueuedAbort);
+        if (queued.signal?.aborted) {
+            queued.reject(abortError());
+            continue;
+        }
+        runOnWorker(idleWorkers.pop() ?? createWorker(), queued);
+    }
+};
+
+/**
+ * Parses one file on the shared worker pool. Jobs beyond the pool size wait their turn;
+ * aborting `signal` drops a queued job or terminates the worker running it.
+ */
+export const parseInWorker = (request: WorkerParseRequest, onProgress: (done: number, total: number) => void, signal?: AbortSignal): Promise<WorkerParseResult> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
+        }
+        const queued: QueuedJob = {
+            request, onProgress, signal, resolve, reject,
+            // A cancelled batch settles at once instead of waiting for a worker to dequeue each job
+            onQueuedAbort: () => {
+                const index = queue.indexOf(queued);
+                if (index !== -1) queue.splice(index, 1);
+                reject(abortError());
+            },
+        };
+        signal?.addEventListener('abort', queued.onQueuedAbort, { once: true });
+        queue.push(queued);
+        drainQueue();
+    });
@@ -0,0 +1,162 @@
+// Post-processing for text pulled out of PDFs by pdf.js. Works on positioned text items so that
+// layout (columns, running headers) can be recovered before the page is flattened to lines.
+
+export interface PdfTextItem {
+    str: string;
+    x: number;
+    y: number; // PDF space: grows upwards from the bottom of the page
+    width: number;
+}
+
+export interface PdfPageText {
+    label: string;
+    width: number;
+    items: PdfTextItem[]; // In content-stream order
+}
+
+export interface CleanedPdfPage {
+    label: string;
+    text: string;
+}
+
+// Same tolerance the original line joiner used
+const LINE_Y_TOLERANCE = 5;
+
+// Rows this close to the top or bottom of a page are header/footer candidates
+const EDGE_LINES = 2;
+
+const MIN_PAGES_FOR_REPEAT_DETECTION = 3;
+const REPEATED_LINE_PAGE_SHARE = 0.5;
+
+// Two columns: enough rows have text right of the middle and almost no row crosses it
+const COLUMN_GUTTER = 8;
+const MIN_RIGHT_COLUMN_ROW_SHARE = 0.25;
+const MAX_SPANNING_ROW_SHARE = 0.1;
+
+// Pages that carry no content of their own, e.g. JSTOR and Project MUSE download covers
+const BOILERPLATE_PAGE_PATTERNS = [
+    /JSTOR is a not-for-profit service/i,
+    /Your use of the JSTOR archive indicates your acceptance/i,
+    /Project MUSE is a leading provider of digital humanities/i,
+];
+
+// Lines stamped on every page by archives and repositories
+const BOILERPLATE_LINE_PATTERNS = [
+    /^This content downloaded from .+/i,
+    /^All use subject to https?:\/\/about\.jstor\.org\/terms/i,
+    /^Downloaded from https?:\/\/\S+ (by|on) .+/i,
+    /^Provided by .+ on \d{4}/i,
+];
+
+const PAGE_NUMBER_LINE = /^(page\s+)?([0-9]+|[ivxlcdm]+)(\s*(of|\/)\s*[0-9]+)?$/i;
+
+// Flattens items into lines following the content stream, breaking wherever y jumps
+const itemsToLines = (items: PdfTextItem[]): string[] => {
+    const lines: string[] = [];
+    let current = '';
+    let lastY: number | null = null;
+    for (const item of items) {
+        if (lastY !== null && Math.abs(item.y - lastY) > LINE_Y_TOLERANCE) {
+            lines.push(current);
+            current = item.str;
+        } else {
+            if (current.length > 0 && !current.endsWith(' ') && item.str && !item.str.startsWith(' ')) current += ' ';
+            current += item.str;
+        }
+        lastY = item.y;
+    }
+    if (current) lines.push(current);
+    return lines.map(line => line.trim()).filter(Boolean);
+};
+
+const rowKey = (item: PdfTextItem) => Math.round(item.y / LINE_Y_TOLERANCE);
+
+// Groups items that sit on the same baseline, whatever their order in the content stream
+const groupRows = (items: PdfTextItem[]): Map<number, PdfTextItem[]> => {
+    const rows = new Map<number, PdfTextItem[]>();
+    items.forEach(item => {
+        const key = rowKey(item);
+        rows.set(key, [...(rows.get(key) || []), item]);
+    });
+    return rows;
+};
+
+/**
+ * Orders a two-column page left column first, then right. Lines that span the gutter (titles,
+ * abstracts) keep their place above or below the columns. Single-column pages are untouched.
+ */
+const orderColumns = (items: PdfTextItem[], pageWidth: number): string[] => {
+    const textItems = items.filter(item => item.str.trim());
+    const middle = pageWidth / 2;
+    const spans = (item: PdfTextItem) => item.x < middle - COLUMN_GUTTER && item.x + item.width > middle + COLUMN_GUTTER;
+    const isRight = (item: PdfTextItem) => item.x >= middle - COLUMN_GUTTER / 2;
+
+    // pdf.js splits lines into runs, so the test looks at whole rows rather than single items
+    const rows = Array.from(groupRows(textItems).values());
+    const rightRows = rows.filter(row => row.some(isRight)).length;
+    const spanningRows = rows.filter(row => row.some(spans)).length;
+
+    const isTwoColumn = rows.length > 0
+        && rightRows / rows.length >= MIN_RIGHT_COLUMN_ROW_SHARE
+        && spanningRows / rows.length <= MAX_SPANNING_ROW_SHARE
+        && textItems.some(item => !isRight(item));
+    if (!isTwoColumn) return itemsToLines(items);
+
+    const spanning = textItems.filter(spans);
+    const columnItems = textItems.filter(item => !spans(item));
+    const columnTop = Math.max(...columnItems.map(item => item.y));
+
+    return [
+        ...itemsToLines(spanning.filter(item => item.y > columnTop)),
+        ...itemsToLines(columnItems.filter(item => !isRight(item))),
+        ...itemsToLines(columnItems.filter(isRight)),
+        ...itemsToLines(spanning.filter(item => item.y <= columnTop)),
+    ];
+};
+
+// Digits vary between pages ("Journal of X 12" / "Journal of X 13"), so they are masked before comparing
+const normalizeForRepeat = (line: string) => line.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+
+// The topmost and bottommost rows of a page, read left to right
+const edgeRows = (items: PdfTextItem[]): { key: number; text: string }[] => {
+    const rows = groupRows(items.filter(item => item.str.trim()));
+    const keys = Array.from(rows.keys()).sort((a, b) => b - a);
+    const edgeKeys = new Set([...keys.slice(0, EDGE_LINES), ...keys.slice(-EDGE_LINES)]);
+    return Array.from(edgeKeys).map(key => ({
+        key,
+        text: rows.get(key)!.sort((a, b) => a.x - b.x).map(item => item.str.trim()).join(' '),
+    }));
+};
+
+// Joins "inter-\nnational" into "international"; keeps real hyphens such as "post-\nWar"
+const rejoinHyphenation = (text: string): string =>
+    text.replace(/\u00AD/g, '').replace(/([A-Za-zÀ-ÿ])-\n([a-zà-ÿ])/g, '$1$2');
+
+/**
+ * Cleans the pages of one PDF: drops archive cover pages and stamp lines, removes running
+ * headers/footers and bare page numbers, restores two-column reading order and rejoins words
+ * hyphenated across line breaks.
+ */
+export const cleanPdfPages = (pages: PdfPageText[]): CleanedPdfPage[] => {
+    const contentPages = pages
+        .filter(page => {
+            const text = page.items.map(item => item.str).join(' ');
+            return !BOILERPLATE_PAGE_PATTERNS.some(pattern => pattern.test(text));
+        })
+        .map(page => ({ ...page, edges: edgeRows(page.items) }));
+
+    // A row seen at the top or bottom of most pages is a running header or footer
+    const edgeRowCounts = new Map<string, number>();
+    contentPages.forEach(page => {
+        new Set(page.edges.map(row => normalizeForRepeat(row.text))).forEach(key => edgeRowCounts.set(key, (edgeRowCounts.get(key) || 0) + 1));
+    });
+    const repeatThreshold = Math.max(MIN_PAGES_FOR_REPEAT_DETECTION, Math.ceil(contentPages.length * REPEATED_LINE_PAGE_SHARE));
+    const isRepeated = (text: string) => contentPages.length >= MIN_PAGES_FOR_REPEAT_DETECTION && (edgeRowCounts.get(normalizeForRepeat(text)) || 0) >= repeatThreshold;
+
+    return contentPages.map(page => {
+        const droppedRows = new Set(page.edges.filter(row => isRepeated(row.text) || PAGE_NUMBER_LINE.test(row.text)).map(row => row.key));
+        const lines = orderColumns(page.items.filter(item => !droppedRows.has(rowKey(item))), page.width)
+            .filter(line => !BOILERPLATE_LINE_PATTERNS.some(pattern => pattern.test(line)));
+        return { label: page.label, text: rejoinHyphenation(lines.join('\n')) };
+    });
+};
@@ -0,0 +1,342 @@
+import { FileData, Reference } from '../types';
+
+export const REFERENCE_FILE_EXTENSIONS = '.bib,.bibtex,.ris,.json';
+
+// --- BibTeX ---
+
+const BIBTEX_TYPES: Record<string, string> = {
+    article: 'article-journal',
+    book: 'book',
+    inbook: 'chapter',
+    incollection: 'chapter',
+    inproceedings: 'paper-conference',
+    conference: 'paper-conference',
+    phdthesis: 'thesis',
+    mastersthesis: 'thesis',
+    techreport: 'report',
+    online: 'webpage',
+    misc: 'document',
+};
+
+// Combining marks for the LaTeX accent commands reference managers emit, e.g. {\"o} or \'e
+const LATEX_ACCENTS: Record<string, string> = {
+    '"': '\u0308', "'": '\u0301', '`': '\u0300', '^': '\u0302', '~': '\u0303',
+    'c': '\u0327', 'v': '\u030C', '=': '\u0304', '.': '\u0307', 'u': '\u0306', 'H': '\u030B',
+};
+
+const LATEX_SYMBOLS: Record<string, string> = {
+    ss: 'ß', o: 'ø', O: 'Ø', ae: 'æ', AE: 'Æ', aa: 'å', AA: 'Å', l: 'ł', L: 'Ł', i: 'ı',
+};
+
+const cleanLatex = (value: string): string =>
+    value
+        .replace(/\\([`'^"~=.]|[cvuH](?=[\s{]))\s*\{?\s*([A-Za-z])\s*\}?/g, (_, accent, letter) => `${letter}${LATEX_ACCENTS[accent]}`)
+        .replace(/\\(ss|ae|AE|aa|AA|o|O|l|L|i)\b\s*/g, (_, name) => LATEX_SYMBOLS[name])
+        .replace(/\\([&%$#_{}])/g, '$1')
+        .replace(/\\(?:textit|textbf|emph|textsc|mkbibquote)\s*/g, '')
+        .replace(/---/g, '—')
+        .replace(/--/g, '–')
+        .replace(/[{}]/g, '')
+        .replace(/~/g, ' ')
+        .replace(/\s+/g, ' ')
+        .normalize('NFC')
+        .trim();
+
+// Entries may be written @type{...} or @type(...); values are braced or quoted
+const BIBTEX_DELIMITERS: Record<string, string> = { '{': '}', '"': '"', '(': ')' };
+
+// Reads a delimited value starting at `start`; nested braces are kept for cleanLatex
+const readBibtexValue = (text: string, start: number): { value: string; end: number } => {
+    const open = text[start];
+    const close = BIBTEX_DELIMITERS[open];
+    if (close) {
+        let depth = 0;
+        let quoted = false;
+        for (let i = start + 1; i < text.length; i++) {
+            const ch = text[i];
+            if (ch === '\\') { i++; continue; }
+            // A ")" inside a quoted field value does not end a parenthesized entry
+            if (open === '(' && ch === '"' && depth === 0) quoted = !quoted;
+            else if (quoted) continue;
+            else if (ch === '{') depth++;
+            else if (ch === '}' && depth > 0) depth--;
+            else if (ch === close && depth === 0) return { value: text.slice(start + 1, i), end: i + 1 };
+        }
+        return { value: text.slice(start + 1), end: text.length };
+    }
+    // Bare numbers and @string macros
+    const match = /^[^,}\s#]+/.exec(text.slice(start));
+    return { value: match ? match[0] : '', end: start + (match ? match[0].length : 0) };
+};
+
+const parseBibtexFields = (body: string, macros: Record<string, string>): Record<string, string> => {
+    const fields: Record<string, string> = {};
+    const fieldPattern = /([\w-]+)\s*=\s*/g;
+    let match: RegExpExecArray | null;
+    while ((match = fieldPattern.exec(body))) {
+        let cursor = match.index + match[0].length;
+        const parts: string[] = [];
+        // Values can be concatenated with #, e.g. jan # " 2020"
+        while (cursor < body.length) {
+            const { value, end } = readBibtexValue(body, cursor);
+            const isBare = !BIBTEX_DELIMITERS[body[cursor]];
+            parts.push(isBare ? (macros[value.toLowerCase()] ?? value) : value);
+            cursor = end;
+            const next = /^\s*#\s*/.exec(body.slice(cursor));
+            if (!next) break;
+            cursor += next[0].length;
+        }
+        fields[match[1].toLowerCase()] = parts.join('');
+        fieldPattern.lastIndex = cursor;
+    }
+    return fields;
+};
+
+// "Smith, John and van der Berg, Anna and {World Health Organization}"
+const splitBibtexNames = (value: string): string[] =>
+    value.split(/\s+and\s+(?![^{]*\})/).map(name => {
+        const trimmed = name.trim();
+        // Double-braced names are institutions and must not be reordered
+        if (/^\{.*\}$/.test(trimmed)) return cleanLatex(trimmed);
+        const cleaned = cleanLatex(trimmed);
+        if (cleaned.includes(',') || !cleaned.includes(' ')) return cleaned;
+        const words = cleaned.split(' ');
+        return `${words[words.length - 1]}, ${words.slice(0, -1).join(' ')}`;
+    }).filter(Boolean);
+
+export const parseBibtex = (text: string): Reference[] => {
+    const references: Reference[] = [];
+    const macros: Record<string, string> = {};
+    const entryPattern = /@(\w+)\s*[{(]/g;
+    let match: RegExpExecArray | null;
+    while ((match = entryPattern.exec(text))) {
+        const type = match[1].toLowerCase();
+        const { value: body, end } = readBibtexValue(text, match.index + match[0].length - 1);
+        entryPattern.lastIndex = end;
+        if (type === 'comment' || type === 'preamble') continue;
+        if (type === 'string') {
+            Object.assign(macros, parseBibtexFields(body, macros));
+            continue;
+        }
+
+        const comma = body.indexOf(',');
+        const key = comma === -1 ? body.trim() : body.slice(0, comma).trim();
+        const fields = parseBibtexFields(comma === -1 ? '' : body.slice(comma + 1), macros);
+        const field = (name: string) => fields[name] ? cleanLatex(fields[name]) : undefined;
+        references.push({
+            id: key,
+            type: BIBTEX_TYPES[type] || 'document',
+            title: field('title') || '',
+            authors: fields.author ? splitBibtexNames(fields.author) : [],
+            editors: fields.editor ? splitBibtexNames(fields.editor) : undefined,
+            year: field('year') || field('date')?.match(/\d{4}/)?.[0],
+            containerTitle: field('journal') || field('journaltitle') || field('booktitle'),
+            publisher: field('publisher') || field('institution') || field('school'),
+            volume: field('volume'),
+            issue: field('number') || field('issue'),
+            pages: field('pages'),
+            doi: field('doi'),
+            url: field('url'),
+        });
+    }
+    return references;
+};
+
+// --- RIS ---
+
+const RIS_TYPES: Record<string, string> = {
+    JOUR: 'article-journal',
+    JFULL: 'article-journal',
+    MGZN: 'article-magazine',
+    NEWS: 'article-newspaper',
+    BOOK: 'book',
+    EBOOK: 'book',
+    EDBOOK: 'book',
+    CHAP: 'chapter',
+    ECHAP: 'chapter',
+    CONF: 'paper-conference',
+    CPAPER: 'paper-conference',
+    THES: 'thesis',
+    RPRT: 'report',
+    ELEC: 'webpage',
+    WEB: 'webpage',
+};
+
+export const parseRis = (text: string): Reference[] => {
+    const references: Reference[] = [];
+    let tags: Record<string, string[]> = {};
+
+    const flush = () => {
+        const first = (...names: string[]) => names.map(n => tags[n]?.[0]).find(Boolean)?.trim();
+        if (!tags.TY) return;
+        const startPage = first('SP');
+        const endPage = first('EP');
+        references.push({
+            id: first('ID') || '',
+            type: RIS_TYPES[first('TY')!.toUpperCase()] || 'document',
+            title: first('TI', 'T1', 'CT', 'BT') || '',
+            authors: [...(tags.AU || []), ...(tags.A1 || [])].map(a => a.trim()),
+            editors: tags.ED || tags.A2 ? [...(tags.ED || []), ...(tags.A2 || [])].map(a => a.trim()) : undefined,
+            year: first('PY', 'Y1', 'DA')?.match(/\d{4}/)?.[0],
+            containerTitle: first('T2', 'JO', 'JF', 'JA', 'J2'),
+            publisher: first('PB'),
+            volume: first('VL'),
+            issue: first('IS'),
+            pages: startPage && endPage && startPage !== endPage ? `${startPage}–${endPage}` : startPage,
+            doi: first('DO')?.replace(/^https?:\/\/(dx\.)?doi\.org\//i, ''),
+            url: first('UR', 'L2'),
+        });
+    };
+
+    text.split(/\r?\n/).forEach(line => {
+        const match = /^([A-Z][A-Z0-9])  -\s?(.*)$/.exec(line);
+        if (!match) return;
+        const [, tag, value] = match;
+        if (tag === 'TY') tags = {};
+        if (tag === 'ER') {
+            flush();
+            tags = {};
+            return;
+        }
+        (tags[tag] = tags[tag] || []).push(value);
+    });
+    flush(); // A file truncated before its final ER
+    return references;
+};
+
+// --- CSL-JSON ---
+
+const cslNames = (names: any): string[] =>
+    Array.isArray(names)
+        ? names.map((n: any) => n.literal || [n.family, n.given].filter(Boolean).join(', ')).filter(Boolean)
+        : [];
+
+const cslYear = (date: any): string | undefined => {
+    const year = date?.['date-parts']?.[0]?.[0] ?? date?.raw?.match(/\d{4}/)?.[0] ?? date?.literal?.match(/\d{4}/)?.[0];
+    return year !== undefined ? String(year) : undefined;
+};
+
+export const parseCslJson = (text: string): Reference[] => {
+    const data = JSON.parse(text);
+    // Zotero exports an array; some tools wrap it in { items } or export a single item
+    const items: any[] = Array.isArray(data) ? data : Array.isArray(data?.items) ? data.items : [data];
+    return items.filter(item => item && typeof item === 'object' && item.title).map(item => ({
+        id: String(item['citation-key'] || item.id || ''),
+        type: item.type || 'document',
+        title: String(item.title),
+        authors: cslNames(item.author),
+        editors: item.editor ? cslNames(item.editor) : undefined,
+        year: cslYear(item.issued),
+        containerTitle: item['container-title'],
+        publisher: item.publisher,
+        volume: item.volume !== undefined ? String(item.volume) : undefined,
+        issue: item.issue !== undefined ? String(item.issue) : undefined,
+        pages: item.page,
+        doi: item.DOI,
+        url: item.URL,
+    }));
+};
+
+// --- Import ---
+
+const familyName = (name: string) => name.split(',')[0].trim();
+
+const makeCitationKey = (ref: Reference): string =>
+    `${familyName(ref.authors[0] || ref.title.split(' ')[0] || 'ref')}${ref.year || ''}`
+        .normalize('NFKD').replace(/[^\w]/g, '').toLowerCase();
+
+// Drops undefined and blank fields so stored references stay small
+const compactReference = (ref: Reference): Reference =>
+    Object.fromEntries(Object.entries(ref).filter(([, v]) => v !== undefined && v !== '')) as unknown as Reference;
+
+/**
+ * Parses a BibTeX, RIS or CSL-JSON export, picking the format from the extension and
+ * falling back to the content. Throws when the file holds no recognisable entries.
+ */
+export const parseReferenceFile = (fileName: string, text: string): Reference[] => {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    const trimmed = text.trim();
+    let references: Reference[];
+    if (extension === 'json' || trimmed.startsWith('[') || trimmed.startsWith('{')) {
+        references = parseCslJson(trimmed);
+    } else if (extension === 'ris' || /^TY  - /m.test(trimmed)) {
+        references = parseRis(trimmed);
+    } else {
+        references = parseBibtex(trimmed);
+    }
+    references = references.filter(ref => ref.title);
+    if (references.length === 0) {
+        throw new Error(`No references found in ${fileName}.`);
+    }
+    return references.map(ref => compactReference({ ...ref, id: ref.id || makeCitationKey(ref) }));
+};
+
+const sameReference = (a: Reference, b: Reference) =>
+    (!!a.doi && !!b.doi && a.doi.toLowerCase() === b.doi.toLowerCase()) ||
+    (a.title.toLowerCase() === b.title.toLowerCase() && a.year === b.year);
+
+/**
+ * Adds imported references to a list. Re-importing an updated export replaces entries with
+ * the same DOI, or the same title and year, keeping any full-text link; citation keys are
+ * made unique with a letter suffix.
+ */
+export const mergeReferences = (existing: Reference[], imported: Reference[]): Reference[] => {
+    const result = [...existing];
+    imported.forEach(ref => {
+        const index = result.findIndex(r => sameReference(r, ref));
+        if (index !== -1) {
+            result[index] = { ...ref, id: result[index].id, fileName: result[index].fileName ?? ref.fileName };
+            return;
+        }
+        let id = ref.id;
+        for (let n = 0; result.some(r => r.id === id); n++) id = n < 26 ? `${ref.id}${String.fromCharCode(97 + n)}` : `${ref.id}_${n}`;
+        result.push({ ...ref, id });
+    });
+    return result;
+};
+
+// Full texts are usually saved as "Smith 2020 - Title.pdf" or similar
+export const suggestFileLink = (ref: Reference, files: FileData[]): string | undefined => {
+    const simplify = (value: string) => value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    const surname = ref.authors[0] ? simplify(familyName(ref.authors[0])) : '';
+    const titleWords = simplify(ref.title).match(/\p{L}{4,}/gu)?.slice(0, 4) || [];
+    const match = files.find(file => {
+        const name = simplify(file.name);
+        if (surname && ref.year && name.includes(surname) && name.includes(ref.year)) return true;
+        return titleWords.length >= 3 && titleWords.every(w => name.includes(w));
+    });
+    return match?.name;
+};
+
+// --- Formatting ---
+
+const formatAuthors = (names: string[]): string => {
+    if (names.length === 0) return '';
+    if (names.length === 1) return names[0];
+    if (names.length <= 20) return `${names.slice(0, -1).join('; ')} & ${names[names.length - 1]}`;
+    return `${names.slice(0, 19).join('; ')} ... ${names[names.length - 1]}`;
+};
+
+// APA-like, field-complete line; the model reformats to the requested style
+export const formatReference = (ref: Reference): string => {
+    const parts: string[] = [];
+    parts.push(ref.authors.length > 0 ? formatAuthors(ref.authors) : (ref.editors ? `${formatAuthors(ref.editors)} (Ed${ref.editors.length > 1 ? 's' : ''}.)` : ''));
+    parts.push(`(${ref.year || 'n.d.'}).`);
+    parts.push(`${ref.title}.`);
+    if (ref.containerTitle) {
+        const volume = ref.volume ? `, ${ref.volume}${ref.issue ? `(${ref.issue})` : ''}` : '';
+        const pages = ref.pages ? `, ${ref.pages}` : '';
+        const prefix = ref.type === 'chapter' || ref.type === 'paper-conference' ? 'In ' : '';
+        const editors = prefix && ref.editors && ref.authors.length > 0 ? `${formatAuthors(ref.editors)} (Ed${ref.editors.length > 1 ? 's' : ''}.), ` : '';
+        parts.push(`${prefix}${editors}${ref.containerTitle}${volume}${pages}.`);
+    }
+    if (ref.publisher) parts.push(`${ref.publisher}.`);
+    if (ref.doi) parts.push(`https://doi.org/${ref.doi}`);
+    else if (ref.url) parts.push(ref.url);
+    return parts.filter(Boolean).join(' ');
+};
+
+export const formatReferenceList = (references: Reference[]): string =>
+    references
+        .map(ref => `[${ref.id}] ${formatReference(ref)}${ref.fileName ? ` {Full text: ${ref.fileName}}` : ''}`)
+        .join('\n');
@@ -0,0 +1,148 @@
+import { PAGE_MARKER_PATTERN } from './fileParsing';
+
+export interface ChunkProvenance {
+    fileName: string;
+    index: number; // 1-based position among the file's chunks
+    total: number;
+    section?: string; // Heading in effect where the chunk starts, and where it ends if that differs
+    pageStart?: string;
+    pageEnd?: string;
+}
+
+export interface DocumentChunk {
+    text: string;
+    overlap: string; // End of the previous chunk, repeated for continuity; already extracted
+    provenance: ChunkProvenance;
+}
+
+export interface ChunkOptions {
+    maxChars: number;
+    overlapChars: number;
+}
+
+interface Span {
+    start: number;
+    end: number;
+}
+
+interface Boundary {
+    pattern: RegExp;
+    cutAfter: boolean; // Cut after the match (paragraph and sentence ends) rather than before it (headings)
+}
+
+// Tried in order: a section that is too long is split into paragraphs, a paragraph into sentences.
+// Markdown tables have no blank lines inside, so they stay whole at the paragraph level.
+const BOUNDARIES: Boundary[] = [
+    { pattern: /^#{1,6}\s/gm, cutAfter: false },
+    { pattern: /\n[ \t]*\n\s*/g, cutAfter: true },
+    { pattern: /[.!?…]["'”’)\]]*\s+/g, cutAfter: true },
+];
+
+const HEADING_PATTERN = /^#{1,6}\s+(.+)$/gm;
+
+const splitSpan = (text: string, span: Span, { pattern, cutAfter }: Boundary): Span[] => {
+    const cuts: number[] = [];
+    for (const match of text.slice(span.start, span.end).matchAll(pattern)) {
+        const cut = span.start + match.index! + (cutAfter ? match[0].length : 0);
+        if (cut > span.start && cut < span.end) cuts.push(cut);
+    }
+    const parts = [span.start, ...cuts].map((start, i) => ({ start, end: cuts[i] ?? span.end }));
+    // A heading stays with the text under it instead of ending up alone at the foot of a chunk
+    return parts.reduce<Span[]>((merged, part) => {
+        const previous = merged[merged.length - 1];
+        if (previous && /^#{1,6}\s[^\n]*\s*$/.test(text.slice(previous.start, previous.end))) previous.end = part.end;
+        else merged.push(part);
+        return merged;
+    }, []);
+};
+
+// Last resort for a run-on "sentence" such as an OCR'd table: cut at whitespace, never inside a page marker
+const hardSplit = (text: string, span: Span, maxChars: number, markers: Span[]): Span[] => {
+    const pieces: Span[] = [];
+    let start = span.start;
+    while (span.end - start > maxChars) {
+        let cut = start + maxChars;
+        const space = text.lastIndexOf(' ', cut);
+        if (space > start + maxChars * 0.9) cut = space + 1;
+        const inMarker = markers.find(m => m.start < cut && m.end > cut);
+        if (inMarker && inMarker.start > start) cut = inMarker.start;
+        pieces.push({ start, end: cut });
+        start = cut;
+    }
+    pieces.push({ start, end: span.end });
+    return pieces;
+};
+
+// Breaks a span into pieces no longer than maxChars, using the coarsest boundary that works
+const atomize = (text: string, span: Span, level: number, maxChars: number, markers: Span[]): Span[] => {
+    if (span.end - span.start <= maxChars) return [span];
+    if (level >= BOUNDARIES.length) return hardSplit(text, span, maxChars, markers);
+    const parts = splitSpan(text, span, BOUNDARIES[level]);
+    return parts.flatMap(part => atomize(text, part, level + 1, maxChars, markers));
+};
+
+// Starts the overlap at a sentence boundary so the repeated context does not open mid-sentence
+const overlapBefore = (text: string, end: number, overlapChars: number, floor: number): string => {
+    if (overlapChars <= 0) return '';
+    const start = Math.max(floor, end - overlapChars);
+    const tail = text.slice(start, end);
+    const sentence = /[.!?…]["'”’)\]]*\s+/.exec(tail);
+    return (sentence && sentence.index + sentence[0].length < tail.length ? tail.slice(sentence.index + sentence[0].length) : tail).trim();
+};
+
+/**
+ * Splits a document into extraction chunks at headings, then paragraphs, then sentences, so
+ * no sentence or table is cut unless it alone exceeds the chunk size. A chunk starts a new
+ * section rather than squeezing the opening of one onto its end once it is half full. Each
+ * chunk carries its file, section and page range, and the end of the previous chunk as overlap.
+ */
+export const chunkDocument = (text: string, fileName: string, { maxChars, overlapChars }: ChunkOptions): DocumentChunk[] => {
+    if (!text.trim()) return [];
+    const markers = Array.from(text.matchAll(PAGE_MARKER_PATTERN)).map(m => ({ start: m.index!, end: m.index! + m[0].length, label: m[1], marker: m[0] }));
+    const headings = Array.from(text.matchAll(HEADING_PATTERN)).map(m => ({ start: m.index!, title: m[1].trim() }));
+    const atoms = atomize(text, { start: 0, end: text.length }, 0, maxChars, markers);
+
+    const spans: Span[] = [];
+    let current: Span | null = null;
+    atoms.forEach(atom => {
+        const startsSection = /^#{1,6}\s/.test(text.slice(atom.start, atom.start + 7));
+        const length = current ? current.end - current.start : 0;
+        if (current && (length + (atom.end - atom.start) > maxChars || (startsSection && length >= maxChars / 2))) {
+            spans.push(current);
+            current = null;
+        }
+        current = current ? { start: current.start, end: atom.end } : { ...atom };
+    });
+    if (current) spans.push(current);
+
+    return spans.map((span, i) => {
+        const openMarker = markers.filter(m => m.start < span.start).pop();
+        const inside = markers.filter(m => m.start >= span.start && m.start < span.end);
+        const body = text.slice(span.start, span.end).trim();
+        // A chunk that opens mid-page still needs to know which page it is on
+        const chunkText = openMarker && !/^\[\[Page /.test(body) ? `${openMarker.marker}\n${body}` : body;
+
+        const startHeading = headings.filter(h => h.start <= span.start).pop();
+        const endHeading = headings.filter(h => h.start < span.end).pop();
+        const section = startHeading && endHeading && endHeading !== startHeading
+            ? `${startHeading.title} … ${endHeading.title}`
+            : (startHeading || endHeading)?.title;
+        const pageStart = openMarker && !(inside[0]?.start === span.start) ? openMarker.label : inside[0]?.label;
+        const pageEnd = inside.length > 0 ? inside[inside.length - 1].label : pageStart;
+
+        return {
+            text: chunkText,
+            overlap: i > 0 ? overlapBefore(text, spans[i - 1].end, overlapChars, spans[i - 1].start) : '',
+            provenance: { fileName, index: i + 1, total: spans.length, section, pageStart, pageEnd },
+        };
+    });
+};
+
+// "Smith 2020.pdf, part 2 of 5, section "2. Methods", pp. 14–22"
+export const formatChunkLabel = ({ fileName, index, total, section, pageStart, pageEnd }: ChunkProvenance): string => {
+    const parts = [fileName];
+    if (total > 1) parts.push(`part ${index} of ${total}`);
+    if (section) parts.push(`section "${section}"`);
+    if (pageStart) parts.push(pageEnd && pageEnd !== pageStart ? `pp. ${pageStart}–${pageEnd}` : `p. ${pageStart}`);
+    return parts.join(', ');
+};
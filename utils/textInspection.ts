@@ -0,0 +1,113 @@
+import { PAGE_MARKER_PATTERN } from './fileParsing';
+
+export interface TextStats {
+    characters: number;
+    words: number;
+    pages: number; // Page markers found; 0 for formats without pages
+    language: string; // English name, or 'Unknown' when the sample is too short or mixed
+}
+
+// Scripts that identify a language (or family) on their own
+const SCRIPT_LANGUAGES: { pattern: RegExp; language: string }[] = [
+    { pattern: /[\u0370-\u03FF\u1F00-\u1FFF]/g, language: 'Greek' },
+    { pattern: /[\u0400-\u04FF]/g, language: 'Russian' },
+    { pattern: /[\u0600-\u06FF]/g, language: 'Arabic' },
+    { pattern: /[\u0590-\u05FF]/g, language: 'Hebrew' },
+    { pattern: /[\u3040-\u30FF]/g, language: 'Japanese' },
+    { pattern: /[\u4E00-\u9FFF]/g, language: 'Chinese' },
+];
+
+// The most frequent function words of each Latin-script language
+const STOPWORDS: Record<string, string[]> = {
+    English: ['the', 'and', 'of', 'to', 'in', 'is', 'that', 'for', 'with', 'as', 'this', 'are'],
+    German: ['der', 'die', 'und', 'das', 'ist', 'nicht', 'mit', 'den', 'von', 'sich', 'auch', 'auf'],
+    French: ['le', 'la', 'les', 'et', 'des', 'est', 'une', 'dans', 'que', 'pour', 'qui', 'sur'],
+    Spanish: ['el', 'la', 'los', 'que', 'y', 'del', 'las', 'una', 'por', 'con', 'para', 'es'],
+    Italian: ['il', 'di', 'che', 'e', 'la', 'della', 'per', 'sono', 'non', 'una', 'gli', 'del'],
+    Portuguese: ['o', 'que', 'do', 'da', 'em', 'um', 'para', 'com', 'não', 'uma', 'os', 'no'],
+    Dutch: ['de', 'het', 'een', 'en', 'van', 'is', 'dat', 'niet', 'op', 'met', 'voor', 'zijn'],
+};
+
+// Detection reads a sample from the middle of the text, past front matter in another language
+const LANGUAGE_SAMPLE_CHARS = 20000;
+const MIN_LANGUAGE_WORDS = 30;
+
+export const detectLanguage = (text: string): string => {
+    const start = Math.max(0, Math.floor(text.length / 2) - LANGUAGE_SAMPLE_CHARS / 2);
+    const sample = text.slice(start, start + LANGUAGE_SAMPLE_CHARS).replace(PAGE_MARKER_PATTERN, ' ');
+    const letters = sample.replace(/[^\p{L}]/gu, '').length;
+    if (letters === 0) return 'Unknown';
+
+    for (const { pattern, language } of SCRIPT_LANGUAGES) {
+        if ((sample.match(pattern)?.length || 0) / letters > 0.3) return language;
+    }
+
+    const words = sample.toLowerCase().match(/\p{L}+/gu) || [];
+    if (words.length < MIN_LANGUAGE_WORDS) return 'Unknown';
+    const counts = Object.entries(STOPWORDS).map(([language, stopwords]) => {
+        const set = new Set(stopwords);
+        return { language, hits: words.filter(w => set.has(w)).length };
+    }).sort((a, b) => b.hits - a.hits);
+    // Real prose is at least ~10% function words; anything less is tables, references or noise
+    return counts[0].hits / words.length >= 0.1 ? counts[0].language : 'Unknown';
+};
+
+export const getTextStats = (text: string): TextStats => ({
+    characters: text.length,
+    words: (text.replace(PAGE_MARKER_PATTERN, ' ').match(/\S+/g) || []).length,
+    pages: (text.match(PAGE_MARKER_PATTERN) || []).length,
+    language: detectLanguage(text),
+});
+
+interface PageSpan {
+    label: string;
+    start: number; // Offset of the page marker
+    end: number; // Offset of the next marker, or the end of the text
+}
+
+const listPageSpans = (text: string): PageSpan[] => {
+    const markers = Array.from(text.matchAll(PAGE_MARKER_PATTERN));
+    return markers.map((m, i) => ({
+        label: m[1],
+        start: m.index!,
+        end: i + 1 < markers.length ? markers[i + 1].index! : text.length,
+    }));
+};
+
+/**
+ * Removes pages named by printed label, e.g. "i-xiv, 301-320, 45". A range runs in document
+ * order from the first page labelled with its start to the next page labelled with its end,
+ * so roman-numbered front matter and arabic body pages can be mixed freely.
+ */
+export const removePageRanges = (text: string, spec: string): { text: string; removed: string[]; notFound: string[] } => {
+    const pages = listPageSpans(text);
+    const findPage = (label: string, from = 0) => pages.findIndex((p, i) => i >= from && p.label.toLowerCase() === label.toLowerCase());
+    const removeIndexes = new Set<number>();
+    const notFound: string[] = [];
+
+    spec.split(',').map(part => part.trim()).filter(Boolean).forEach(part => {
+        const [first, last] = part.split(/\s*[-–]\s*/);
+        const from = findPage(first);
+        const to = last ? findPage(last, Math.max(from, 0)) : from;
+        if (from === -1 || to === -1) {
+            notFound.push(part);
+            return;
+        }
+        for (let i = from; i <= to; i++) removeIndexes.add(i);
+    });
+
+    let result = '';
+    let cursor = 0;
+    pages.forEach((page, i) => {
+        if (!removeIndexes.has(i)) return;
+        result += text.slice(cursor, page.start);
+        cursor = page.end;
+    });
+    result += text.slice(cursor);
+
+    return {
+        text: result.replace(/\n{3,}/g, '\n\n').trim(),
+        removed: pages.filter((_, i) => removeIndexes.has(i)).map(p => p.label),
+        notFound,
+    };
+};
@@ -0,0 +1,277 @@
+import { WorkflowFile, WorkflowFileHeader, NodeExecutionState, ChapterSection, SectionVersion, TaskType, WorkflowState, LlmProviderId, ProjectData, ProtocolDefinition } from '../types';
+import { APP_VERSION } from '../constants';
+
+const FILE_FORMAT: WorkflowFileHeader['format'] = 'universal-academic-workflow';
+
+/**
+ * Version history:
+ *  1 - headerless `{ nodes, edges, executionStates }` dump (files saved before the header existed)
+ *  2 - adds `header`; every node has a status and every execution state has the full field set
+ */
+export const WORKFLOW_SCHEMA_VERSION = 2;
+
+type ProjectContent = Omit<ProjectData, 'id'>;
+
+export type WorkflowFileParseResult =
+    | { ok: true; file: WorkflowFile; warnings: string[] }
+    | { ok: false; errors: string[] };
+
+/**
+ * Restores what JSON serialization loses or older saves lack: Date objects on section versions,
+ * token usage, and transient streaming flags that cannot survive a reload.
+ */
+export const reviveExecutionStates = (states: Record<string, any>): Record<string, NodeExecutionState> => {
+    Object.keys(states).forEach(key => {
+        states[key].documentSections?.forEach((sec: ChapterSection) => {
+            sec.versions.forEach((v: SectionVersion) => v.createdAt = new Date(v.createdAt));
+            sec.isPending = false;
+        });
+        if (!states[key].tokenUsage) {
+            states[key].tokenUsage = { promptTokens: 0, responseTokens: 0, totalTokens: 0 };
+        }
+        delete states[key].streamingMessageId;
+    });
+    return states;
+};
+
+// Each entry upgrades a file from schema N to N + 1. Add a step here whenever WORKFLOW_SCHEMA_VERSION is bumped.
+const MIGRATIONS: Record<number, (data: any) => any> = {
+    1: (data) => ({
+        header: { format: FILE_FORMAT, schemaVersion: 2, appVersion: 'unknown', createdAt: new Date(0).toISOString() },
+        nodes: Array.isArray(data.nodes)
+            ? data.nodes.map((node: any) => ({ ...node, status: node?.status === 'running' || !node?.status ? 'idle' : node.status }))
+            : data.nodes,
+        edges: data.edges ?? [],
+        executionStates: Object.fromEntries(Object.entries(data.executionStates ?? {}).map(([id, state]: [string, any]) => [id, {
+            messages: [],
+            workflowState: WorkflowState.CONFIGURING,
+            documentSections: [],
+            elapsedTime: 0,
+            logs: [],
+            tokenUsage: { promptTokens: 0, responseTokens: 0, totalTokens: 0 },
+            ...state
+        }]))
+    }),
+};
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const TASK_TYPES = new Set<string>(Object.values(TaskType));
+const WORKFLOW_STATES = new Set<string>(Object.values(WorkflowState));
+const PROVIDER_IDS = new Set<string>(Object.values(LlmProviderId));
+const NODE_STATUSES = new Set(['idle', 'running', 'completed', 'error', 'cancelled', 'skipped']);
+const MESSAGE_ROLES = new Set(['user', 'assistant', 'system']);
+
+const describeNode = (node: any, index: number): string => {
+    if (!isObject(node) || !isNonEmptyString(node.id)) return `Node #${index + 1}`;
+    return `Node #${index + 1} (id "${node.id}"${node.label ? `, "${node.label}"` : ''})`;
+};
+
+/**
+ * Checks a current-schema file and reports every problem with the node/edge and field it concerns.
+ * Problems that would break rendering or runs are errors; leftovers that can be dropped are warnings.
+ */
+export const validateWorkflowFile = (data: any): { errors: string[]; warnings: string[] } => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!Array.isArray(data.nodes)) errors.push('"nodes" must be an array.');
+    if (!Array.isArray(data.edges)) errors.push('"edges" must be an array.');
+    if (!isObject(data.executionStates)) errors.push('"executionStates" must be an object keyed by node id.');
+    if (errors.length > 0) return { errors, warnings };
+
+    const nodeIds = new Set<string>();
+    data.nodes.forEach((node: any, index: number) => {
+        const where = describeNode(node, index);
+        if (!isObject(node)) {
+            errors.push(`${where}: must be an object.`);
+            return;
+        }
+        if (!isNonEmptyString(node.id)) {
+            errors.push(`${where}: "id" must be a non-empty string.`);
+        } else if (nodeIds.has(node.id)) {
+            errors.push(`${where}: duplicate id; another node already uses it.`);
+        } else {
+            nodeIds.add(node.id);
+        }
+        if (!TASK_TYPES.has(node.type)) errors.push(`${where}: "type" is "${node.type}", which is not a known task type.`);
+        if (!isObject(node.position) || !Number.isFinite(node.position.x) || !Number.isFinite(node.position.y)) {
+            errors.push(`${where}: "position" must have numeric "x" and "y".`);
+        }
+        if (!isObject(node.config)) errors.push(`${where}: "config" must be an object.`);
+        if (!NODE_STATUSES.has(node.status)) errors.push(`${where}: "status" is "${node.status}", expected one of ${Array.from(NODE_STATUSES).join(', ')}.`);
+        if (node.label !== undefined && typeof node.label !== 'string') errors.push(`${where}: "label" must be a string.`);
+        if (node.provider !== undefined && (!isObject(node.provider) || !PROVIDER_IDS.has(node.provider.id))) {
+            errors.push(`${where}: "provider.id" must be one of ${Array.from(PROVIDER_IDS).join(', ')}.`);
+        }
+    });
+
+    data.edges.forEach((edge: any, index: number) => {
+        const where = `Edge #${index + 1}${isObject(edge) && edge.id ? ` (id "${edge.id}")` : ''}`;
+        if (!isObject(edge)) {
+            errors.push(`${where}: must be an object.`);
+            return;
+        }
+        if (!isNonEmptyString(edge.id)) errors.push(`${where}: "id" must be a non-empty string.`);
+        (['source', 'target'] as const).forEach(end => {
+            if (!isNonEmptyString(edge[end])) {
+                errors.push(`${where}: "${end}" must be a node id.`);
+            } else if (!nodeIds.has(edge[end])) {
+                errors.push(`${where}: "${end}" points to node "${edge[end]}", which is not in the file.`);
+            }
+        });
+    });
+
+    Object.entries(data.executionStates).forEach(([nodeId, state]: [string, any]) => {
+        const where = `Execution state for node "${nodeId}"`;
+        if (!nodeIds.has(nodeId)) {
+            warnings.push(`${where}: no such node; the state was dropped.`);
+            return;
+        }
+        if (!isObject(state)) {
+            errors.push(`${where}: must be an object.`);
+            return;
+        }
+        if (!WORKFLOW_STATES.has(state.workflowState)) errors.push(`${where}: "workflowState" is "${state.workflowState}", which is not a known state.`);
+        if (!Array.isArray(state.logs)) errors.push(`${where}: "logs" must be an array.`);
+        if (!isObject(state.tokenUsage) || !['promptTokens', 'responseTokens', 'totalTokens'].every(k => Number.isFinite(state.tokenUsage[k]))) {
+            errors.push(`${where}: "tokenUsage" must have numeric promptTokens, responseTokens and totalTokens.`);
+        }
+
+        if (!Array.isArray(state.messages)) {
+            errors.push(`${where}: "messages" must be an array.`);
+        } else {
+            state.messages.forEach((msg: any, i: number) => {
+                if (!isObject(msg) || !isNonEmptyString(msg.id) || !MESSAGE_ROLES.has(msg.role) || typeof msg.content !== 'string') {
+                    errors.push(`${where}, message #${i + 1}: needs a string "id", a role of user/assistant/system and string "content".`);
+                }
+            });
+        }
+
+        if (!Array.isArray(state.documentSections)) {
+            errors.push(`${where}: "documentSections" must be an array.`);
+            return;
+        }
+        state.documentSections.forEach((sec: any, i: number) => {
+            const sectionWhere = `${where}, section #${i + 1}${isObject(sec) && sec.title ? ` ("${sec.title}")` : ''}`;
+            if (!isObject(sec) || !isNonEmptyString(sec.id)) {
+                errors.push(`${sectionWhere}: needs a string "id".`);
+                return;
+            }
+            if (!Array.isArray(sec.versions) || sec.versions.length === 0) {
+                errors.push(`${sectionWhere}: "versions" must be a non-empty array.`);
+                return;
+            }
+            sec.versions.forEach((v: any, j: number) => {
+                if (!isObject(v) || !isNonEmptyString(v.id) || typeof v.content !== 'string') {
+                    errors.push(`${sectionWhere}, version #${j + 1}: needs a string "id" and string "content".`);
+                } else if (Number.isNaN(new Date(v.createdAt).getTime())) {
+                    errors.push(`${sectionWhere}, version #${j + 1}: "createdAt" is not a valid date.`);
+                }
+            });
+            if (!sec.versions.some((v: any) => v?.id === sec.activeVersionId)) {
+                errors.push(`${sectionWhere}: "activeVersionId" does not match any of its versions.`);
+            }
+        });
+    });
+
+    return { errors, warnings };
+};
+
+// Protocol overrides are optional, so a malformed one is dropped with a warning rather than failing the load
+const readProtocolOverrides = (value: any, warnings: string[]): ProtocolDefinition[] | undefined => {
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value)) {
+        warnings.push('"protocolOverrides" is not an array; the built-in protocols will be used.');
+        return undefined;
+    }
+    const seen = new Set<string>();
+    return value.filter((protocol: any, index: number) => {
+        const valid = isObject(protocol) && isNonEmptyString(protocol.id) && isNonEmptyString(protocol.name) && TASK_TYPES.has(protocol.taskType)
+            && typeof protocol.body === 'string' && Number.isFinite(protocol.version)
+            && Array.isArray(protocol.stopPhrases) && Array.isArray(protocol.requiredInputs);
+        if (!valid) {
+            warnings.push(`Protocol override #${index + 1}: needs an id, name, known task type, version, body, stopPhrases and requiredInputs; it was dropped.`);
+            return false;
+        }
+        if (seen.has(protocol.taskType)) {
+            warnings.push(`Protocol override #${index + 1}: a second override for ${protocol.taskType}; it was dropped.`);
+            return false;
+        }
+        seen.add(protocol.taskType);
+        return true;
+    });
+};
+
+export const serializeWorkflowFile = (content: ProjectContent, projectName?: string): string => {
+    const file: WorkflowFile = {
+        header: {
+            format: FILE_FORMAT,
+            schemaVersion: WORKFLOW_SCHEMA_VERSION,
+            appVersion: APP_VERSION,
+            createdAt: new Date().toISOString(),
+            projectName,
+        },
+        ...content,
+    };
+    return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Parses a saved workflow, upgrading older schemas through MIGRATIONS before validating.
+ * Never throws; every problem found is returned so the user can fix the file in one pass.
+ */
+export const parseWorkflowFile = (text: string): WorkflowFileParseResult => {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        return { ok: false, errors: [`The file is not valid JSON: ${(e as Error).message}`] };
+    }
+    if (!isObject(data)) return { ok: false, errors: ['The file does not contain a workflow object.'] };
+
+    let version: number;
+    if (isObject(data.header)) {
+        if (data.header.format !== FILE_FORMAT) {
+            return { ok: false, errors: [`Unrecognized file format "${data.header.format}".`] };
+        }
+        version = data.header.schemaVersion;
+        if (!Number.isInteger(version) || version < 1) {
+            return { ok: false, errors: [`"header.schemaVersion" must be a positive integer, got ${JSON.stringify(version)}.`] };
+        }
+    } else if ('nodes' in data) {
+        version = 1;
+    } else {
+        return { ok: false, errors: ['The file has neither a workflow header nor a "nodes" list.'] };
+    }
+
+    if (version > WORKFLOW_SCHEMA_VERSION) {
+        const savedBy = data.header.appVersion ? ` by app version ${data.header.appVersion}` : '';
+        return { ok: false, errors: [`The file was saved${savedBy} with schema version ${version}, but this app reads up to version ${WORKFLOW_SCHEMA_VERSION}. Update the app to open it.`] };
+    }
+
+    const warnings: string[] = [];
+    if (version < WORKFLOW_SCHEMA_VERSION) {
+        warnings.push(`Upgraded from schema version ${version} to ${WORKFLOW_SCHEMA_VERSION}.`);
+    }
+    while (version < WORKFLOW_SCHEMA_VERSION) {
+        data = MIGRATIONS[version](data);
+        version++;
+    }
+
+    const validation = validateWorkflowFile(data);
+    if (validation.errors.length > 0) return { ok: false, errors: validation.errors };
+    warnings.push(...validation.warnings);
+
+    const nodeIds = new Set(data.nodes.map((n: any) => n.id));
+    const executionStates = Object.fromEntries(Object.entries(data.executionStates).filter(([id]) => nodeIds.has(id)));
+    const protocolOverrides = readProtocolOverrides(data.protocolOverrides, warnings);
+
+    return {
+        ok: true,
+        file: { header: data.header, nodes: data.nodes, edges: data.edges, executionStates: reviveExecutionStates(executionStates), protocolOverrides },
+        warnings,
+    };
+};
@@ -0,0 +1,132 @@
+import { WorkflowNode, WorkflowEdge } from '../types';
+
+export type NodeRunOutcome = 'completed' | 'awaiting' | 'error' | 'cancelled';
+export type WorkflowRunResult = NodeRunOutcome | 'skipped';
+
+// 'skip-downstream' keeps independent branches running after a failure; 'stop' launches nothing new.
+export type WorkflowErrorPolicy = 'skip-downstream' | 'stop';
+
+export const getUpstreamIds = (nodeId: string, edges: WorkflowEdge[]): string[] => {
+    return Array.from(new Set(edges.filter(e => e.target === nodeId).map(e => e.source)));
+};
+
+/**
+ * Kahn's algorithm over the node graph. Edges pointing at unknown nodes are ignored.
+ * Any node that never reaches in-degree zero sits on (or behind) a cycle and is returned in `cyclic`.
+ */
+export const topologicalSort = (nodes: WorkflowNode[], edges: WorkflowEdge[]): { order: string[]; cyclic: string[] } => {
+    const ids = new Set(nodes.map(n => n.id));
+    const inDegree: Record<string, number> = {};
+    const outgoing: Record<string, string[]> = {};
+    nodes.forEach(n => { inDegree[n.id] = 0; outgoing[n.id] = []; });
+
+    edges.forEach(e => {
+        if (!ids.has(e.source) || !ids.has(e.target)) return;
+        outgoing[e.source].push(e.target);
+        inDegree[e.target]++;
+    });
+
+    // Seed in canvas order so the result is stable between runs
+    const queue = nodes.filter(n => inDegree[n.id] === 0).map(n => n.id);
+    const order: string[] = [];
+
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        order.push(id);
+        for (const next of outgoing[id]) {
+            inDegree[next]--;
+            if (inDegree[next] === 0) queue.push(next);
+        }
+    }
+
+    const cyclic = nodes.filter(n => !order.includes(n.id)).map(n => n.id);
+    return { order, cyclic };
+};
+
+const BLOCKED_BY: Record<Exclude<WorkflowRunResult, 'completed'>, string> = {
+    awaiting: 'is awaiting user action',
+    error: 'failed',
+    cancelled: 'was cancelled',
+    skipped: 'was skipped',
+};
+
+interface WorkflowRunHandlers {
+    runNode: (nodeId: string) => Promise<NodeRunOutcome>;
+    onSkip: (nodeId: string, reason: string) => void;
+    // Called before anything runs for each edge left behind by a deleted node
+    onDanglingEdge: (edge: WorkflowEdge, description: string) => void;
+}
+
+/**
+ * Runs every node once its upstream nodes have completed, launching independent branches in parallel.
+ * A node whose upstream errored, was cancelled or skipped, or is awaiting user action is skipped rather than run
+ * on incomplete context. Edges to or from missing nodes are reported and dropped, since their target could
+ * otherwise never run.
+ */
+export const runWorkflowGraph = async (
+    nodes: WorkflowNode[],
+    edges: WorkflowEdge[],
+    { runNode, onSkip, onDanglingEdge }: WorkflowRunHandlers,
+    errorPolicy: WorkflowErrorPolicy = 'skip-downstream'
+): Promise<Record<string, WorkflowRunResult>> => {
+    const labelOf = (id: string) => {
+        const node = nodes.find(n => n.id === id);
+        return node ? `"${node.label || node.type}"` : `a deleted node (${id})`;
+    };
+
+    const ids = new Set(nodes.map(n => n.id));
+    const dangling = edges.filter(e => !ids.has(e.source) || !ids.has(e.target));
+    dangling.forEach(e => onDanglingEdge(e, `Ignored the connection from ${labelOf(e.source)} to ${labelOf(e.target)}`));
+    const connected = edges.filter(e => !dangling.includes(e));
+
+    const { order, cyclic } = topologicalSort(nodes, connected);
+    if (cyclic.length > 0) {
+        throw new Error(`Workflow contains a cycle involving: ${cyclic.map(id => nodes.find(n => n.id === id)?.label || id).join(', ')}`);
+    }
+
+    const results: Record<string, WorkflowRunResult> = {};
+    const pending = [...order];
+    const running = new Map<string, Promise<string>>();
+    let halted = false;
+
+    const skip = (id: string, reason: string) => {
+        results[id] = 'skipped';
+        onSkip(id, reason);
+    };
+
+    const launchReady = () => {
+        // Walk in topological order so a skip propagates to later descendants in the same pass
+        for (const id of [...pending]) {
+            const upstream = getUpstreamIds(id, connected);
+            const blocker = upstream.find(u => results[u] !== undefined && results[u] !== 'completed');
+            if (blocker) {
+                const reason = `upstream node ${labelOf(blocker)} ${BLOCKED_BY[results[blocker] as keyof typeof BLOCKED_BY]}`;
+                pending.splice(pending.indexOf(id), 1);
+                skip(id, reason);
+                continue;
+            }
+            if (halted || !upstream.every(u => results[u] === 'completed')) continue;
+
+            pending.splice(pending.indexOf(id), 1);
+            running.set(id, runNode(id)
+                .catch((): NodeRunOutcome => 'error')
+                .then(outcome => {
+                    results[id] = outcome;
+                    if (outcome === 'error' && errorPolicy === 'stop') halted = true;
+                    return id;
+                }));
+        }
+    };
+
+    launchReady();
+    while (running.size > 0) {
+        const finishedId = await Promise.race(running.values());
+        running.delete(finishedId);
+        launchReady();
+    }
+
+    // Anything still pending was held back by a 'stop' policy halt
+    pending.forEach(id => skip(id, 'workflow stopped after an earlier node failed'));
+
+    return results;
+};
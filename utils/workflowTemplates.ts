@@ -0,0 +1,103 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Config, TaskType, WorkflowNode, WorkflowEdge, WorkflowTemplate, TemplateNode } from '../types';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w ]+?)\s*\}\}/g;
+
+// Project material that must not leak into a reusable template
+const CONTENT_KEYS: (keyof Config)[] = [
+    'Source_A_File', 'Source_B_File', 'Source_B_Files', 'Source_B_Content',
+    'Book_File', 'Core_Bibliography', 'Core_Bibliography_Files', 'References', 'Complementary_Files',
+    'Chapter_Outline', 'Draft_Chapter_Text', 'Red_Team_Review_Text', 'Final_Draft_For_Review'
+];
+
+// Per-project values that become {{Key}} placeholders when a template is saved
+const PLACEHOLDER_KEYS = ['Chapter_Title', 'Chapter_Subtitle', 'Target_Word_Count'] as const satisfies readonly (keyof Config)[];
+
+/**
+ * Builds a template from a set of canvas nodes. Only edges with both ends in the set are kept,
+ * and offsets are measured from the top-left-most node so the template inserts at the cursor.
+ */
+export const createTemplateFromNodes = (name: string, description: string, nodes: WorkflowNode[], edges: WorkflowEdge[]): WorkflowTemplate => {
+    const ids = new Set(nodes.map(n => n.id));
+    const originX = Math.min(...nodes.map(n => n.position.x));
+    const originY = Math.min(...nodes.map(n => n.position.y));
+
+    const templateNodes: TemplateNode[] = nodes.map(node => {
+        const config: Partial<Config> = { ...node.config };
+        CONTENT_KEYS.forEach(key => delete config[key]);
+        PLACEHOLDER_KEYS.forEach(key => {
+            if (config[key]?.trim()) config[key] = `{{${key}}}`;
+        });
+        return {
+            key: node.id,
+            type: node.type,
+            offset: { x: node.position.x - originX, y: node.position.y - originY },
+            label: node.label,
+            config,
+            provider: node.provider,
+        };
+    });
+
+    return {
+        id: uuidv4(),
+        name,
+        description,
+        nodes: templateNodes,
+        edges: edges.filter(e => ids.has(e.source) && ids.has(e.target)).map(e => ({ source: e.source, target: e.target })),
+        createdAt: Date.now(),
+    };
+};
+
+// Placeholder names in first-seen order, e.g. ['Chapter_Title', 'Target_Word_Count']
+export const findTemplatePlaceholders = (template: WorkflowTemplate): string[] => {
+    const names = new Set<string>();
+    template.nodes.forEach(node => {
+        Object.values(node.config).forEach(value => {
+            if (typeof value !== 'string') return;
+            for (const match of value.matchAll(PLACEHOLDER_PATTERN)) names.add(match[1]);
+        });
+    });
+    return Array.from(names);
+};
+
+const fillPlaceholders = (value: string, values: Record<string, string>): string =>
+    value.replace(PLACEHOLDER_PATTERN, (_, name: string) => values[name] ?? '');
+
+/**
+ * Creates canvas nodes and edges for a template at `origin`, with fresh ids so a template
+ * can be inserted any number of times into the same project.
+ */
+export const instantiateTemplate = (
+    template: WorkflowTemplate,
+    origin: { x: number; y: number },
+    values: Record<string, string>,
+    createConfig: (type: TaskType) => Config
+): { nodes: WorkflowNode[]; edges: WorkflowEdge[] } => {
+    const idMap: Record<string, string> = {};
+
+    const nodes = template.nodes.map(templateNode => {
+        const id = uuidv4();
+        idMap[templateNode.key] = id;
+
+        const filled: Partial<Config> = Object.fromEntries(Object.entries(templateNode.config).map(([key, value]) =>
+            [key, typeof value === 'string' ? fillPlaceholders(value, values) : value]));
+        const config: Config = Object.assign(createConfig(templateNode.type), filled);
+
+        const node: WorkflowNode = {
+            id,
+            type: templateNode.type,
+            position: { x: origin.x + templateNode.offset.x, y: origin.y + templateNode.offset.y },
+            config,
+            status: 'idle',
+            label: templateNode.label,
+            provider: templateNode.provider,
+        };
+        return node;
+    });
+
+    const edges = template.edges
+        .filter(e => idMap[e.source] && idMap[e.target])
+        .map(e => ({ id: uuidv4(), source: idMap[e.source], target: idMap[e.target] }));
+
+    return { nodes, edges };
+};
@@ -1,11 +1,31 @@
+import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// Tesseract fetches `<langPath>/eng.traineddata.gz` by name, so the English OCR model needs a stable,
+// unhashed URL: the dev server streams it from node_modules and builds copy it into the output
+const OCR_MODEL_PATH = path.resolve(__dirname, 'node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz');
+const OCR_MODEL_URL = 'tesseract/eng.traineddata.gz';
+
+const ocrModel = (): Plugin => ({
+  name: 'ocr-model',
+  configureServer(server) {
+    server.middlewares.use((req, res, next) => {
+      if (req.url?.split('?')[0] !== `${server.config.base}${OCR_MODEL_URL}`) return next();
+      res.setHeader('Content-Type', 'application/gzip');
+      fs.createReadStream(OCR_MODEL_PATH).pipe(res);
+    });
+  },
+  generateBundle() {
+    this.emitFile({ type: 'asset', fileName: OCR_MODEL_URL, source: fs.readFileSync(OCR_MODEL_PATH) });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -13,10 +33,12 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), ocrModel()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL)
       },
       resolve: {
         alias: {